@@ -1,173 +1,209 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { User, AuthContextType } from './types';
-import { generateBio } from './services/geminiService';
-import { Card, Button, Input, Layout } from './components/UI';
-import { Recharts, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts'; // Imported but not used in this specific logical flow as requested, sticking to core requirements but available if needed. Using simple lists instead for cleaner DB view.
-
-// --- Auth Context Setup ---
-// We define the context here in App.tsx to keep it self-contained for this specific file structure requirement
-// In a larger app, this would be in context/AuthContext.tsx
-
-const AuthContext = createContext<AuthContextType | undefined>(undefined);
-
-const useAuth = () => {
-  const context = useContext(AuthContext);
-  if (!context) throw new Error('useAuth must be used within an AuthProvider');
-  return context;
+import React, { useState, useEffect } from 'react';
+import { AvatarImages, User } from './types';
+import { Outbox } from './services/mail';
+import { AuthClient } from './services/authClient';
+import { createHttpAuthClient, createHttpOutbox } from './services/httpClient';
+import { parseActionLink } from './services/actionTokens';
+import { isPasskeySupported } from './services/passkeyBrowser';
+import { Permission, ROLES, USER_STATUSES } from './services/permissions';
+import { MessageKey } from './i18n';
+import { AuthProvider, useAuth, useAuthorization, RequirePermission } from './context/AuthContext';
+import { I18nProvider, useI18n } from './context/I18nContext';
+import { RouterProvider, useRouter, Navigate, Link, withNext, readNext } from './context/RouterContext';
+import { Card, Button, Input, Layout, DataTable, DataTableColumn, DataTableSelectFilter, useUrlTableState } from './components/UI';
+import { UserRowActions } from './components/UserManagement';
+import { UserImportExport } from './components/UserImport';
+import { OrganizationSwitcher, OrganizationDirectory, NoOrganizationCard, InvitationsCard, InvitationView, useInvitationPreview } from './components/Organizations';
+import { ProfileView } from './components/ProfileView';
+import { SessionsView } from './components/Sessions';
+import { FailedLoginsCard } from './components/FailedLoginsCard';
+import { AuditLogSection } from './components/AuditLog';
+import { TwoFactorCard } from './components/TwoFactorCard';
+import { ProviderSignInButtons, useProviderError } from './components/ExternalAccounts';
+import { OutboxViewer } from './components/OutboxViewer';
+import { ForgotPasswordView, ResetPasswordView, VerifyEmailView } from './components/AccountRecovery';
+import { PasswordStrengthMeter, usePasswordRules } from './components/PasswordStrengthMeter';
+import { BioGenerator } from './components/BioGenerator';
+import { Avatar, AvatarPicker } from './components/Avatar';
+import { LoginThrottledError } from './services/loginThrottle';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(Math.ceil(ms / 1000), 0);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 };
 
-const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [users, setUsers] = useState<User[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-
-  // Load data from "Database" (LocalStorage)
-  useEffect(() => {
-    const storedUsers = localStorage.getItem('auth_db_users');
-    const storedSession = localStorage.getItem('auth_session');
-    
-    if (storedUsers) {
-      setUsers(JSON.parse(storedUsers));
-    }
-
-    if (storedSession) {
-      setUser(JSON.parse(storedSession));
-    }
-    
-    setIsLoading(false);
-  }, []);
-
-  // Sync "Database" when users change
+// Re-renders every second while active and returns the current time.
+const useNow = (active = true) => {
+  const [now, setNow] = useState(() => Date.now());
   useEffect(() => {
-    if (users.length > 0) {
-      localStorage.setItem('auth_db_users', JSON.stringify(users));
-    }
-  }, [users]);
-
-  const login = async (email: string, pass: string) => {
-    return new Promise<void>((resolve, reject) => {
-      setIsLoading(true);
-      setTimeout(() => { // Simulate network delay
-        const foundUser = users.find(u => u.email === email && u.password === pass);
-        if (foundUser) {
-          setUser(foundUser);
-          localStorage.setItem('auth_session', JSON.stringify(foundUser));
-          setIsLoading(false);
-          resolve();
-        } else {
-          setIsLoading(false);
-          reject(new Error('Credenciais inválidas.'));
-        }
-      }, 800);
-    });
-  };
-
-  const register = async (data: Omit<User, 'id' | 'createdAt' | 'role'>) => {
-    return new Promise<void>((resolve, reject) => {
-      setIsLoading(true);
-      setTimeout(() => {
-        if (users.some(u => u.email === data.email)) {
-          setIsLoading(false);
-          reject(new Error('Este email já está cadastrado.'));
-          return;
-        }
-
-        const newUser: User = {
-          id: Math.random().toString(36).substr(2, 9),
-          createdAt: new Date().toISOString(),
-          role: 'user',
-          ...data
-        };
-
-        setUsers(prev => [...prev, newUser]);
-        setUser(newUser);
-        localStorage.setItem('auth_session', JSON.stringify(newUser));
-        setIsLoading(false);
-        resolve();
-      }, 1000);
-    });
-  };
-
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('auth_session');
-  };
-
-  return (
-    <AuthContext.Provider value={{ user, isAuthenticated: !!user, isLoading, login, register, logout, users }}>
-      {children}
-    </AuthContext.Provider>
-  );
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
 };
 
 // --- View: Login ---
-const LoginView: React.FC<{ onNavigate: (view: 'login' | 'register') => void }> = ({ onNavigate }) => {
-  const { login } = useAuth();
+const LoginView: React.FC = () => {
+  const { login, verifyTwoFactorLogin, cancelTwoFactorLogin, loginWithPasskey, oauthProviders } = useAuth();
+  const { search } = useRouter();
+  const { t, richText, describeError } = useI18n();
+  const providerError = useProviderError();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  // A provider sign-in for an account with 2FA comes back here with the challenge already issued.
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(() => new URLSearchParams(search).get('two_factor') === '1');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState(providerError);
   const [loading, setLoading] = useState(false);
+  const [passkeyLoading, setPasskeyLoading] = useState(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const now = useNow(retryAt !== null);
+  const isBlocked = retryAt !== null && retryAt > now;
+  const passkeysSupported = isPasskeySupported();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setRetryAt(null);
     setLoading(true);
     try {
-      await login(email, password);
+      if (needsTwoFactor) {
+        await verifyTwoFactorLogin(code);
+      } else {
+        const { twoFactorRequired } = await login(email, password);
+        setNeedsTwoFactor(twoFactorRequired);
+      }
     } catch (err: any) {
-      setError(err.message || 'Erro ao entrar.');
+      if (err instanceof LoginThrottledError) setRetryAt(err.retryAt);
+      setError(describeError(err, 'login.error'));
     } finally {
       setLoading(false);
     }
   };
 
+  // Passwordless: the passkey names the account, so the email field is not needed.
+  const handlePasskeyLogin = async () => {
+    setError('');
+    setRetryAt(null);
+    setPasskeyLoading(true);
+    try {
+      await loginWithPasskey();
+    } catch (err: any) {
+      if (err instanceof LoginThrottledError) setRetryAt(err.retryAt);
+      setError(describeError(err, 'login.error'));
+    } finally {
+      setPasskeyLoading(false);
+    }
+  };
+
   return (
     <div className="flex items-center justify-center min-h-[80vh] px-4">
       <Card className="w-full max-w-md p-8">
         <div className="text-center mb-8">
-          <h2 className="text-3xl font-bold text-gray-900">Bem-vindo</h2>
-          <p className="text-gray-500 mt-2">Entre na sua conta para continuar</p>
+          <h2 className="text-3xl font-bold text-gray-900">{t('login.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('login.subtitle')}</p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <Input 
-            label="Email" 
-            type="email" 
-            placeholder="seu@email.com"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
-            icon={<svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" /></svg>}
-          />
-          <Input 
-            label="Senha" 
-            type="password" 
-            placeholder="••••••••"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            icon={<svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>}
-          />
+          {needsTwoFactor ? (
+            <>
+              <p className="text-sm text-gray-600">
+                {t('login.twoFactorPrompt')}
+              </p>
+              <Input
+                label={t('common.verificationCode')}
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                autoFocus
+              />
+            </>
+          ) : (
+            <>
+              <Input 
+                label={t('common.email')} 
+                type="email" 
+                placeholder={t('common.emailPlaceholder')}
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                icon={<svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" /></svg>}
+              />
+              <Input 
+                label={t('common.password')} 
+                type="password" 
+                placeholder="••••••••"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                icon={<svg className="h-5 w-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>}
+              />
+              <div className="text-right -mt-4">
+                <Link to="/forgot-password" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                  {t('login.forgotPassword')}
+                </Link>
+              </div>
+            </>
+          )}
 
           {error && (
             <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded">
               <p className="text-sm text-red-700">{error}</p>
+              {isBlocked && (
+                <p className="text-sm text-red-700 mt-1">
+                  {richText('login.retryIn', { time: <span className="font-mono font-semibold">{formatCountdown(retryAt - now)}</span> })}
+                </p>
+              )}
             </div>
           )}
 
-          <Button type="submit" className="w-full" isLoading={loading}>
-            Entrar no Sistema
+          <Button type="submit" className="w-full" isLoading={loading} disabled={isBlocked || passkeyLoading}>
+            {needsTwoFactor ? t('login.verify') : t('login.submit')}
           </Button>
 
+          {!needsTwoFactor && (passkeysSupported || oauthProviders.length > 0) && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 text-xs text-gray-400 uppercase">
+                <span className="h-px flex-1 bg-gray-200" />
+                {t('login.orContinueWith')}
+                <span className="h-px flex-1 bg-gray-200" />
+              </div>
+              {passkeysSupported && (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  className="w-full"
+                  isLoading={passkeyLoading}
+                  disabled={loading || isBlocked}
+                  onClick={handlePasskeyLogin}
+                >
+                  {t('login.withPasskey')}
+                </Button>
+              )}
+              <ProviderSignInButtons />
+            </div>
+          )}
+
+          {needsTwoFactor && (
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={() => { cancelTwoFactorLogin(); setNeedsTwoFactor(false); setCode(''); setError(''); }}
+                className="text-sm text-gray-500 hover:text-gray-900"
+              >
+                {t('common.back')}
+              </button>
+            </div>
+          )}
+
           <div className="text-center mt-4">
-            <span className="text-sm text-gray-600">Não tem conta? </span>
-            <button 
-              type="button"
-              onClick={() => onNavigate('register')}
-              className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
-            >
-              Criar conta gratuita
-            </button>
+            <span className="text-sm text-gray-600">{t('login.noAccount')} </span>
+            <Link to={`/register${search}`} className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+              {t('login.createAccount')}
+            </Link>
           </div>
         </form>
       </Card>
@@ -176,47 +212,39 @@ const LoginView: React.FC<{ onNavigate: (view: 'login' | 'register') => void }>
 };
 
 // --- View: Register ---
-const RegisterView: React.FC<{ onNavigate: (view: 'login' | 'register') => void }> = ({ onNavigate }) => {
-  const { register } = useAuth();
+const RegisterView: React.FC = () => {
+  const { register, passwordPolicy } = useAuth();
+  const { search } = useRouter();
+  const { t, richText, describeError } = useI18n();
   const [step, setStep] = useState<1 | 2>(1);
+  // Invitation links for new accounts (/register?invitation=...) fix the email to the invited one.
+  const invitation = new URLSearchParams(search).get('invitation');
+  const { preview, error: invitationError } = useInvitationPreview(invitation);
   
   // Form State
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [interests, setInterests] = useState('');
   const [bio, setBio] = useState('');
+  const [avatar, setAvatar] = useState<AvatarImages | null>(null);
   
   // UI State
-  const [isGeneratingBio, setIsGeneratingBio] = useState(false);
   const [isRegistering, setIsRegistering] = useState(false);
   const [error, setError] = useState('');
+  const { isValid: isPasswordValid } = usePasswordRules(password, { name, email });
 
-  const handleGenerateBio = async () => {
-    if (!name || !interests) {
-      setError("Preencha nome e interesses para gerar a bio.");
-      return;
-    }
-    setError('');
-    setIsGeneratingBio(true);
-    try {
-      const generated = await generateBio(name, interests);
-      setBio(generated);
-    } catch {
-      setError("Falha ao gerar bio. Tente escrever manualmente.");
-    } finally {
-      setIsGeneratingBio(false);
-    }
-  };
+  useEffect(() => {
+    if (preview) setEmail(preview.email);
+  }, [preview]);
 
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setIsRegistering(true);
     try {
-      await register({ name, email, password, bio });
+      await register({ name, email, password, bio, ...(avatar ? { avatar } : {}), ...(preview && invitation ? { invitation } : {}) });
     } catch (err: any) {
-      setError(err.message || 'Erro ao registrar.');
+      setError(describeError(err, 'register.error'));
     } finally {
       setIsRegistering(false);
     }
@@ -226,70 +254,62 @@ const RegisterView: React.FC<{ onNavigate: (view: 'login' | 'register') => void
     <div className="flex items-center justify-center min-h-[80vh] px-4 py-8">
       <Card className="w-full max-w-lg p-8">
         <div className="text-center mb-6">
-          <h2 className="text-3xl font-bold text-gray-900">Criar Nova Conta</h2>
+          <h2 className="text-3xl font-bold text-gray-900">{t('register.title')}</h2>
           <div className="mt-4 flex justify-center space-x-2">
             <div className={`h-2 w-16 rounded-full transition-colors ${step === 1 ? 'bg-indigo-600' : 'bg-indigo-200'}`} />
             <div className={`h-2 w-16 rounded-full transition-colors ${step === 2 ? 'bg-indigo-600' : 'bg-gray-200'}`} />
           </div>
         </div>
 
+        {preview && (
+          <p className="mb-6 rounded-lg bg-indigo-50 p-3 text-sm text-indigo-800">
+            {richText('register.invitedTo', {
+              organization: <strong>{preview.organizationName}</strong>,
+              role: <strong>{t(`organizations.role.${preview.role}` as const)}</strong>,
+            })}
+          </p>
+        )}
+        {invitationError && <p className="mb-6 rounded-lg bg-amber-50 p-3 text-sm text-amber-800">{invitationError}</p>}
+
         <form onSubmit={handleRegister} className="space-y-6">
           {step === 1 && (
             <div className="space-y-4 animate-fadeIn">
-              <Input label="Nome Completo" value={name} onChange={e => setName(e.target.value)} placeholder="João Silva" required />
-              <Input label="Email" type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="joao@exemplo.com" required />
-              <Input label="Senha" type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Mínimo 6 caracteres" required />
+              <Input label={t('common.fullName')} value={name} onChange={e => setName(e.target.value)} placeholder={t('register.namePlaceholder')} required />
+              <Input label={t('common.email')} type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder={t('register.emailPlaceholder')} readOnly={!!preview} required />
+              <Input label={t('common.password')} type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder={t('register.passwordPlaceholder', { min: passwordPolicy.minLength })} required />
+              <PasswordStrengthMeter password={password} context={{ name, email }} />
               
               <Button type="button" className="w-full mt-4" onClick={() => {
-                if(name && email && password.length >= 6) setStep(2);
-                else setError("Preencha todos os campos corretamente.");
+                if(name && email && isPasswordValid) { setError(''); setStep(2); }
+                else setError(t('register.fillAll'));
               }}>
-                Continuar &rarr;
+                {t('register.next')}
               </Button>
             </div>
           )}
 
           {step === 2 && (
             <div className="space-y-4 animate-fadeIn">
-               <div className="bg-indigo-50 p-4 rounded-lg border border-indigo-100 mb-4">
-                <h4 className="font-semibold text-indigo-900 text-sm mb-2 flex items-center">
-                   <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20"><path d="M13 6a3 3 0 11-6 0 3 3 0 016 0zM18 8a2 2 0 11-4 0 2 2 0 014 0zM14 15a4 4 0 00-8 0v3h8v-3zM6 8a2 2 0 11-4 0 2 2 0 014 0zM16 18v-3a5.972 5.972 0 00-.75-2.906A3.005 3.005 0 0119 15v3h-3zM4.75 12.094A5.973 5.973 0 004 15v3H1v-3a3 3 0 013.75-2.906z" /></svg>
-                   Assistente de Perfil IA
-                </h4>
-                <p className="text-xs text-indigo-700 mb-3">
-                  Conte-nos o que você faz e nossa IA criará uma bio profissional para você.
-                </p>
-                <Input 
-                  label="Interesses ou Profissão" 
-                  value={interests} 
-                  onChange={e => setInterests(e.target.value)} 
-                  placeholder="Ex: Desenvolvedor Front-end, amante de café e React" 
-                />
-                 <Button 
-                  type="button" 
-                  variant="secondary" 
-                  className="w-full text-sm py-1 mt-2"
-                  onClick={handleGenerateBio}
-                  isLoading={isGeneratingBio}
-                  disabled={!interests}
-                >
-                  ✨ Gerar Bio com IA
-                </Button>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t('register.avatarLabel')}</label>
+                <AvatarPicker user={{ name, avatar: avatar ?? undefined }} onChange={setAvatar} />
               </div>
 
+              <BioGenerator name={name} onBioChange={setBio} />
+
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Sua Bio</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.yourBio')}</label>
                 <textarea 
                   className="w-full rounded-lg border border-gray-300 p-3 focus:ring-indigo-500 focus:border-indigo-500 h-24"
                   value={bio}
                   onChange={e => setBio(e.target.value)}
-                  placeholder="Sua bio aparecerá aqui..."
+                  placeholder={t('register.bioPlaceholder')}
                 />
               </div>
 
               <div className="flex gap-3">
-                <Button type="button" variant="ghost" onClick={() => setStep(1)} className="w-1/3">Voltar</Button>
-                <Button type="submit" className="w-2/3" isLoading={isRegistering}>Finalizar Cadastro</Button>
+                <Button type="button" variant="ghost" onClick={() => setStep(1)} className="w-1/3">{t('common.back')}</Button>
+                <Button type="submit" className="w-2/3" isLoading={isRegistering}>{t('register.submit')}</Button>
               </div>
             </div>
           )}
@@ -297,9 +317,9 @@ const RegisterView: React.FC<{ onNavigate: (view: 'login' | 'register') => void
           {error && <p className="text-red-600 text-sm text-center mt-2">{error}</p>}
           
           <div className="text-center mt-2">
-            <button type="button" onClick={() => onNavigate('login')} className="text-sm text-gray-500 hover:text-gray-900">
-              Já tenho conta
-            </button>
+            <Link to={invitation ? withNext('/login', `/invitation?${new URLSearchParams({ token: invitation })}`) : `/login${search}`} className="text-sm text-gray-500 hover:text-gray-900">
+              {t('register.haveAccount')}
+            </Link>
           </div>
         </form>
       </Card>
@@ -307,135 +327,501 @@ const RegisterView: React.FC<{ onNavigate: (view: 'login' | 'register') => void
   );
 };
 
+// --- Session expiry warning ---
+const SESSION_WARNING_MS = 2 * 60 * 1000;
+
+const SessionExpiryWarning: React.FC = () => {
+  const { sessionExpiresAt, refreshSession } = useAuth();
+  const { t, richText } = useI18n();
+  const now = useNow();
+
+  if (!sessionExpiresAt) return null;
+  const remaining = sessionExpiresAt - now;
+  if (remaining > SESSION_WARNING_MS || remaining <= 0) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 bg-amber-50 border-l-4 border-amber-500 p-4 rounded">
+      <p className="text-sm text-amber-800">
+        {richText('session.expiresIn', { time: <span className="font-mono font-semibold">{formatCountdown(remaining)}</span> })}
+      </p>
+      <Button variant="secondary" className="text-sm py-1" onClick={refreshSession}>
+        {t('session.stay')}
+      </Button>
+    </div>
+  );
+};
+
+// --- Email verification notice ---
+const EmailVerificationNotice: React.FC = () => {
+  const { user, requestEmailVerification } = useAuth();
+  const { t, describeError } = useI18n();
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user || user.emailVerified) return null;
+
+  const handleResend = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      await requestEmailVerification();
+      setSent(true);
+    } catch (err: any) {
+      setError(describeError(err, 'emailNotice.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 bg-blue-50 border-l-4 border-blue-500 p-4 rounded">
+      <p className="text-sm text-blue-800">
+        {sent
+          ? t('emailNotice.sent', { email: user.email })
+          : t('emailNotice.pending', { email: user.email })}
+        {error && <span className="block text-red-600">{error}</span>}
+      </p>
+      <Button variant="secondary" className="text-sm py-1" onClick={handleResend} isLoading={loading}>
+        {t('emailNotice.resend')}
+      </Button>
+    </div>
+  );
+};
+
+// --- User directory ---
+// Admins see every account; everyone else sees only their own record. The table's search,
+// sort, filters and page live in the URL.
+const USER_TABLE_FILTERS = ['role', 'status'] as const;
+
+const UserDirectory: React.FC<{ className?: string; action?: React.ReactNode }> = ({ className = '', action }) => {
+  const { user, users } = useAuth();
+  const { can } = useAuthorization();
+  const { t, formatDate } = useI18n();
+  const [tableState, setTableState] = useUrlTableState(USER_TABLE_FILTERS);
+  // Filtering a list of one is pointless, so only admins get the toolbar.
+  const canList = can('users:list');
+
+  const filters: DataTableSelectFilter<User>[] = [
+    {
+      key: 'role',
+      label: t('dashboard.column.role'),
+      options: ROLES.map(role => ({ value: role, label: t(`users.role.${role}` as const) })),
+      matches: (u, role) => u.role === role,
+    },
+    {
+      key: 'status',
+      label: t('dashboard.column.status'),
+      options: USER_STATUSES.map(status => ({ value: status, label: t(status === 'active' ? 'dashboard.active' : 'dashboard.disabled') })),
+      matches: (u, status) => u.status === status,
+    },
+  ];
+
+  const columns: DataTableColumn<User>[] = [
+    {
+      key: 'name',
+      header: t('common.name'),
+      sortValue: u => u.name,
+      render: u => (
+        <div className="flex items-center">
+          <Avatar user={u} />
+          <div className="ml-4">
+            <div className="text-sm font-medium text-gray-900">{u.name}</div>
+            {u.id === user?.id && <span className="text-xs text-indigo-600 font-semibold">{t('dashboard.you')}</span>}
+            {u.role === 'admin' && <span className="ml-1 text-xs text-violet-600 font-semibold">{t('dashboard.admin')}</span>}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'email',
+      header: t('common.email'),
+      sortValue: u => u.email,
+      render: u => (
+        <>
+          {u.email}
+          {u.emailVerified ? (
+            <span className="block text-xs text-green-700">{t('dashboard.verified')}</span>
+          ) : (
+            <span className="block text-xs text-amber-600">{t('dashboard.unverified')}</span>
+          )}
+        </>
+      ),
+    },
+    {
+      key: 'bio',
+      header: t('dashboard.column.bio'),
+      className: 'px-6 py-4 text-sm text-gray-500 max-w-xs truncate',
+      render: u => u.bio,
+    },
+    {
+      key: 'createdAt',
+      header: t('dashboard.column.date'),
+      sortValue: u => u.createdAt,
+      render: u => formatDate(u.createdAt, { day: '2-digit', month: '2-digit', year: 'numeric' }),
+    },
+    {
+      key: 'status',
+      header: t('dashboard.column.status'),
+      sortValue: u => u.status,
+      className: 'px-6 py-4 whitespace-nowrap',
+      render: u => (
+        <>
+          {u.status === 'disabled' ? (
+            <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-600">{t('dashboard.disabled')}</span>
+          ) : (
+            <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">{t('dashboard.active')}</span>
+          )}
+          {u.mustChangePassword && <span className="block mt-1 text-xs text-amber-600">{t('dashboard.passwordChangePending')}</span>}
+        </>
+      ),
+    },
+    ...(can('users:edit')
+      ? [{ key: 'actions', header: t('dashboard.column.actions'), className: 'px-6 py-4 text-sm', render: (u: User) => <UserRowActions target={u} /> }]
+      : []),
+  ];
+
+  return (
+    <Card className={`flex flex-col ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+        <div>
+          <RequirePermission
+            permission="users:list"
+            fallback={<>
+              <h3 className="text-lg font-bold text-gray-900">{t('dashboard.ownRecord')}</h3>
+              <p className="text-sm text-gray-500">{t('dashboard.adminsOnly')}</p>
+            </>}
+          >
+            <h3 className="text-lg font-bold text-gray-900">{t('dashboard.usersTitle')}</h3>
+            <p className="text-sm text-gray-500">{t('dashboard.totalRecords', { count: users.length })}</p>
+          </RequirePermission>
+        </div>
+        <div className="flex items-center gap-3">
+          {action}
+          <div className="p-2 bg-blue-50 rounded-lg">
+            <svg className="w-5 h-5 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+            </svg>
+          </div>
+        </div>
+      </div>
+      <DataTable
+        rows={users}
+        columns={columns}
+        rowKey={u => u.id}
+        state={tableState}
+        onStateChange={setTableState}
+        searchText={canList ? u => `${u.name} ${u.email} ${u.bio}` : undefined}
+        selectFilters={canList ? filters : []}
+        dateFilter={canList ? { label: t('dashboard.column.date'), value: u => u.createdAt } : undefined}
+        rowClassName={u => (u.id === user?.id ? 'bg-indigo-50/60' : 'hover:bg-gray-50')}
+      />
+    </Card>
+  );
+};
+
 // --- View: Dashboard ---
 const Dashboard: React.FC = () => {
-  const { user, users, logout } = useAuth();
+  const { user, logout, currentOrganization } = useAuth();
+  const { navigate } = useRouter();
+  const { t, formatDate } = useI18n();
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8 animate-fadeIn">
+      <SessionExpiryWarning />
+      <EmailVerificationNotice />
+
       {/* Welcome Section */}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center bg-gradient-to-r from-indigo-700 to-violet-700 rounded-2xl p-8 text-white shadow-xl">
-        <div>
-          <h1 className="text-3xl font-bold mb-2">Olá, {user?.name}! 👋</h1>
-          <p className="text-indigo-100 max-w-xl">{user?.bio}</p>
+        <div className="flex items-center gap-5">
+          {user && <Avatar user={user} size="lg" className="ring-4 ring-white/20" />}
+          <div>
+            <h1 className="text-3xl font-bold mb-2">{t('dashboard.greeting', { name: user?.name ?? '' })}</h1>
+            <p className="text-indigo-100 max-w-xl">{user?.bio}</p>
+          </div>
+        </div>
+        <div className="flex gap-3 mt-4 md:mt-0">
+          <Button onClick={() => navigate('/profile')} variant="secondary" className="bg-white/10 text-white border-white/20 hover:bg-white/20">
+            {t('dashboard.editProfile')}
+          </Button>
+          <Button onClick={logout} variant="secondary" className="bg-white/10 text-white border-white/20 hover:bg-white/20">
+            {t('dashboard.signOut')}
+          </Button>
         </div>
-        <Button onClick={logout} variant="secondary" className="mt-4 md:mt-0 bg-white/10 text-white border-white/20 hover:bg-white/20">
-          Sair do Sistema
-        </Button>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* User Info Card */}
         <Card className="p-6 col-span-1 border-t-4 border-t-indigo-500">
-          <h3 className="text-lg font-bold text-gray-900 mb-4">Seus Dados</h3>
+          <h3 className="text-lg font-bold text-gray-900 mb-4">{t('dashboard.yourData')}</h3>
           <div className="space-y-4">
             <div>
-              <label className="text-xs font-semibold text-gray-400 uppercase">ID do Usuário</label>
+              <label className="text-xs font-semibold text-gray-400 uppercase">{t('dashboard.userId')}</label>
               <p className="text-sm font-mono bg-gray-100 p-2 rounded mt-1 text-gray-600 truncate">{user?.id}</p>
             </div>
             <div>
-              <label className="text-xs font-semibold text-gray-400 uppercase">Email</label>
+              <label className="text-xs font-semibold text-gray-400 uppercase">{t('common.email')}</label>
               <p className="text-gray-800 font-medium">{user?.email}</p>
             </div>
             <div>
-              <label className="text-xs font-semibold text-gray-400 uppercase">Membro Desde</label>
-              <p className="text-gray-800">{new Date(user?.createdAt || '').toLocaleDateString('pt-BR')}</p>
+              <label className="text-xs font-semibold text-gray-400 uppercase">{t('dashboard.memberSince')}</label>
+              <p className="text-gray-800">{formatDate(user?.createdAt || '')}</p>
             </div>
              <div className="pt-4 mt-4 border-t border-gray-100">
                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                   <span className="w-2 h-2 mr-1 bg-green-500 rounded-full"></span>
-                  Online
+                  {t('dashboard.online')}
                 </span>
              </div>
           </div>
         </Card>
 
-        {/* Database View (Simulated) */}
+        {/* Members of the current organization; the full user database lives in /admin/users */}
         <div className="col-span-1 lg:col-span-2">
-           <Card className="h-full flex flex-col">
-            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
-              <div>
-                <h3 className="text-lg font-bold text-gray-900">Banco de Dados de Usuários</h3>
-                <p className="text-sm text-gray-500">Total de registros: {users.length}</p>
-              </div>
-              <div className="p-2 bg-blue-50 rounded-lg">
-                <svg className="w-5 h-5 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
-                </svg>
-              </div>
-            </div>
-            <div className="overflow-x-auto flex-grow">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nome</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bio (Preview)</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {users.map((u) => (
-                    <tr key={u.id} className={u.id === user?.id ? "bg-indigo-50/60" : "hover:bg-gray-50"}>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center">
-                          <div className="flex-shrink-0 h-8 w-8 rounded-full bg-gradient-to-br from-indigo-400 to-purple-400 flex items-center justify-center text-white font-bold text-xs uppercase">
-                            {u.name.charAt(0)}
-                          </div>
-                          <div className="ml-4">
-                            <div className="text-sm font-medium text-gray-900">{u.name}</div>
-                            {u.id === user?.id && <span className="text-xs text-indigo-600 font-semibold">(Você)</span>}
-                          </div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{u.email}</td>
-                      <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{u.bio}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {new Date(u.createdAt).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-           </Card>
+          {currentOrganization ? (
+            <OrganizationDirectory
+              className="h-full"
+              action={
+                <RequirePermission permission="users:list">
+                  <Link to="/admin/users" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                    {t('dashboard.manageUsers')}
+                  </Link>
+                </RequirePermission>
+              }
+            />
+          ) : (
+            <NoOrganizationCard className="h-full" />
+          )}
         </div>
       </div>
+
+      <InvitationsCard />
+
+      <TwoFactorCard />
+
+      <RequirePermission permission="audit:read">
+        <AuditLogSection />
+      </RequirePermission>
+    </div>
+  );
+};
+
+// --- View: User Administration ---
+const AdminUsersView: React.FC = () => {
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8 animate-fadeIn">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">{t('adminUsers.title')}</h1>
+        <Button variant="ghost" onClick={() => navigate('/dashboard')}>{t('adminUsers.back')}</Button>
+      </div>
+      <UserDirectory action={<UserImportExport />} />
+      <FailedLoginsCard />
+    </div>
+  );
+};
+
+// --- View: Not Found ---
+const NotFoundView: React.FC = () => {
+  const { path } = useRouter();
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center justify-center min-h-[60vh] px-4">
+      <Card className="w-full max-w-md p-8 text-center space-y-4">
+        <p className="text-5xl font-bold text-indigo-600">404</p>
+        <h2 className="text-2xl font-bold text-gray-900">{t('notFound.title')}</h2>
+        <p className="text-sm text-gray-500">
+          {t('notFound.message')} <code className="font-mono text-gray-700 break-all">{path}</code>
+        </p>
+        <Link to="/" className="inline-block text-sm font-medium text-indigo-600 hover:text-indigo-500">{t('notFound.home')}</Link>
+      </Card>
+    </div>
+  );
+};
+
+// --- View: Forced Password Change ---
+const ForcedPasswordChangeView: React.FC = () => {
+  const { user, completePasswordReset, logout } = useAuth();
+  const { t, describeError } = useI18n();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { isValid } = usePasswordRules(password, user ?? {});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) {
+      setError(t('common.passwordRequirements'));
+      return;
+    }
+    if (password !== confirmation) {
+      setError(t('common.passwordMismatch'));
+      return;
+    }
+    setError('');
+    setLoading(true);
+    try {
+      await completePasswordReset(password);
+    } catch (err: any) {
+      setError(describeError(err, 'forcedPassword.error'));
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-[80vh] px-4">
+      <Card className="w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">{t('forcedPassword.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('forcedPassword.subtitle', { email: user?.email ?? '' })}</p>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input label={t('common.newPassword')} type="password" value={password} onChange={e => setPassword(e.target.value)} required />
+          <PasswordStrengthMeter password={password} context={user ?? {}} />
+          <Input label={t('common.confirmPassword')} type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} required />
+          {error && <p className="text-red-600 text-sm text-center">{error}</p>}
+          <Button type="submit" className="w-full" isLoading={loading}>{t('common.saveNewPassword')}</Button>
+          <div className="text-center">
+            <button type="button" onClick={logout} className="text-sm text-gray-500 hover:text-gray-900">{t('common.signOut')}</button>
+          </div>
+        </form>
+      </Card>
     </div>
   );
 };
 
+// --- Routing ---
+
+// Pages for signed-in users. Guests are sent to /login with the page remembered in ?next=,
+// and a pending forced password change blocks every page until it is done.
+const ProtectedRoute: React.FC<{ permission?: Permission; children: React.ReactNode }> = ({ permission, children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const { path, search } = useRouter();
+  if (!isAuthenticated) return <Navigate to={withNext('/login', path + search)} />;
+  if (user?.mustChangePassword) return <ForcedPasswordChangeView />;
+  // Pages the user may not see look like pages that don't exist.
+  if (permission) return <RequirePermission permission={permission} fallback={<NotFoundView />}>{children}</RequirePermission>;
+  return <>{children}</>;
+};
+
+// Login and registration; signing in from here continues to the remembered page.
+const GuestRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const { search } = useRouter();
+  if (isAuthenticated) return <Navigate to={readNext(search, '/dashboard')} />;
+  return <>{children}</>;
+};
+
+const NAV_LINKS: { to: string; label: MessageKey; permission?: Permission }[] = [
+  { to: '/dashboard', label: 'nav.dashboard' },
+  { to: '/profile', label: 'nav.profile' },
+  { to: '/sessions', label: 'nav.sessions' },
+  { to: '/admin/users', label: 'nav.users', permission: 'users:list' },
+];
+
+const AppNav: React.FC = () => {
+  const { user, isAuthenticated } = useAuth();
+  const { can } = useAuthorization();
+  const { path } = useRouter();
+  const { t } = useI18n();
+  if (!isAuthenticated || user?.mustChangePassword) return null;
+  return (
+    <>
+      {NAV_LINKS.filter(link => !link.permission || can(link.permission)).map(link => (
+        <Link
+          key={link.to}
+          to={link.to}
+          aria-current={path === link.to ? 'page' : undefined}
+          className={path === link.to ? 'text-indigo-600' : 'hover:text-gray-900'}
+        >
+          {t(link.label)}
+        </Link>
+      ))}
+    </>
+  );
+};
+
+// Trailing slashes are ignored so /profile/ still finds the profile.
+const normalizePath = (path: string) => (path.length > 1 ? path.replace(/\/+$/, '') : path);
+
+const renderRoute = (path: string, navigate: (to: string) => void) => {
+  switch (normalizePath(path)) {
+    case '/':
+      return <Navigate to="/dashboard" />;
+    case '/login':
+      return <GuestRoute><LoginView /></GuestRoute>;
+    case '/register':
+      return <GuestRoute><RegisterView /></GuestRoute>;
+    case '/forgot-password':
+      return <GuestRoute><ForgotPasswordView onBack={() => navigate('/login')} /></GuestRoute>;
+    case '/dashboard':
+      return <ProtectedRoute><Dashboard /></ProtectedRoute>;
+    case '/profile':
+      return <ProtectedRoute><ProfileView onBack={() => navigate('/dashboard')} /></ProtectedRoute>;
+    case '/sessions':
+      return <ProtectedRoute><SessionsView onBack={() => navigate('/dashboard')} /></ProtectedRoute>;
+    case '/invitation':
+      return <ProtectedRoute><InvitationView /></ProtectedRoute>;
+    case '/admin/users':
+      return <ProtectedRoute permission="users:list"><AdminUsersView /></ProtectedRoute>;
+    default:
+      return <NotFoundView />;
+  }
+};
+
 // --- Main App Component ---
 const AppContent: React.FC = () => {
-  const { isAuthenticated, isLoading } = useAuth();
-  const [view, setView] = useState<'login' | 'register'>('login');
+  const { isLoading } = useAuth();
+  const { path, navigate } = useRouter();
+  const { t } = useI18n();
+  // Links from emails (?action=...&token=...) take over until they are handled.
+  const [actionLink, setActionLink] = useState(() => parseActionLink(window.location.search));
+
+  const finishActionLink = () => {
+    setActionLink(null);
+    navigate('/login', { replace: true });
+  };
 
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="flex flex-col items-center">
           <div className="w-12 h-12 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mb-4"></div>
-          <p className="text-gray-500 font-medium">Carregando sistema...</p>
+          <p className="text-gray-500 font-medium">{t('app.loading')}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <Layout>
-      {!isAuthenticated ? (
-        view === 'login' ? <LoginView onNavigate={setView} /> : <RegisterView onNavigate={setView} />
+    <Layout nav={<AppNav />} switcher={<OrganizationSwitcher />}>
+      {actionLink?.purpose === 'verify_email' ? (
+        <VerifyEmailView token={actionLink.token} onDone={finishActionLink} />
+      ) : actionLink?.purpose === 'reset_password' ? (
+        <ResetPasswordView token={actionLink.token} onDone={finishActionLink} />
       ) : (
-        <Dashboard />
+        renderRoute(path, navigate)
       )}
     </Layout>
   );
 };
 
-export default function App() {
+// Without props this runs against the API server, with the Outbox viewer only when the build
+// had DEV_OUTBOX=1 like the server; tests and demos can pass
+// createLocalAuthClient({ storage, mail: outbox }) together with that same outbox.
+export default function App({ client, outbox }: { client?: AuthClient; outbox?: Outbox }) {
+  const [authClient] = useState(() => client ?? createHttpAuthClient());
+  const [mailOutbox] = useState(() => outbox ?? (process.env.DEV_OUTBOX === '1' ? createHttpOutbox() : null));
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <I18nProvider>
+      <RouterProvider>
+        <AuthProvider client={authClient}>
+          <AppContent />
+          {mailOutbox && <OutboxViewer outbox={mailOutbox} />}
+        </AuthProvider>
+      </RouterProvider>
+    </I18nProvider>
   );
 }
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { Card, Button, Input } from './UI';
+import { PasswordStrengthMeter, usePasswordRules } from './PasswordStrengthMeter';
+
+// --- View: Forgot Password ---
+export const ForgotPasswordView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const { requestPasswordReset } = useAuth();
+  const { t, describeError } = useI18n();
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      await requestPasswordReset(email);
+      setSent(true);
+    } catch (err: any) {
+      setError(describeError(err, 'forgot.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-[80vh] px-4">
+      <Card className="w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">{t('forgot.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('forgot.subtitle')}</p>
+        </div>
+        {sent ? (
+          <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded mb-6">
+            <p className="text-sm text-green-800">{t('forgot.sent', { email })}</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input label={t('common.email')} type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder={t('common.emailPlaceholder')} required />
+            {error && <p className="text-red-600 text-sm">{error}</p>}
+            <Button type="submit" className="w-full" isLoading={loading}>{t('forgot.submit')}</Button>
+          </form>
+        )}
+        <div className="text-center mt-4">
+          <button type="button" onClick={onBack} className="text-sm text-gray-500 hover:text-gray-900">{t('forgot.back')}</button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+// --- View: Set New Password (from emailed link) ---
+export const ResetPasswordView: React.FC<{ token: string; onDone: () => void }> = ({ token, onDone }) => {
+  const { resetPassword } = useAuth();
+  const { t, describeError } = useI18n();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  // Name/email are unknown here; the provider still checks them before accepting the password.
+  const { isValid } = usePasswordRules(password);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) {
+      setError(t('common.passwordRequirements'));
+      return;
+    }
+    if (password !== confirmation) {
+      setError(t('common.passwordMismatch'));
+      return;
+    }
+    setError('');
+    setLoading(true);
+    try {
+      await resetPassword(token, password);
+      setDone(true);
+    } catch (err: any) {
+      setError(describeError(err, 'reset.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-[80vh] px-4">
+      <Card className="w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">{t('reset.title')}</h2>
+        </div>
+        {done ? (
+          <div className="space-y-4">
+            <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded">
+              <p className="text-sm text-green-800">{t('reset.done')}</p>
+            </div>
+            <Button className="w-full" onClick={onDone}>{t('common.continue')}</Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input label={t('common.newPassword')} type="password" value={password} onChange={e => setPassword(e.target.value)} required />
+            <PasswordStrengthMeter password={password} />
+            <Input label={t('common.confirmPassword')} type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} required />
+            {error && <p className="text-red-600 text-sm">{error}</p>}
+            <Button type="submit" className="w-full" isLoading={loading}>{t('common.saveNewPassword')}</Button>
+            <div className="text-center">
+              <button type="button" onClick={onDone} className="text-sm text-gray-500 hover:text-gray-900">{t('common.cancel')}</button>
+            </div>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+// --- View: Verify Email (from emailed link) ---
+export const VerifyEmailView: React.FC<{ token: string; onDone: () => void }> = ({ token, onDone }) => {
+  const { verifyEmail } = useAuth();
+  const { t, describeError } = useI18n();
+  const [status, setStatus] = useState<'pending' | 'success' | 'error'>('pending');
+  const [error, setError] = useState('');
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use: guard against StrictMode running the effect twice.
+    if (started.current) return;
+    started.current = true;
+    verifyEmail(token)
+      .then(() => setStatus('success'))
+      .catch((err: any) => {
+        setError(describeError(err, 'verify.error'));
+        setStatus('error');
+      });
+  }, [token]);
+
+  return (
+    <div className="flex items-center justify-center min-h-[80vh] px-4">
+      <Card className="w-full max-w-md p-8 text-center space-y-6">
+        <h2 className="text-2xl font-bold text-gray-900">{t('verify.title')}</h2>
+        {status === 'pending' && <p className="text-gray-500">{t('verify.pending')}</p>}
+        {status === 'success' && <p className="text-green-700">{t('verify.success')}</p>}
+        {status === 'error' && <p className="text-red-600">{error}</p>}
+        <Button className="w-full" onClick={onDone} disabled={status === 'pending'}>{t('common.continue')}</Button>
+      </Card>
+    </div>
+  );
+};
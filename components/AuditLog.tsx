@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { AuditEvent, AuditEventType, User } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { toCsv, downloadTextFile } from '../services/csv';
+import { Card, Button, Input } from './UI';
+
+const AUDIT_EVENT_TYPES: AuditEventType[] = [
+  'register',
+  'login',
+  'login_failed',
+  'logout',
+  'password_changed',
+  'password_reset_requested',
+  'password_reset',
+  'password_reset_forced',
+  'email_verification_sent',
+  'email_verified',
+  'profile_updated',
+  'two_factor_enabled',
+  'two_factor_disabled',
+  'user_updated',
+  'role_changed',
+  'status_changed',
+  'user_deleted',
+  'user_imported',
+  'provider_linked',
+  'provider_unlinked',
+  'passkey_registered',
+  'passkey_removed',
+  'organization_created',
+  'member_invited',
+  'invitation_revoked',
+  'member_joined',
+  'member_role_changed',
+  'member_removed',
+  'session_revoked',
+  'sessions_revoked',
+  'data_exported',
+  'deletion_requested',
+  'deletion_cancelled',
+  'account_purged',
+];
+
+const CHART_DAYS = 14;
+
+// Local calendar day, so events land on the day the admin sees in their own timezone.
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatMetadata = (metadata: AuditEvent['metadata']) =>
+  Object.entries(metadata).map(([key, value]) => `${key}=${value}`).join(' ');
+
+const describeUser = (id: string | null, usersById: Map<string, User>, event: AuditEvent, removed: (who: string) => string) => {
+  if (!id) return typeof event.metadata.email === 'string' ? event.metadata.email : '—';
+  const user = usersById.get(id);
+  if (user) return `${user.name} <${user.email}>`;
+  return removed(typeof event.metadata.email === 'string' ? event.metadata.email : id);
+};
+
+// --- Activity per day (registrations, logins, failed attempts) ---
+const ActivityCharts: React.FC<{ events: AuditEvent[] }> = ({ events }) => {
+  const { t, formatDate } = useI18n();
+  const data = useMemo(() => {
+    const days = new Map<string, { day: string; label: string; register: number; login: number; login_failed: number }>();
+    const today = new Date();
+    for (let i = CHART_DAYS - 1; i >= 0; i--) {
+      const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i);
+      const key = dayKey(date);
+      days.set(key, { day: key, label: formatDate(date, { day: '2-digit', month: '2-digit' }), register: 0, login: 0, login_failed: 0 });
+    }
+    for (const event of events) {
+      if (event.type !== 'register' && event.type !== 'login' && event.type !== 'login_failed') continue;
+      const bucket = days.get(dayKey(new Date(event.at)));
+      if (bucket) bucket[event.type]++;
+    }
+    return [...days.values()];
+  }, [events, formatDate]);
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900">{t('audit.activity')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('audit.lastDays', { days: CHART_DAYS })}</p>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <XAxis dataKey="label" fontSize={12} />
+            <YAxis allowDecimals={false} fontSize={12} width={32} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="register" name={t('audit.event.register')} fill="#4f46e5" />
+            <Bar dataKey="login" name={t('audit.event.login')} fill="#10b981" />
+            <Bar dataKey="login_failed" name={t('audit.event.login_failed')} fill="#ef4444" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+};
+
+// --- Searchable event timeline ---
+const AuditTimeline: React.FC<{ events: AuditEvent[]; isLoading: boolean; onRefresh: () => void }> = ({ events, isLoading, onRefresh }) => {
+  const { users } = useAuth();
+  const { t, formatDateTime } = useI18n();
+  const eventLabel = (type: AuditEventType) => t(`audit.event.${type}` as const);
+  const [type, setType] = useState<AuditEventType | ''>('');
+  const [query, setQuery] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const usersById = useMemo(() => new Map(users.map(u => [u.id, u])), [users]);
+
+  // Newest first, with actor/target resolved once so search and export agree on what they show.
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const removed = (who: string) => t('audit.removed', { who });
+    return events
+      .filter(e => !type || e.type === type)
+      .filter(e => !from || dayKey(new Date(e.at)) >= from)
+      .filter(e => !to || dayKey(new Date(e.at)) <= to)
+      .map(e => ({
+        event: e,
+        actor: describeUser(e.actorId, usersById, e, removed),
+        target: e.targetId ? describeUser(e.targetId, usersById, e, removed) : '—',
+        details: formatMetadata(e.metadata),
+      }))
+      .filter(r => !needle || [r.actor, r.target, r.details, eventLabel(r.event.type)].some(v => v.toLowerCase().includes(needle)))
+      .reverse();
+  }, [events, type, query, from, to, usersById, t]);
+
+  const handleExport = () => {
+    const csv = toCsv(
+      ['id', 'data', 'tipo', 'ator_id', 'ator', 'alvo_id', 'alvo', 'detalhes'],
+      rows.map(r => [r.event.id, r.event.at, r.event.type, r.event.actorId, r.actor, r.event.targetId, r.target, r.details])
+    );
+    downloadTextFile(`auditoria-${dayKey(new Date())}.csv`, csv);
+  };
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">{t('audit.title')}</h3>
+          <p className="text-sm text-gray-500">{t('audit.count', { shown: rows.length, total: events.length })}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" className="text-sm" onClick={handleExport} disabled={rows.length === 0}>{t('audit.export')}</Button>
+          <Button variant="ghost" className="text-sm" onClick={onRefresh} isLoading={isLoading}>{t('common.refresh')}</Button>
+        </div>
+      </div>
+      <div className="px-6 pt-4 grid grid-cols-1 md:grid-cols-4 gap-x-4">
+        <Input label={t('audit.search')} value={query} onChange={e => setQuery(e.target.value)} placeholder={t('audit.searchPlaceholder')} />
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('audit.type')}</label>
+          <select
+            className="w-full rounded-lg border border-gray-300 focus:ring-indigo-500 focus:border-indigo-500 px-3 py-2 focus:outline-none focus:ring-1 bg-white"
+            value={type}
+            onChange={e => setType(e.target.value as AuditEventType | '')}
+          >
+            <option value="">{t('audit.allTypes')}</option>
+            {AUDIT_EVENT_TYPES.map(eventType => (
+              <option key={eventType} value={eventType}>{eventLabel(eventType)}</option>
+            ))}
+          </select>
+        </div>
+        <Input label={t('audit.from')} type="date" value={from} onChange={e => setFrom(e.target.value)} />
+        <Input label={t('audit.to')} type="date" value={to} onChange={e => setTo(e.target.value)} />
+      </div>
+      {rows.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">{t('audit.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-gray-500 font-medium sticky top-0">
+              <tr>
+                <th className="px-6 py-3">{t('audit.column.date')}</th>
+                <th className="px-6 py-3">{t('audit.column.event')}</th>
+                <th className="px-6 py-3">{t('audit.column.actor')}</th>
+                <th className="px-6 py-3">{t('audit.column.target')}</th>
+                <th className="px-6 py-3">{t('audit.column.details')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(r => (
+                <tr key={r.event.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 text-gray-500 whitespace-nowrap">{formatDateTime(r.event.at)}</td>
+                  <td className="px-6 py-3 font-medium text-gray-900 whitespace-nowrap">{eventLabel(r.event.type)}</td>
+                  <td className="px-6 py-3 text-gray-700">{r.actor}</td>
+                  <td className="px-6 py-3 text-gray-700">{r.target}</td>
+                  <td className="px-6 py-3 font-mono text-xs text-gray-400">{r.details}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+// --- Audit section (admins) ---
+export const AuditLogSection: React.FC = () => {
+  const { getAuditLog } = useAuth();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await getAuditLog());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  return (
+    <>
+      <ActivityCharts events={events} />
+      <AuditTimeline events={events} isLoading={isLoading} onRefresh={load} />
+    </>
+  );
+};
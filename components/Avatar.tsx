@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AvatarImages, User } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { AVATAR_INPUT_TYPES, MAX_AVATAR_INPUT_BYTES } from '../services/avatar';
+import { AvatarCrop, centeredCrop, loadAvatarFile, renderAvatar } from '../services/avatarImage';
+import { Button, Modal } from './UI';
+
+// --- Avatar ---
+// The user's picture, or their initial in the gradient circle when they have none.
+const AVATAR_CLASSES = {
+  sm: { box: 'h-8 w-8 text-xs', pixels: 32 },
+  lg: { box: 'h-24 w-24 text-3xl', pixels: 96 },
+};
+
+export const Avatar: React.FC<{ user: Pick<User, 'name' | 'avatar'>; size?: keyof typeof AVATAR_CLASSES; className?: string }> = ({
+  user,
+  size = 'sm',
+  className = '',
+}) => {
+  const { box, pixels } = AVATAR_CLASSES[size];
+  if (user.avatar) {
+    const { 32: small, 128: medium, 256: large } = user.avatar;
+    return (
+      <img
+        src={pixels <= 32 ? small : medium}
+        srcSet={`${small} 32w, ${medium} 128w, ${large} 256w`}
+        sizes={`${pixels}px`}
+        alt=""
+        className={`flex-shrink-0 rounded-full object-cover bg-gray-100 ${box} ${className}`}
+      />
+    );
+  }
+  return (
+    <div className={`flex-shrink-0 rounded-full bg-gradient-to-br from-indigo-400 to-purple-400 flex items-center justify-center text-white font-bold uppercase ${box} ${className}`}>
+      {user.name.charAt(0)}
+    </div>
+  );
+};
+
+// --- Crop dialog ---
+// Drag (or use the arrow keys) to move the square, the slider to zoom in; the preview is drawn
+// from the same crop that gets rendered, so what you see is what is stored.
+const PREVIEW_PIXELS = 256;
+const MAX_ZOOM = 4;
+const KEY_STEP = 16; // Preview pixels per arrow key press
+
+const clampCrop = (image: HTMLImageElement, { x, y, size }: AvatarCrop): AvatarCrop => ({
+  x: Math.min(Math.max(x, 0), image.naturalWidth - size),
+  y: Math.min(Math.max(y, 0), image.naturalHeight - size),
+  size,
+});
+
+const AvatarCropDialog: React.FC<{
+  image: HTMLImageElement;
+  onApply: (images: AvatarImages) => Promise<void>;
+  onClose: () => void;
+}> = ({ image, onApply, onClose }) => {
+  const { t, describeError } = useI18n();
+  const [crop, setCrop] = useState(() => centeredCrop(image));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; crop: AvatarCrop } | null>(null);
+  const fullSize = Math.min(image.naturalWidth, image.naturalHeight);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.imageSmoothingQuality = 'high';
+    context.clearRect(0, 0, PREVIEW_PIXELS, PREVIEW_PIXELS);
+    context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, PREVIEW_PIXELS, PREVIEW_PIXELS);
+  }, [image, crop]);
+
+  // Moving by preview pixels; the image moves with the pointer, so the crop goes the other way.
+  const moveBy = (from: AvatarCrop, dx: number, dy: number) => {
+    const scale = from.size / PREVIEW_PIXELS;
+    setCrop(clampCrop(image, { ...from, x: from.x - dx * scale, y: from.y - dy * scale }));
+  };
+
+  // Zooms around the center of the current square.
+  const handleZoom = (zoom: number) => {
+    const size = fullSize / zoom;
+    setCrop(current => clampCrop(image, {
+      x: current.x + (current.size - size) / 2,
+      y: current.y + (current.size - size) / 2,
+      size,
+    }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    // The canvas may be drawn smaller than its pixel size on narrow screens.
+    const ratio = PREVIEW_PIXELS / e.currentTarget.getBoundingClientRect().width;
+    moveBy(drag.crop, (e.clientX - drag.pointerX) * ratio, (e.clientY - drag.pointerY) * ratio);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = { ArrowLeft: [KEY_STEP, 0], ArrowRight: [-KEY_STEP, 0], ArrowUp: [0, KEY_STEP], ArrowDown: [0, -KEY_STEP] }[e.key];
+    if (!step) return;
+    e.preventDefault();
+    moveBy(crop, step[0], step[1]);
+  };
+
+  const handleApply = async () => {
+    setError('');
+    setIsSaving(true);
+    try {
+      await onApply(renderAvatar(image, crop));
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal title={t('avatar.cropTitle')} onClose={onClose}>
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500">{t('avatar.cropHint')}</p>
+        <canvas
+          ref={canvasRef}
+          width={PREVIEW_PIXELS}
+          height={PREVIEW_PIXELS}
+          tabIndex={0}
+          aria-label={t('avatar.cropArea')}
+          className="mx-auto block w-64 max-w-full aspect-square rounded-full bg-gray-100 cursor-move touch-none focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          onPointerCancel={() => { dragRef.current = null; }}
+          onKeyDown={handleKeyDown}
+        />
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          {t('avatar.zoom')}
+          <input
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={fullSize / crop.size}
+            onChange={e => handleZoom(Number(e.target.value))}
+            className="flex-1 accent-indigo-600"
+          />
+        </label>
+        {error && <p className="text-red-600 text-sm">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>{t('common.cancel')}</Button>
+          <Button type="button" onClick={handleApply} isLoading={isSaving}>{t('avatar.apply')}</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// --- Avatar picker ---
+// Shared by registration (kept in the form until submit) and the profile (saved right away):
+// `onChange` gets the rendered images, or null for "remove".
+export const AvatarPicker: React.FC<{
+  user: Pick<User, 'name' | 'avatar'>;
+  onChange: (avatar: AvatarImages | null) => Promise<void> | void;
+}> = ({ user, onChange }) => {
+  const { t, describeError } = useI18n();
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should still open the editor
+    if (!file) return;
+    setError('');
+    try {
+      setImage(await loadAvatarFile(file));
+    } catch (err: any) {
+      setError(describeError(err, 'errors.invalid_avatar'));
+    }
+  };
+
+  const handleRemove = async () => {
+    setError('');
+    setIsRemoving(true);
+    try {
+      await onChange(null);
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <Avatar user={user} size="lg" />
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="secondary" className="text-sm py-1" onClick={() => inputRef.current?.click()}>
+            {user.avatar ? t('avatar.change') : t('avatar.choose')}
+          </Button>
+          {user.avatar && (
+            <Button type="button" variant="ghost" className="text-sm py-1" onClick={handleRemove} isLoading={isRemoving}>
+              {t('avatar.remove')}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">{t('avatar.hint', { max: MAX_AVATAR_INPUT_BYTES / (1024 * 1024) })}</p>
+        {error && <p className="text-red-600 text-sm">{error}</p>}
+        <input ref={inputRef} type="file" accept={AVATAR_INPUT_TYPES.join(',')} className="hidden" onChange={handleFile} />
+      </div>
+
+      {image && (
+        <AvatarCropDialog
+          image={image}
+          onApply={async images => {
+            await onChange(images);
+            setImage(null);
+          }}
+          onClose={() => setImage(null)}
+        />
+      )}
+    </div>
+  );
+};
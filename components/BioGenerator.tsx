@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BioOptions } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { streamBioDrafts } from '../services/bioService';
+import { BIO_LANGUAGES, BIO_LENGTHS, BIO_MAX_LENGTH, BIO_PERSONS, BIO_TONES, DEFAULT_BIO_OPTIONS, MAX_BIO_DRAFTS } from '../services/bioOptions';
+import { Button, Input } from './UI';
+
+const OptionSelect = <T extends string>({ label, value, values, labelOf, onChange }: {
+  label: string;
+  value: T;
+  values: readonly T[];
+  labelOf: (value: T) => string;
+  onChange: (value: T) => void;
+}) => (
+  <label className="block text-xs font-medium text-indigo-900">
+    {label}
+    <select
+      className="mt-1 w-full rounded-lg border border-gray-300 focus:ring-indigo-500 focus:border-indigo-500 px-2 py-1 text-sm focus:outline-none focus:ring-1 bg-white"
+      value={value}
+      onChange={e => onChange(e.target.value as T)}
+    >
+      {values.map(v => <option key={v} value={v}>{labelOf(v)}</option>)}
+    </select>
+  </label>
+);
+
+// --- Bio generator ---
+// Streams the first draft straight into the parent's bio field; with several drafts the
+// user then picks one, and the pick replaces the field. Bios are written in the UI's
+// language unless another one is picked.
+export const BioGenerator: React.FC<{ name: string; onBioChange: (bio: string) => void }> = ({ name, onBioChange }) => {
+  const { locale, t, describeError } = useI18n();
+  const [interests, setInterests] = useState('');
+  const [options, setOptions] = useState<BioOptions>(() => ({ ...DEFAULT_BIO_OPTIONS, language: locale }));
+  const [drafts, setDrafts] = useState<string[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  useEffect(() => setOptions(current => ({ ...current, language: locale })), [locale]);
+
+  const setOption = <K extends keyof BioOptions>(key: K) => (value: BioOptions[K]) => setOptions(current => ({ ...current, [key]: value }));
+
+  const generate = async (count: number) => {
+    if (!name || !interests) {
+      setError(t('bio.missingFields'));
+      return;
+    }
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError('');
+    setDrafts([]);
+    setSelected(0);
+    setIsGenerating(true);
+    try {
+      const finished = await streamBioDrafts({ name, interests, options, drafts: count }, texts => {
+        setDrafts(texts);
+        onBioChange(texts[0]);
+      }, controller.signal);
+      setDrafts(finished);
+      onBioChange(finished[0]);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setDrafts([]);
+      setError(describeError(err, 'bio.error'));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const stop = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsGenerating(false);
+  };
+
+  const pick = (index: number) => {
+    setSelected(index);
+    onBioChange(drafts[index]);
+  };
+
+  return (
+    <div className="bg-indigo-50 p-4 rounded-lg border border-indigo-100">
+      <h4 className="font-semibold text-indigo-900 text-sm mb-2 flex items-center">
+        <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20"><path d="M13 6a3 3 0 11-6 0 3 3 0 016 0zM18 8a2 2 0 11-4 0 2 2 0 014 0zM14 15a4 4 0 00-8 0v3h8v-3zM6 8a2 2 0 11-4 0 2 2 0 014 0zM16 18v-3a5.972 5.972 0 00-.75-2.906A3.005 3.005 0 0119 15v3h-3zM4.75 12.094A5.973 5.973 0 004 15v3H1v-3a3 3 0 013.75-2.906z" /></svg>
+        {t('bio.title')}
+      </h4>
+      <p className="text-xs text-indigo-700 mb-3">
+        {t('bio.intro')}
+      </p>
+      <Input
+        label={t('bio.interests')}
+        value={interests}
+        onChange={e => setInterests(e.target.value)}
+        placeholder={t('bio.interestsPlaceholder')}
+      />
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+        <OptionSelect label={t('bio.tone')} value={options.tone} values={BIO_TONES} labelOf={v => t(`bio.tone.${v}` as const)} onChange={setOption('tone')} />
+        <OptionSelect
+          label={t('bio.length', { max: BIO_MAX_LENGTH[options.length] })}
+          value={options.length}
+          values={BIO_LENGTHS}
+          labelOf={v => t(`bio.length.${v}` as const)}
+          onChange={setOption('length')}
+        />
+        <OptionSelect
+          label={t('bio.language')}
+          value={options.language}
+          values={BIO_LANGUAGES}
+          labelOf={v => t(`bio.language.${v}` as const)}
+          onChange={setOption('language')}
+        />
+        <OptionSelect label={t('bio.person')} value={options.person} values={BIO_PERSONS} labelOf={v => t(`bio.person.${v}` as const)} onChange={setOption('person')} />
+      </div>
+      {isGenerating ? (
+        <Button type="button" variant="secondary" className="w-full text-sm py-1" onClick={stop}>
+          {t('bio.stop')}
+        </Button>
+      ) : (
+        <div className="flex gap-2">
+          <Button type="button" variant="secondary" className="flex-1 text-sm py-1" onClick={() => generate(1)} disabled={!interests}>
+            {t('bio.generate')}
+          </Button>
+          <Button type="button" variant="ghost" className="text-sm py-1" onClick={() => generate(MAX_BIO_DRAFTS)} disabled={!interests}>
+            {t('bio.generateDrafts', { count: MAX_BIO_DRAFTS })}
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-red-600 text-xs mt-2">{error}</p>}
+      {drafts.length > 1 && (
+        <div className="mt-3 space-y-2" role="radiogroup" aria-label={t('bio.draftsLabel')}>
+          {drafts.map((draft, i) => (
+            <button
+              key={i}
+              type="button"
+              role="radio"
+              aria-checked={selected === i}
+              disabled={isGenerating}
+              onClick={() => pick(i)}
+              className={`w-full text-left text-xs rounded-lg border p-2 transition-colors ${
+                selected === i ? 'border-indigo-500 bg-white text-gray-900' : 'border-indigo-100 bg-indigo-50 text-gray-600 hover:bg-white'
+              }`}
+            >
+              <span className="font-semibold text-indigo-700 mr-1">{t('bio.draft', { number: i + 1 })}</span>
+              {draft || <span className="italic text-gray-400">{t('bio.writing')}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
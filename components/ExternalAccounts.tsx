@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { OAuthProviderId } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { useRouter, readNext } from '../context/RouterContext';
+import { AuthError, isAuthErrorCode } from '../services/authErrors';
+import { Card, Button, ConfirmDialog } from './UI';
+
+// The API's OAuth callback comes back to /login or /profile with ?oauth_error=<code> when the
+// provider round trip failed; this turns that into the usual localized message.
+export const useProviderError = () => {
+  const { search } = useRouter();
+  const { describeError } = useI18n();
+  const code = new URLSearchParams(search).get('oauth_error');
+  return code ? describeError(new AuthError(isAuthErrorCode(code) ? code : 'oauth_failed')) : '';
+};
+
+// --- Sign-in buttons (Login) ---
+// Only the buttons: LoginView draws the divider above them, shared with the passkey button.
+export const ProviderSignInButtons: React.FC = () => {
+  const { oauthProviders, signInWithProvider } = useAuth();
+  const { search } = useRouter();
+  const { t, describeError } = useI18n();
+  const [pending, setPending] = useState<OAuthProviderId | null>(null);
+  const [error, setError] = useState('');
+
+  if (!oauthProviders.length) return null;
+
+  const handleClick = async (provider: OAuthProviderId) => {
+    setError('');
+    setPending(provider);
+    try {
+      await signInWithProvider(provider, readNext(search, '/dashboard'));
+    } catch (err: any) {
+      setError(describeError(err, 'errors.oauth_failed'));
+      setPending(null);
+    }
+  };
+
+  return (
+    <>
+      {oauthProviders.map(provider => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="secondary"
+          className="w-full"
+          isLoading={pending === provider.id}
+          disabled={pending !== null}
+          onClick={() => handleClick(provider.id)}
+        >
+          {t('login.withProvider', { provider: provider.label })}
+        </Button>
+      ))}
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+    </>
+  );
+};
+
+// --- Linked accounts (Profile) ---
+// Lists every provider the server offers plus any linked one it no longer offers, so old links
+// can still be removed.
+export const LinkedAccountsCard: React.FC = () => {
+  const { user, oauthProviders, linkProvider, unlinkProvider } = useAuth();
+  const { t, describeError, formatDate } = useI18n();
+  const providerError = useProviderError();
+  const [unlinking, setUnlinking] = useState<OAuthProviderId | null>(null);
+  const [error, setError] = useState(providerError);
+
+  const linked = user?.providers ?? [];
+  const rows = [
+    ...oauthProviders,
+    ...linked.filter(l => !oauthProviders.some(p => p.id === l.provider)).map(l => ({ id: l.provider, label: l.provider })),
+  ];
+  if (!rows.length) return null;
+
+  const handleLink = async (provider: OAuthProviderId) => {
+    setError('');
+    try {
+      await linkProvider(provider);
+    } catch (err: any) {
+      setError(describeError(err, 'errors.oauth_failed'));
+    }
+  };
+
+  const labelOf = (provider: OAuthProviderId) => rows.find(row => row.id === provider)?.label ?? provider;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">{t('profile.linkedAccounts')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('profile.linkedAccountsIntro')}</p>
+      <ul className="divide-y divide-gray-100">
+        {rows.map(({ id, label }) => {
+          const link = linked.find(l => l.provider === id);
+          return (
+            <li key={id} className="flex items-center justify-between gap-4 py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{label}</p>
+                <p className="text-xs text-gray-500">
+                  {link ? t('profile.linkedAs', { email: link.email, date: formatDate(link.linkedAt) }) : t('profile.notLinked')}
+                </p>
+              </div>
+              {link ? (
+                <Button variant="ghost" className="text-sm py-1" onClick={() => setUnlinking(id)}>{t('profile.unlink')}</Button>
+              ) : (
+                <Button variant="secondary" className="text-sm py-1" onClick={() => handleLink(id)}>{t('profile.link')}</Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {user && !user.hasPassword && <p className="text-xs text-gray-500 mt-2">{t('profile.noPasswordNotice')}</p>}
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+
+      {unlinking && (
+        <ConfirmDialog
+          title={t('profile.unlinkTitle', { provider: labelOf(unlinking) })}
+          message={t('profile.unlinkMessage')}
+          confirmLabel={t('profile.unlink')}
+          variant="danger"
+          onConfirm={async () => {
+            await unlinkProvider(unlinking);
+            setUnlinking(null);
+          }}
+          onCancel={() => setUnlinking(null)}
+        />
+      )}
+    </Card>
+  );
+};
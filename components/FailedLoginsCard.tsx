@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { FailedLoginAttempt } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { Card, Button } from './UI';
+
+const ATTEMPT_LIMIT = 20;
+
+// --- Recent failed logins (admins) ---
+export const FailedLoginsCard: React.FC = () => {
+  const { getFailedLoginAttempts } = useAuth();
+  const { t, formatDateTime } = useI18n();
+  const [attempts, setAttempts] = useState<FailedLoginAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setAttempts(await getFailedLoginAttempts(ATTEMPT_LIMIT));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">{t('failedLogins.title')}</h3>
+          <p className="text-sm text-gray-500">{t('failedLogins.subtitle', { count: ATTEMPT_LIMIT })}</p>
+        </div>
+        <Button variant="ghost" className="text-sm" onClick={load} isLoading={isLoading}>{t('common.refresh')}</Button>
+      </div>
+      {attempts.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">{t('failedLogins.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {attempts.map((a, i) => (
+            <li key={`${a.at}-${i}`} className="px-6 py-3 flex flex-wrap justify-between gap-2 text-sm">
+              <span className="font-medium text-gray-900">{a.email}</span>
+              <span className="text-gray-500">{t(`failedLogins.reason.${a.reason}` as const)}</span>
+              <span className="font-mono text-xs text-gray-400">{t('failedLogins.client', { id: a.clientId })}</span>
+              <span className="text-gray-500">{formatDateTime(a.at)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,449 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Invitation, InvitationPreview, OrganizationMember, OrganizationRole } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { useRouter, Navigate } from '../context/RouterContext';
+import { ORGANIZATION_ROLES, OrganizationPermission, hasOrganizationPermission } from '../services/permissions';
+import { normalizeEmail } from '../services/storage';
+import { Card, Button, Input, Modal, ConfirmDialog, DataTable, DataTableColumn, DataTableSelectFilter, useUrlTableState } from './UI';
+import { Avatar } from './Avatar';
+
+const NEW_ORGANIZATION = '__new';
+
+const selectClass =
+  'rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+// What the signed-in user may do in the current organization.
+export const useOrganizationAuthorization = () => {
+  const { currentOrganization } = useAuth();
+  const can = useCallback(
+    (permission: OrganizationPermission) => hasOrganizationPermission(currentOrganization, permission),
+    [currentOrganization]
+  );
+  return { role: currentOrganization?.role ?? null, can };
+};
+
+// Looks up an invitation link without accepting it; signed-out visitors can use it too.
+export const useInvitationPreview = (token: string | null) => {
+  const { previewInvitation } = useAuth();
+  const { describeError } = useI18n();
+  const [preview, setPreview] = useState<InvitationPreview | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    previewInvitation(token).then(
+      result => { if (!cancelled) setPreview(result); },
+      err => { if (!cancelled) setError(describeError(err, 'errors.invalid_invitation')); }
+    );
+    return () => { cancelled = true; };
+  }, [token]);
+
+  return { preview, error };
+};
+
+// --- Create dialog ---
+const CreateOrganizationForm: React.FC<{ onDone?: () => void; onCancel?: () => void }> = ({ onDone, onCancel }) => {
+  const { createOrganization } = useAuth();
+  const { t, describeError } = useI18n();
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+    try {
+      await createOrganization(name);
+      onDone?.();
+    } catch (err: any) {
+      setError(describeError(err, 'organizations.createError'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Input
+        label={t('organizations.name')}
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder={t('organizations.namePlaceholder')}
+        maxLength={80}
+        required
+        autoFocus
+      />
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <div className="flex justify-end gap-3">
+        {onCancel && <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>{t('common.cancel')}</Button>}
+        <Button type="submit" isLoading={isSaving}>{t('organizations.create')}</Button>
+      </div>
+    </form>
+  );
+};
+
+// --- Switcher (Layout) ---
+export const OrganizationSwitcher: React.FC = () => {
+  const { user, isAuthenticated, organizations, currentOrganization, switchOrganization } = useAuth();
+  const { t } = useI18n();
+  const [isCreating, setIsCreating] = useState(false);
+  if (!isAuthenticated || user?.mustChangePassword) return null;
+
+  return (
+    <>
+      <select
+        aria-label={t('organizations.switcherLabel')}
+        className={`${selectClass} max-w-[12rem] truncate`}
+        value={currentOrganization?.id ?? ''}
+        onChange={e => (e.target.value === NEW_ORGANIZATION ? setIsCreating(true) : switchOrganization(e.target.value))}
+      >
+        {!currentOrganization && <option value="" disabled>{t('organizations.none')}</option>}
+        {organizations.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+        <option value={NEW_ORGANIZATION}>{t('organizations.new')}</option>
+      </select>
+      {isCreating && (
+        <Modal title={t('organizations.createTitle')} onClose={() => setIsCreating(false)}>
+          <CreateOrganizationForm onDone={() => setIsCreating(false)} onCancel={() => setIsCreating(false)} />
+        </Modal>
+      )}
+    </>
+  );
+};
+
+// --- No organization yet (Dashboard) ---
+export const NoOrganizationCard: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { t } = useI18n();
+  return (
+    <Card className={`p-6 ${className}`}>
+      <h3 className="text-lg font-bold text-gray-900 mb-1">{t('organizations.noneTitle')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('organizations.noneMessage')}</p>
+      <CreateOrganizationForm />
+    </Card>
+  );
+};
+
+// --- Member actions ---
+type PendingMemberAction = { kind: 'role'; role: OrganizationRole } | { kind: 'remove' };
+
+const MemberRowActions: React.FC<{ member: OrganizationMember }> = ({ member }) => {
+  const { user, currentOrganization, setMemberRole, removeMember } = useAuth();
+  const { can } = useOrganizationAuthorization();
+  const { t, richText } = useI18n();
+  const [pending, setPending] = useState<PendingMemberAction | null>(null);
+  const close = () => setPending(null);
+
+  const isSelf = member.user.id === user?.id;
+  // Owners are only touched by owners, and only owners hand out ownership.
+  const canManage = can('members:manage') && (member.role !== 'owner' || can('owners:manage'));
+  const roles = ORGANIZATION_ROLES.filter(role => role !== 'owner' || can('owners:manage'));
+  const organization = <strong>{currentOrganization?.name}</strong>;
+  const linkClass = 'text-xs font-medium hover:underline';
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+      {canManage && (
+        <select
+          aria-label={t('dashboard.column.role')}
+          className={`${selectClass} text-xs`}
+          value={member.role}
+          onChange={e => setPending({ kind: 'role', role: e.target.value as OrganizationRole })}
+        >
+          {roles.map(role => <option key={role} value={role}>{t(`organizations.role.${role}` as const)}</option>)}
+        </select>
+      )}
+      {(isSelf || canManage) && (
+        <button type="button" className={`${linkClass} text-red-600`} onClick={() => setPending({ kind: 'remove' })}>
+          {isSelf ? t('organizations.leave') : t('organizations.remove')}
+        </button>
+      )}
+
+      {pending?.kind === 'role' && (
+        <ConfirmDialog
+          title={t('organizations.roleTitle')}
+          message={richText('organizations.roleMessage', {
+            name: <strong>{member.user.name}</strong>,
+            role: <strong>{t(`organizations.role.${pending.role}` as const)}</strong>,
+          })}
+          confirmLabel={t('common.confirm')}
+          onConfirm={async () => { await setMemberRole(member.user.id, pending.role); close(); }}
+          onCancel={close}
+        />
+      )}
+
+      {pending?.kind === 'remove' && (
+        <ConfirmDialog
+          title={isSelf ? t('organizations.leaveTitle') : t('organizations.removeTitle')}
+          message={isSelf
+            ? richText('organizations.leaveMessage', { organization })
+            : richText('organizations.removeMessage', { name: <strong>{member.user.name}</strong>, organization })}
+          confirmLabel={isSelf ? t('organizations.leave') : t('organizations.remove')}
+          variant="danger"
+          onConfirm={async () => { await removeMember(member.user.id); close(); }}
+          onCancel={close}
+        />
+      )}
+    </div>
+  );
+};
+
+// --- Member directory (Dashboard) ---
+// The current organization's members; the table state lives in the URL like the user directory.
+const MEMBER_TABLE_FILTERS = ['role'] as const;
+
+export const OrganizationDirectory: React.FC<{ className?: string; action?: React.ReactNode }> = ({ className = '', action }) => {
+  const { user, members, currentOrganization } = useAuth();
+  const { t, formatDate } = useI18n();
+  const [tableState, setTableState] = useUrlTableState(MEMBER_TABLE_FILTERS);
+  if (!currentOrganization) return null;
+
+  const filters: DataTableSelectFilter<OrganizationMember>[] = [
+    {
+      key: 'role',
+      label: t('dashboard.column.role'),
+      options: ORGANIZATION_ROLES.map(role => ({ value: role, label: t(`organizations.role.${role}` as const) })),
+      matches: (m, role) => m.role === role,
+    },
+  ];
+
+  const columns: DataTableColumn<OrganizationMember>[] = [
+    {
+      key: 'name',
+      header: t('common.name'),
+      sortValue: m => m.user.name,
+      render: m => (
+        <div className="flex items-center">
+          <Avatar user={m.user} />
+          <div className="ml-4">
+            <div className="text-sm font-medium text-gray-900">{m.user.name}</div>
+            {m.user.id === user?.id && <span className="text-xs text-indigo-600 font-semibold">{t('dashboard.you')}</span>}
+            {m.user.deletionScheduledAt && (
+              <span className="text-xs text-red-600 font-semibold">
+                {t('organizations.deletionPending', { date: formatDate(m.user.deletionScheduledAt, { day: '2-digit', month: '2-digit', year: 'numeric' }) })}
+              </span>
+            )}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'email',
+      header: t('common.email'),
+      sortValue: m => m.user.email,
+      render: m => m.user.email,
+    },
+    {
+      key: 'role',
+      header: t('dashboard.column.role'),
+      sortValue: m => ORGANIZATION_ROLES.indexOf(m.role),
+      className: 'px-6 py-4 whitespace-nowrap',
+      render: m => (
+        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${m.role === 'member' ? 'bg-gray-100 text-gray-700' : 'bg-violet-100 text-violet-800'}`}>
+          {t(`organizations.role.${m.role}` as const)}
+        </span>
+      ),
+    },
+    {
+      key: 'joinedAt',
+      header: t('organizations.column.joined'),
+      sortValue: m => m.joinedAt,
+      render: m => formatDate(m.joinedAt, { day: '2-digit', month: '2-digit', year: 'numeric' }),
+    },
+    {
+      key: 'actions',
+      header: t('dashboard.column.actions'),
+      className: 'px-6 py-4 text-sm',
+      render: m => <MemberRowActions member={m} />,
+    },
+  ];
+
+  return (
+    <Card className={`flex flex-col ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">{t('organizations.membersTitle', { name: currentOrganization.name })}</h3>
+          <p className="text-sm text-gray-500">
+            {t('organizations.summary', { count: members.length, role: t(`organizations.role.${currentOrganization.role}` as const) })}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">{action}</div>
+      </div>
+      <DataTable
+        rows={members}
+        columns={columns}
+        rowKey={m => m.user.id}
+        state={tableState}
+        onStateChange={setTableState}
+        searchText={m => `${m.user.name} ${m.user.email}`}
+        selectFilters={filters}
+        rowClassName={m => (m.user.id === user?.id ? 'bg-indigo-50/60' : 'hover:bg-gray-50')}
+      />
+    </Card>
+  );
+};
+
+// --- Invitations (Dashboard) ---
+// Pending invitations of the current organization, for those who may manage members.
+export const InvitationsCard: React.FC = () => {
+  const { currentOrganization, getInvitations, inviteMember, revokeInvitation } = useAuth();
+  const { can } = useOrganizationAuthorization();
+  const { t, describeError, formatDate } = useI18n();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('member');
+  const [isSending, setIsSending] = useState(false);
+  const [revoking, setRevoking] = useState<Invitation | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const canManage = can('members:manage');
+  const organizationId = currentOrganization?.id;
+
+  const load = useCallback(() => {
+    getInvitations().then(setInvitations, (err: any) => setError(describeError(err, 'common.operationFailed')));
+  }, [organizationId]);
+
+  useEffect(() => {
+    setInvitations([]);
+    setError('');
+    setSuccess('');
+    if (canManage) load();
+  }, [load, canManage]);
+
+  if (!currentOrganization || !canManage) return null;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setIsSending(true);
+    try {
+      await inviteMember(email, role);
+      setSuccess(t('organizations.invited', { email }));
+      setEmail('');
+      load();
+    } catch (err: any) {
+      setError(describeError(err, 'organizations.inviteError'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">{t('organizations.invitationsTitle')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('organizations.invitationsIntro')}</p>
+      <form onSubmit={handleInvite} className="flex flex-col sm:flex-row sm:items-end gap-3 mb-4">
+        <Input
+          label={t('common.email')}
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          className="flex-grow mb-0"
+          required
+        />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('dashboard.column.role')}</label>
+          <select className={`${selectClass} py-2`} value={role} onChange={e => setRole(e.target.value as OrganizationRole)}>
+            {ORGANIZATION_ROLES.filter(r => r !== 'owner' || can('owners:manage')).map(r => (
+              <option key={r} value={r}>{t(`organizations.role.${r}` as const)}</option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" isLoading={isSending}>{t('organizations.invite')}</Button>
+      </form>
+      {error && <p className="text-red-600 text-sm mb-2">{error}</p>}
+      {success && <p className="text-green-700 text-sm mb-2">{success}</p>}
+      {invitations.length ? (
+        <ul className="divide-y divide-gray-100">
+          {invitations.map(invitation => (
+            <li key={invitation.id} className="flex items-center justify-between gap-4 py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{invitation.email}</p>
+                <p className="text-xs text-gray-500">
+                  {t(`organizations.role.${invitation.role}` as const)} · {t('organizations.invitationExpires', { date: formatDate(invitation.expiresAt) })}
+                </p>
+              </div>
+              <Button variant="ghost" className="text-sm py-1" onClick={() => setRevoking(invitation)}>{t('organizations.revoke')}</Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">{t('organizations.noInvitations')}</p>
+      )}
+
+      {revoking && (
+        <ConfirmDialog
+          title={t('organizations.revokeTitle')}
+          message={t('organizations.revokeMessage', { email: revoking.email })}
+          confirmLabel={t('organizations.revoke')}
+          variant="danger"
+          onConfirm={async () => {
+            await revokeInvitation(revoking.id);
+            setRevoking(null);
+            load();
+          }}
+          onCancel={() => setRevoking(null)}
+        />
+      )}
+    </Card>
+  );
+};
+
+// --- View: Invitation ---
+// Where invitation emails to existing accounts lead (/invitation?token=...), behind sign-in.
+export const InvitationView: React.FC = () => {
+  const { user, acceptInvitation } = useAuth();
+  const { search, navigate } = useRouter();
+  const { t, richText, describeError, formatDate } = useI18n();
+  const token = new URLSearchParams(search).get('token');
+  const { preview, error: previewError } = useInvitationPreview(token);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState('');
+  const isOtherEmail = !!preview && normalizeEmail(preview.email) !== normalizeEmail(user?.email ?? '');
+
+  if (!token) return <Navigate to="/dashboard" />;
+
+  const handleAccept = async () => {
+    setError('');
+    setIsAccepting(true);
+    try {
+      await acceptInvitation(token);
+      navigate('/dashboard', { replace: true });
+    } catch (err: any) {
+      setError(describeError(err, 'invitation.error'));
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh] px-4">
+      <Card className="w-full max-w-md p-8 space-y-4">
+        <h2 className="text-2xl font-bold text-gray-900 text-center">{t('invitation.title')}</h2>
+        {previewError ? (
+          <p className="text-red-600 text-sm text-center">{previewError}</p>
+        ) : !preview ? (
+          <p className="text-gray-500 text-sm text-center">{t('invitation.loading')}</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {richText('invitation.message', {
+                organization: <strong>{preview.organizationName}</strong>,
+                role: <strong>{t(`organizations.role.${preview.role}` as const)}</strong>,
+              })}
+            </p>
+            <p className="text-xs text-gray-500">
+              {t('invitation.details', { email: preview.email, date: formatDate(preview.expiresAt) })}
+            </p>
+            {isOtherEmail && <p className="text-amber-600 text-sm">{t('errors.invitation_email_mismatch')}</p>}
+            {error && <p className="text-red-600 text-sm">{error}</p>}
+            <div className="flex justify-end gap-3">
+              <Button variant="ghost" onClick={() => navigate('/dashboard')} disabled={isAccepting}>{t('invitation.decline')}</Button>
+              <Button onClick={handleAccept} isLoading={isAccepting} disabled={isOtherEmail}>{t('invitation.accept')}</Button>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
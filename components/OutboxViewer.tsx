@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { MailMessage, Outbox } from '../services/mail';
+import { useI18n } from '../context/I18nContext';
+import { Card, Button } from './UI';
+
+// --- Dev mail outbox ---
+// Floating viewer for messages "sent" through the local outbox transport.
+export const OutboxViewer: React.FC<{ outbox: Outbox }> = ({ outbox }) => {
+  const { t, formatTime } = useI18n();
+  const [messages, setMessages] = useState<MailMessage[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const load = () => { outbox.list().then(setMessages); };
+    load();
+    window.addEventListener('storage', load); // Messages sent from other tabs
+    const unsubscribe = outbox.subscribe(load);
+    return () => {
+      window.removeEventListener('storage', load);
+      unsubscribe();
+    };
+  }, [outbox]);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end">
+      {isOpen && (
+        <Card className="w-96 max-w-[calc(100vw-2rem)] mb-3 flex flex-col max-h-[70vh]">
+          <div className="px-4 py-3 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+            <div>
+              <h3 className="font-bold text-gray-900">{t('outbox.title')}</h3>
+              <p className="text-xs text-gray-500">{t('outbox.subtitle')}</p>
+            </div>
+            <button type="button" className="text-xs text-gray-500 hover:text-red-600" onClick={() => outbox.clear()}>{t('outbox.clear')}</button>
+          </div>
+          <div className="overflow-y-auto divide-y divide-gray-100">
+            {messages.length === 0 && <p className="p-4 text-sm text-gray-500">{t('outbox.empty')}</p>}
+            {messages.map(m => (
+              <div key={m.id} className="p-4 space-y-1">
+                <div className="flex justify-between gap-2">
+                  <p className="text-sm font-semibold text-gray-900">{m.subject}</p>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">{formatTime(m.sentAt)}</span>
+                </div>
+                <p className="text-xs text-gray-500">{t('outbox.to', { to: m.to })}</p>
+                <p className="text-sm text-gray-700">{m.body}</p>
+                {m.link && (
+                  <a href={m.link} className="inline-block mt-1 text-sm font-medium text-indigo-600 hover:text-indigo-500 break-all">
+                    {t('outbox.openLink')}
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+      <Button variant="secondary" className="shadow-lg" onClick={() => setIsOpen(open => !open)}>
+        📬 {t('outbox.button')}{messages.length > 0 && <span className="ml-2 px-2 rounded-full bg-indigo-600 text-white text-xs">{messages.length}</span>}
+      </Button>
+    </div>
+  );
+};
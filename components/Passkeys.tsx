@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Passkey } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { isPasskeySupported } from '../services/passkeyBrowser';
+import { Card, Button, Input, Modal, ConfirmDialog } from './UI';
+
+// --- Rename dialog ---
+const RenamePasskeyDialog: React.FC<{ passkey: Passkey; onClose: () => void }> = ({ passkey, onClose }) => {
+  const { renamePasskey } = useAuth();
+  const { t, describeError } = useI18n();
+  const [name, setName] = useState(passkey.name);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+    try {
+      await renamePasskey(passkey.id, name);
+      onClose();
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal title={t('profile.renamePasskey')} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input label={t('common.name')} value={name} onChange={e => setName(e.target.value)} maxLength={64} required autoFocus />
+        {error && <p className="text-red-600 text-sm">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>{t('common.cancel')}</Button>
+          <Button type="submit" isLoading={isSaving}>{t('common.save')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+// --- Passkeys (Profile) ---
+// Registering opens the browser's own prompt; the name is only a label for this list.
+export const PasskeysCard: React.FC = () => {
+  const { user, registerPasskey, removePasskey } = useAuth();
+  const { t, describeError, formatDate } = useI18n();
+  const [name, setName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [renaming, setRenaming] = useState<Passkey | null>(null);
+  const [removing, setRemoving] = useState<Passkey | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const supported = isPasskeySupported();
+  const passkeys = user?.passkeys ?? [];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setIsAdding(true);
+    try {
+      await registerPasskey(name);
+      setName('');
+      setSuccess(t('profile.passkeyAdded'));
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">{t('profile.passkeys')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('profile.passkeysIntro')}</p>
+      {passkeys.length ? (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {passkeys.map(passkey => (
+            <li key={passkey.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{passkey.name}</p>
+                <p className="text-xs text-gray-500">
+                  {t('profile.passkeyCreated', { date: formatDate(passkey.createdAt) })}
+                  {' · '}
+                  {passkey.lastUsedAt ? t('profile.passkeyLastUsed', { date: formatDate(passkey.lastUsedAt) }) : t('profile.passkeyNeverUsed')}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="ghost" className="text-sm py-1" onClick={() => setRenaming(passkey)}>{t('profile.rename')}</Button>
+                <Button variant="ghost" className="text-sm py-1 text-red-600" onClick={() => setRemoving(passkey)}>{t('profile.remove')}</Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">{t('profile.noPasskeys')}</p>
+      )}
+
+      {supported ? (
+        <form onSubmit={handleAdd} className="space-y-4">
+          <Input
+            label={t('profile.passkeyName')}
+            placeholder={t('profile.passkeyNamePlaceholder')}
+            value={name}
+            onChange={e => setName(e.target.value)}
+            maxLength={64}
+          />
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          {success && <p className="text-green-700 text-sm">{success}</p>}
+          <Button type="submit" variant="secondary" isLoading={isAdding}>{t('profile.addPasskey')}</Button>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500">{t('errors.passkey_unsupported')}</p>
+      )}
+
+      {renaming && <RenamePasskeyDialog passkey={renaming} onClose={() => setRenaming(null)} />}
+      {removing && (
+        <ConfirmDialog
+          title={t('profile.removePasskeyTitle', { name: removing.name })}
+          message={t('profile.removePasskeyMessage')}
+          confirmLabel={t('profile.remove')}
+          variant="danger"
+          onConfirm={async () => {
+            await removePasskey(removing.id);
+            setRemoving(null);
+          }}
+          onCancel={() => setRemoving(null)}
+        />
+      )}
+    </Card>
+  );
+};
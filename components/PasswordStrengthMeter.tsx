@@ -0,0 +1,42 @@
+import React from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { PasswordContext, evaluatePassword, estimatePasswordStrength } from '../services/passwordPolicy';
+
+// Evaluates a password against the provider's policy, for gating submit buttons.
+export const usePasswordRules = (password: string, context: PasswordContext = {}) => {
+  const { passwordPolicy } = useAuth();
+  const rules = evaluatePassword(password, passwordPolicy, context);
+  return { rules, isValid: rules.every(rule => rule.passed), strength: estimatePasswordStrength(password) };
+};
+
+const STRENGTH_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-green-500', 'bg-emerald-600'];
+
+// --- Password Strength Meter ---
+// Rendered right under a password Input: strength bar plus one line per policy rule.
+export const PasswordStrengthMeter: React.FC<{ password: string; context?: PasswordContext }> = ({ password, context }) => {
+  const { passwordPolicy } = useAuth();
+  const { t } = useI18n();
+  const { rules, strength } = usePasswordRules(password, context);
+  if (!password) return null;
+
+  return (
+    <div className="-mt-2 mb-4 space-y-2" aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[0, 1, 2, 3, 4].map(i => (
+            <div key={i} className={`h-1.5 flex-1 rounded-full ${i <= strength ? STRENGTH_COLORS[strength] : 'bg-gray-200'}`} />
+          ))}
+        </div>
+        <span className="text-xs font-medium text-gray-600 w-20 text-right">{t(`password.strength.${strength}` as const)}</span>
+      </div>
+      <ul className="space-y-0.5">
+        {rules.map(rule => (
+          <li key={rule.id} className={`text-xs ${rule.passed ? 'text-green-700' : 'text-gray-500'}`}>
+            {rule.passed ? '✓' : '○'} {t(`password.rule.${rule.id}` as const, { min: passwordPolicy.minLength })}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { downloadTextFile } from '../services/csv';
+import { Card, Button, Input, Modal } from './UI';
+
+// --- Delete account dialog ---
+// Accounts without a password (provider or passkey only) confirm by typing their email instead.
+const DeleteAccountDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { user, requestAccountDeletion } = useAuth();
+  const { t, describeError } = useI18n();
+  const [confirmation, setConfirmation] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+  const hasPassword = !!user?.hasPassword;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsDeleting(true);
+    try {
+      // Signs out on success, which unmounts this dialog along with the profile.
+      await requestAccountDeletion(confirmation);
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Modal title={t('privacy.deleteTitle')} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600">{t('privacy.deleteMessage')}</p>
+        <Input
+          label={hasPassword ? t('privacy.confirmPassword') : t('privacy.confirmEmail', { email: user?.email ?? '' })}
+          type={hasPassword ? 'password' : 'email'}
+          value={confirmation}
+          onChange={e => setConfirmation(e.target.value)}
+          required
+          autoFocus
+        />
+        {error && <p className="text-red-600 text-sm">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isDeleting}>{t('common.cancel')}</Button>
+          <Button type="submit" variant="danger" isLoading={isDeleting}>{t('privacy.delete')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+// --- Your data (Profile) ---
+export const PersonalDataCard: React.FC = () => {
+  const { exportPersonalData } = useAuth();
+  const { t, describeError } = useI18n();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleExport = async () => {
+    setError('');
+    setIsExporting(true);
+    try {
+      const data = await exportPersonalData();
+      downloadTextFile(`meus-dados-${data.exportedAt.slice(0, 10)}.json`, JSON.stringify(data, null, 2), 'application/json;charset=utf-8');
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">{t('privacy.title')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('privacy.exportIntro')}</p>
+      <Button variant="secondary" onClick={handleExport} isLoading={isExporting}>{t('privacy.export')}</Button>
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+
+      <div className="border-t border-gray-100 mt-6 pt-4">
+        <h4 className="text-sm font-semibold text-red-700 mb-1">{t('privacy.deleteTitle')}</h4>
+        <p className="text-sm text-gray-500 mb-4">{t('privacy.deleteIntro')}</p>
+        <Button variant="danger" onClick={() => setIsDeleting(true)}>{t('privacy.delete')}</Button>
+      </div>
+
+      {isDeleting && <DeleteAccountDialog onClose={() => setIsDeleting(false)} />}
+    </Card>
+  );
+};
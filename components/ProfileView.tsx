@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { Card, Button, Input } from './UI';
+import { PasswordStrengthMeter, usePasswordRules } from './PasswordStrengthMeter';
+import { BioGenerator } from './BioGenerator';
+import { LinkedAccountsCard } from './ExternalAccounts';
+import { PasskeysCard } from './Passkeys';
+import { PersonalDataCard } from './PersonalData';
+import { AvatarPicker } from './Avatar';
+
+const Feedback: React.FC<{ error: string; success: string }> = ({ error, success }) => (
+  <>
+    {error && <p className="text-red-600 text-sm">{error}</p>}
+    {success && <p className="text-green-700 text-sm">{success}</p>}
+  </>
+);
+
+// --- Profile: picture ---
+// Saved as soon as the crop is applied or the picture removed.
+const AvatarCard: React.FC = () => {
+  const { user, updateAvatar } = useAuth();
+  const { t } = useI18n();
+  const [success, setSuccess] = useState('');
+
+  if (!user) return null;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-1">{t('avatar.title')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('avatar.intro')}</p>
+      <AvatarPicker
+        user={user}
+        onChange={async avatar => {
+          setSuccess('');
+          await updateAvatar(avatar);
+          setSuccess(t(avatar ? 'avatar.saved' : 'avatar.removed'));
+        }}
+      />
+      {success && <p className="text-green-700 text-sm mt-2">{success}</p>}
+    </Card>
+  );
+};
+
+// --- Profile: name & bio ---
+const ProfileDetailsCard: React.FC = () => {
+  const { user, updateProfile } = useAuth();
+  const { t, describeError } = useI18n();
+  const [name, setName] = useState(user?.name ?? '');
+  const [bio, setBio] = useState(user?.bio ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setIsSaving(true);
+    try {
+      await updateProfile({ name, bio });
+      setSuccess(t('profile.saved'));
+    } catch (err: any) {
+      setError(describeError(err, 'profile.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">{t('profile.details')}</h3>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input label={t('common.fullName')} value={name} onChange={e => setName(e.target.value)} required />
+        <BioGenerator name={name} onBioChange={setBio} />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.yourBio')}</label>
+          <textarea
+            className="w-full rounded-lg border border-gray-300 p-3 focus:ring-indigo-500 focus:border-indigo-500 h-24"
+            value={bio}
+            onChange={e => setBio(e.target.value)}
+          />
+        </div>
+        <Feedback error={error} success={success} />
+        <Button type="submit" isLoading={isSaving}>{t('profile.save')}</Button>
+      </form>
+    </Card>
+  );
+};
+
+// --- Profile: email ---
+const EmailCard: React.FC = () => {
+  const { user, updateProfile } = useAuth();
+  const { t, describeError } = useI18n();
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setIsSaving(true);
+    try {
+      await updateProfile({ email });
+      setSuccess(t('profile.emailSaved'));
+    } catch (err: any) {
+      setError(describeError(err, 'profile.emailError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">{t('common.email')}</h3>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input label={t('common.email')} type="email" value={email} onChange={e => setEmail(e.target.value)} required />
+        <Feedback error={error} success={success} />
+        <Button type="submit" isLoading={isSaving} disabled={email === user?.email}>{t('profile.changeEmail')}</Button>
+      </form>
+    </Card>
+  );
+};
+
+// --- Profile: password ---
+const PasswordCard: React.FC = () => {
+  const { user, changePassword } = useAuth();
+  const { t, describeError } = useI18n();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const { isValid } = usePasswordRules(newPassword, user ?? {});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSuccess('');
+    if (!isValid) {
+      setError(t('profile.newPasswordRequirements'));
+      return;
+    }
+    if (newPassword !== confirmation) {
+      setError(t('common.passwordMismatch'));
+      return;
+    }
+    setError('');
+    setIsSaving(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmation('');
+      setSuccess(t('profile.passwordSaved'));
+    } catch (err: any) {
+      setError(describeError(err, 'profile.passwordError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">{t('common.password')}</h3>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input label={t('profile.currentPassword')} type="password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} required />
+        <Input label={t('common.newPassword')} type="password" value={newPassword} onChange={e => setNewPassword(e.target.value)} required />
+        <PasswordStrengthMeter password={newPassword} context={user ?? {}} />
+        <Input label={t('profile.confirmNewPassword')} type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} required />
+        <Feedback error={error} success={success} />
+        <Button type="submit" isLoading={isSaving}>{t('profile.changePassword')}</Button>
+      </form>
+    </Card>
+  );
+};
+
+// --- View: Profile ---
+export const ProfileView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const { t } = useI18n();
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6 animate-fadeIn">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">{t('profile.title')}</h1>
+        <Button variant="ghost" onClick={onBack}>{t('profile.back')}</Button>
+      </div>
+      <AvatarCard />
+      <ProfileDetailsCard />
+      <EmailCard />
+      <PasswordCard />
+      <PasskeysCard />
+      <LinkedAccountsCard />
+      <PersonalDataCard />
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ActiveSession } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { Card, Button, ConfirmDialog } from './UI';
+
+// --- View: Active sessions ---
+// Every browser signed in to this account. Revoking one ends it at its next check (a refresh,
+// or coming back to the tab); revoking this one is the same as signing out.
+export const SessionsView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const { getSessions, revokeSession, revokeOtherSessions } = useAuth();
+  const { t, describeError, formatDate } = useI18n();
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [revoking, setRevoking] = useState<ActiveSession | null>(null);
+  const [confirmOthers, setConfirmOthers] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const load = useCallback(() => {
+    getSessions().then(setSessions, (err: any) => setError(describeError(err, 'common.operationFailed')));
+  }, [getSessions]);
+
+  useEffect(load, [load]);
+
+  const others = sessions?.filter(s => !s.current) ?? [];
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6 animate-fadeIn">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">{t('sessions.title')}</h1>
+        <Button variant="ghost" onClick={onBack}>{t('profile.back')}</Button>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-4">
+          <p className="text-sm text-gray-500">{t('sessions.intro')}</p>
+          <Button variant="secondary" className="text-sm py-1 flex-shrink-0" disabled={!others.length} onClick={() => setConfirmOthers(true)}>
+            {t('sessions.signOutOthers')}
+          </Button>
+        </div>
+        {error && <p className="text-red-600 text-sm mb-2">{error}</p>}
+        {success && <p className="text-green-700 text-sm mb-2">{success}</p>}
+        {!sessions ? (
+          <p className="text-sm text-gray-500">{t('app.loading')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {session.device || t('sessions.unknownDevice')}
+                    {session.current && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">{t('sessions.thisDevice')}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {t('sessions.activity', { started: formatDate(session.createdAt), seen: formatDate(session.lastSeenAt) })}
+                  </p>
+                  {session.userAgent && <p className="text-xs text-gray-400 truncate" title={session.userAgent}>{session.userAgent}</p>}
+                </div>
+                <Button variant="ghost" className="text-sm py-1 flex-shrink-0" onClick={() => setRevoking(session)}>
+                  {session.current ? t('common.signOut') : t('sessions.revoke')}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      {revoking && (
+        <ConfirmDialog
+          title={revoking.current ? t('common.signOut') : t('sessions.revokeTitle')}
+          message={revoking.current ? t('sessions.revokeCurrentMessage') : t('sessions.revokeMessage', { device: revoking.device || t('sessions.unknownDevice') })}
+          confirmLabel={revoking.current ? t('common.signOut') : t('sessions.revoke')}
+          variant="danger"
+          onConfirm={async () => {
+            await revokeSession(revoking.id);
+            setRevoking(null);
+            setSuccess('');
+            if (!revoking.current) load();
+          }}
+          onCancel={() => setRevoking(null)}
+        />
+      )}
+
+      {confirmOthers && (
+        <ConfirmDialog
+          title={t('sessions.signOutOthers')}
+          message={t('sessions.signOutOthersMessage', { count: others.length })}
+          confirmLabel={t('sessions.signOutOthers')}
+          variant="danger"
+          onConfirm={async () => {
+            const revoked = await revokeOtherSessions();
+            setConfirmOthers(false);
+            setSuccess(t('sessions.othersRevoked', { count: revoked }));
+            load();
+          }}
+          onCancel={() => setConfirmOthers(false)}
+        />
+      )}
+    </div>
+  );
+};
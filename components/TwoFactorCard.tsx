@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { TwoFactorEnrollment } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { encodeQrCode } from '../services/qrCode';
+import { Card, Button, Input } from './UI';
+
+// --- QR Code (SVG) ---
+export const QrCodeImage: React.FC<{ value: string; size?: number }> = ({ value, size = 192 }) => {
+  const modules = useMemo(() => encodeQrCode(value), [value]);
+  const quietZone = 4;
+  const dimension = modules.length + quietZone * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + quietZone},${y + quietZone}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`} shapeRendering="crispEdges" role="img" aria-label="QR Code">
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#111827" />
+    </svg>
+  );
+};
+
+const RecoveryCodesList: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {t('twoFactor.recoveryIntro')}
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-100 p-3 rounded select-all">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <Button onClick={onDone}>{t('twoFactor.done')}</Button>
+    </div>
+  );
+};
+
+// --- Two-factor settings (Dashboard) ---
+export const TwoFactorCard: React.FC = () => {
+  const { user, beginTwoFactorEnrollment, confirmTwoFactorEnrollment, disableTwoFactor } = useAuth();
+  const { t, describeError } = useI18n();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setEnrollment(await beginTwoFactorEnrollment());
+  });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setRecoveryCodes(await confirmTwoFactorEnrollment(code));
+      setEnrollment(null);
+      setCode('');
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await disableTwoFactor(confirmation);
+      setConfirmation('');
+      setIsDisabling(false);
+    });
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">{t('twoFactor.title')}</h3>
+          <p className="text-sm text-gray-500">{t('twoFactor.subtitle')}</p>
+        </div>
+        {user?.twoFactorEnabled ? (
+          <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">{t('twoFactor.enabled')}</span>
+        ) : (
+          <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-600">{t('twoFactor.disabled')}</span>
+        )}
+      </div>
+
+      {recoveryCodes ? (
+        <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+      ) : enrollment ? (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-gray-600">{t('twoFactor.scan')}</p>
+          <div className="flex justify-center">
+            <QrCodeImage value={enrollment.otpauthUri} />
+          </div>
+          <p className="text-xs text-gray-500 text-center">
+            {t('twoFactor.manualKey')} <span className="font-mono break-all select-all">{enrollment.secret}</span>
+          </p>
+          <Input label={t('common.verificationCode')} inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={code} onChange={e => setCode(e.target.value)} placeholder="123456" required />
+          <div className="flex gap-3">
+            <Button type="button" variant="ghost" onClick={() => setEnrollment(null)}>{t('common.cancel')}</Button>
+            <Button type="submit" isLoading={isWorking}>{t('twoFactor.activate')}</Button>
+          </div>
+        </form>
+      ) : user?.twoFactorEnabled ? (
+        isDisabling ? (
+          <form onSubmit={handleDisable} className="space-y-4">
+            {/* Accounts without a password confirm with a code instead */}
+            {user.hasPassword ? (
+              <Input label={t('twoFactor.confirmPassword')} type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} required />
+            ) : (
+              <Input label={t('twoFactor.confirmCode')} autoComplete="one-time-code" value={confirmation} onChange={e => setConfirmation(e.target.value)} placeholder="123456" required />
+            )}
+            <div className="flex gap-3">
+              <Button type="button" variant="ghost" onClick={() => setIsDisabling(false)}>{t('common.cancel')}</Button>
+              <Button type="submit" variant="danger" isLoading={isWorking}>{t('twoFactor.confirmDisable')}</Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="secondary" onClick={() => setIsDisabling(true)}>{t('twoFactor.disable')}</Button>
+        )
+      ) : (
+        <Button onClick={handleStart} isLoading={isWorking}>{t('twoFactor.setup')}</Button>
+      )}
+
+      {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+    </Card>
+  );
+};
@@ -1,4 +1,8 @@
 import React from 'react';
+import { Locale } from '../types';
+import { useI18n } from '../context/I18nContext';
+import { useRouter } from '../context/RouterContext';
+import { LOCALES, LOCALE_NAMES } from '../i18n';
 
 // --- Card Component ---
 export const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
@@ -21,6 +25,7 @@ export const Button: React.FC<ButtonProps> = ({
   disabled, 
   ...props 
 }) => {
+  const { t } = useI18n();
   const baseStyles = "px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed";
   
   const variants = {
@@ -42,7 +47,7 @@ export const Button: React.FC<ButtonProps> = ({
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
           </svg>
-          Processando...
+          {t('common.processing')}
         </span>
       ) : children}
     </button>
@@ -74,29 +79,420 @@ export const Input: React.FC<InputProps> = ({ label, error, icon, className = ''
   </div>
 );
 
-// --- Layout Component ---
-export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => (
-  <div className="min-h-screen flex flex-col bg-gray-50 text-gray-900">
-    <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md border-b border-gray-200">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
-        <div className="flex items-center space-x-2">
-          <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center text-white font-bold">A</div>
-          <span className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 to-violet-600">
-            AuthSys
-          </span>
+// --- Modal Component ---
+export const Modal: React.FC<{ title: string; onClose: () => void; wide?: boolean; children: React.ReactNode }> = ({ title, onClose, wide = false, children }) => (
+  <div className="fixed inset-0 z-[60] flex items-center justify-center bg-gray-900/50 px-4" onClick={onClose}>
+    <div className={`w-full ${wide ? 'max-w-3xl max-h-[90vh] overflow-y-auto' : 'max-w-md'}`} onClick={e => e.stopPropagation()}>
+      <Card className="p-6 animate-fadeIn">
+        <h3 className="text-lg font-bold text-gray-900 mb-4">{title}</h3>
+        {children}
+      </Card>
+    </div>
+  </div>
+);
+
+// --- Confirm Dialog Component ---
+interface ConfirmDialogProps {
+  title: string;
+  message: React.ReactNode;
+  confirmLabel: string;
+  variant?: 'primary' | 'danger';
+  onConfirm: () => Promise<void> | void;
+  onCancel: () => void;
+}
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, variant = 'primary', onConfirm, onCancel }) => {
+  const { t, describeError } = useI18n();
+  const [isWorking, setIsWorking] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  const handleConfirm = async () => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await onConfirm();
+    } catch (err: any) {
+      setError(describeError(err, 'common.operationFailed'));
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Modal title={title} onClose={onCancel}>
+      <div className="text-sm text-gray-600 mb-4">{message}</div>
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+      <div className="flex justify-end gap-3">
+        <Button variant="ghost" onClick={onCancel} disabled={isWorking}>{t('common.cancel')}</Button>
+        <Button variant={variant} onClick={handleConfirm} isLoading={isWorking}>{confirmLabel}</Button>
+      </div>
+    </Modal>
+  );
+};
+
+// --- Data Table ---
+// Search, sort, filters and paging run over rows already in memory. The state is plain data
+// (see useUrlTableState) so a page can keep it in the URL; long pages render only the rows in
+// view. Rows are measured as they render, so they may differ in height; `rowHeight` is only the
+// estimate for rows not rendered yet.
+
+export interface DataTableColumn<T> {
+  key: string;
+  header: React.ReactNode;
+  render: (row: T) => React.ReactNode;
+  sortValue?: (row: T) => string | number; // Column is sortable when given
+  className?: string;
+}
+
+export interface DataTableSelectFilter<T> {
+  key: string;
+  label: string;
+  options: { value: string; label: string }[];
+  matches: (row: T, value: string) => boolean;
+}
+
+export interface DataTableState {
+  query: string;
+  sort: string; // Column key, or '' for the given order
+  direction: 'asc' | 'desc';
+  filters: Record<string, string>; // By filter key; '' or missing means any
+  from: string; // yyyy-mm-dd, inclusive
+  to: string;
+  page: number; // From 1
+  pageSize: number;
+}
+
+export const PAGE_SIZES = [10, 25, 50, 100, 1000];
+const VIRTUALIZE_AFTER = 100;
+const VIRTUAL_OVERSCAN = 10;
+const VIRTUAL_VIEWPORT_PX = 640;
+
+export const DEFAULT_TABLE_STATE: DataTableState = {
+  query: '',
+  sort: '',
+  direction: 'asc',
+  filters: {},
+  from: '',
+  to: '',
+  page: 1,
+  pageSize: PAGE_SIZES[1],
+};
+
+// Local calendar day of an ISO timestamp, comparable with <input type="date"> values.
+const localDayKey = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Keeps a table's state in the query string (?q=&sort=-createdAt&role=&from=&to=&page=&size=),
+// so a filtered view survives a refresh and can be shared as a link. Defaults are left out.
+export const useUrlTableState = (filterKeys: readonly string[]): [DataTableState, (next: DataTableState) => void] => {
+  const { path, search, navigate } = useRouter();
+
+  const state = React.useMemo<DataTableState>(() => {
+    const params = new URLSearchParams(search);
+    const sort = params.get('sort') ?? '';
+    const page = Number(params.get('page'));
+    const pageSize = Number(params.get('size'));
+    return {
+      query: params.get('q') ?? '',
+      sort: sort.replace(/^-/, ''),
+      direction: sort.startsWith('-') ? 'desc' : 'asc',
+      filters: Object.fromEntries(filterKeys.map(key => [key, params.get(key) ?? ''])),
+      from: params.get('from') ?? '',
+      to: params.get('to') ?? '',
+      page: Number.isInteger(page) && page > 0 ? page : 1,
+      pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_TABLE_STATE.pageSize,
+    };
+  }, [search, filterKeys]);
+
+  const setState = React.useCallback((next: DataTableState) => {
+    const params = new URLSearchParams(search);
+    const entries: [string, string][] = [
+      ['q', next.query],
+      ['sort', next.sort ? `${next.direction === 'desc' ? '-' : ''}${next.sort}` : ''],
+      ...filterKeys.map((key): [string, string] => [key, next.filters[key] ?? '']),
+      ['from', next.from],
+      ['to', next.to],
+      ['page', next.page > 1 ? String(next.page) : ''],
+      ['size', next.pageSize !== DEFAULT_TABLE_STATE.pageSize ? String(next.pageSize) : ''],
+    ];
+    for (const [key, value] of entries) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    const query = params.toString();
+    navigate(query ? `${path}?${query}` : path, { replace: true });
+  }, [path, search, navigate, filterKeys]);
+
+  return [state, setState];
+};
+
+interface DataTableProps<T> {
+  rows: T[];
+  columns: DataTableColumn<T>[];
+  rowKey: (row: T) => string;
+  state: DataTableState;
+  onStateChange: (next: DataTableState) => void;
+  searchText?: (row: T) => string; // Text the search box matches against; no box without it
+  selectFilters?: DataTableSelectFilter<T>[];
+  dateFilter?: { label: string; value: (row: T) => string }; // ISO timestamp to filter by range
+  rowClassName?: (row: T) => string;
+  rowHeight?: number; // Estimated height of a row that has not been measured yet
+}
+
+const toolbarFieldClass =
+  'rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+export const DataTable = <T,>({
+  rows,
+  columns,
+  rowKey,
+  state,
+  onStateChange,
+  searchText,
+  selectFilters = [],
+  dateFilter,
+  rowClassName,
+  rowHeight = 64,
+}: DataTableProps<T>) => {
+  const { locale, t } = useI18n();
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const bodyRef = React.useRef<HTMLTableSectionElement>(null);
+  // Rendered heights by row key; a new measurement re-renders so the spacers follow.
+  const heightsRef = React.useRef(new Map<string, number>());
+  const [, setMeasuredCount] = React.useState(0);
+
+  // Any change other than moving between pages starts again from page 1.
+  const update = (changes: Partial<DataTableState>) => onStateChange({ ...state, page: 1, ...changes });
+
+  const visible = React.useMemo(() => {
+    const query = state.query.trim().toLocaleLowerCase(locale);
+    const filtered = rows.filter(row =>
+      (!query || !searchText || searchText(row).toLocaleLowerCase(locale).includes(query)) &&
+      selectFilters.every(filter => !state.filters[filter.key] || filter.matches(row, state.filters[filter.key])) &&
+      (!dateFilter || ((!state.from || localDayKey(dateFilter.value(row)) >= state.from) &&
+        (!state.to || localDayKey(dateFilter.value(row)) <= state.to)))
+    );
+    const column = columns.find(c => c.key === state.sort && c.sortValue);
+    if (!column) return filtered;
+    const collator = new Intl.Collator(locale, { numeric: true, sensitivity: 'base' });
+    const sign = state.direction === 'desc' ? -1 : 1;
+    return [...filtered].sort((a, b) => {
+      const left = column.sortValue!(a);
+      const right = column.sortValue!(b);
+      return sign * (typeof left === 'number' && typeof right === 'number' ? left - right : collator.compare(String(left), String(right)));
+    });
+  }, [rows, columns, state, searchText, selectFilters, dateFilter, locale]);
+
+  const pageCount = Math.max(Math.ceil(visible.length / state.pageSize), 1);
+  const page = Math.min(state.page, pageCount);
+  const pageRows = visible.slice((page - 1) * state.pageSize, page * state.pageSize);
+
+  const isVirtual = pageRows.length > VIRTUALIZE_AFTER;
+  // offsets[i] is the top of row i within the body; the last entry is the total height.
+  const offsets = [0];
+  if (isVirtual) {
+    pageRows.forEach((row, i) => offsets.push(offsets[i] + (heightsRef.current.get(rowKey(row)) ?? rowHeight)));
+  }
+  const firstBelow = offsets.findIndex(top => top > scrollTop);
+  const firstInView = firstBelow === -1 ? pageRows.length : Math.max(firstBelow - 1, 0);
+  const lastInView = isVirtual ? offsets.findIndex(top => top >= scrollTop + VIRTUAL_VIEWPORT_PX) : -1;
+  const start = isVirtual ? Math.max(firstInView - VIRTUAL_OVERSCAN, 0) : 0;
+  const end = isVirtual && lastInView !== -1 ? Math.min(lastInView + VIRTUAL_OVERSCAN, pageRows.length) : pageRows.length;
+
+  React.useLayoutEffect(() => {
+    if (!isVirtual || !bodyRef.current) return;
+    let changed = 0;
+    bodyRef.current.querySelectorAll<HTMLTableRowElement>('tr[data-row-key]').forEach(tr => {
+      const key = tr.dataset.rowKey!;
+      if (heightsRef.current.get(key) !== tr.offsetHeight) {
+        heightsRef.current.set(key, tr.offsetHeight);
+        changed++;
+      }
+    });
+    if (changed) setMeasuredCount(count => count + changed);
+  });
+
+  React.useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [page, state.pageSize, state.query, state.sort, state.direction, state.filters, state.from, state.to]);
+
+  const toggleSort = (key: string) =>
+    update(state.sort !== key ? { sort: key, direction: 'asc' } : state.direction === 'asc' ? { direction: 'desc' } : { sort: '', direction: 'asc' });
+
+  const hasFilters = !!(state.query || state.from || state.to || Object.values(state.filters).some(Boolean));
+
+  return (
+    <div className="flex flex-col">
+      {(searchText || selectFilters.length > 0 || dateFilter) && (
+        <div className="flex flex-wrap items-end gap-3 px-6 py-3 border-b border-gray-100">
+          {searchText && (
+            <input
+              type="search"
+              aria-label={t('table.search')}
+              placeholder={t('table.search')}
+              className={`${toolbarFieldClass} flex-grow min-w-[12rem]`}
+              value={state.query}
+              onChange={e => update({ query: e.target.value })}
+            />
+          )}
+          {selectFilters.map(filter => (
+            <label key={filter.key} className="text-xs font-medium text-gray-500">
+              {filter.label}
+              <select
+                className={`${toolbarFieldClass} block mt-1`}
+                value={state.filters[filter.key] ?? ''}
+                onChange={e => update({ filters: { ...state.filters, [filter.key]: e.target.value } })}
+              >
+                <option value="">{t('table.any')}</option>
+                {filter.options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </label>
+          ))}
+          {dateFilter && (
+            <>
+              <label className="text-xs font-medium text-gray-500">
+                {t('table.from', { label: dateFilter.label })}
+                <input type="date" className={`${toolbarFieldClass} block mt-1`} value={state.from} max={state.to || undefined} onChange={e => update({ from: e.target.value })} />
+              </label>
+              <label className="text-xs font-medium text-gray-500">
+                {t('table.to', { label: dateFilter.label })}
+                <input type="date" className={`${toolbarFieldClass} block mt-1`} value={state.to} min={state.from || undefined} onChange={e => update({ to: e.target.value })} />
+              </label>
+            </>
+          )}
+          {hasFilters && (
+            <button
+              type="button"
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-500 py-1"
+              onClick={() => update({ query: '', filters: {}, from: '', to: '' })}
+            >
+              {t('table.clear')}
+            </button>
+          )}
         </div>
-        <nav className="text-sm font-medium text-gray-500">
-          Sistema Seguro v1.0
-        </nav>
+      )}
+
+      <div
+        ref={scrollRef}
+        className="overflow-auto"
+        style={isVirtual ? { maxHeight: VIRTUAL_VIEWPORT_PX } : undefined}
+        onScroll={isVirtual ? e => setScrollTop(e.currentTarget.scrollTop) : undefined}
+      >
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr>
+              {columns.map(column => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  aria-sort={state.sort === column.key ? (state.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {column.sortValue ? (
+                    <button type="button" className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900" onClick={() => toggleSort(column.key)}>
+                      {column.header}
+                      <span aria-hidden="true" className={state.sort === column.key ? 'text-indigo-600' : 'text-gray-300'}>
+                        {state.sort === column.key && state.direction === 'desc' ? '▼' : '▲'}
+                      </span>
+                    </button>
+                  ) : column.header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody ref={bodyRef} className="bg-white divide-y divide-gray-200">
+            {start > 0 && <tr aria-hidden="true" style={{ height: offsets[start] }} />}
+            {pageRows.slice(start, end).map(row => (
+              <tr key={rowKey(row)} data-row-key={isVirtual ? rowKey(row) : undefined} className={rowClassName?.(row) ?? 'hover:bg-gray-50'}>
+                {columns.map(column => (
+                  <td key={column.key} className={column.className ?? 'px-6 py-4 whitespace-nowrap text-sm text-gray-500'}>{column.render(row)}</td>
+                ))}
+              </tr>
+            ))}
+            {end < pageRows.length && <tr aria-hidden="true" style={{ height: offsets[pageRows.length] - offsets[end] }} />}
+            {!pageRows.length && (
+              <tr>
+                <td colSpan={columns.length} className="px-6 py-8 text-center text-sm text-gray-400">{t('table.empty')}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
       </div>
-    </header>
-    <main className="flex-grow flex flex-col relative">
-      {children}
-    </main>
-    <footer className="bg-white border-t border-gray-200 py-6 mt-auto">
-      <div className="max-w-7xl mx-auto px-4 text-center text-gray-400 text-sm">
-        &copy; {new Date().getFullYear()} AuthSys Pro. Todos os direitos reservados.
+
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 border-t border-gray-100 text-sm text-gray-500">
+        <span>
+          {visible.length
+            ? t('table.range', { from: (page - 1) * state.pageSize + 1, to: (page - 1) * state.pageSize + pageRows.length, total: visible.length })
+            : t('table.range', { from: 0, to: 0, total: 0 })}
+        </span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2">
+            {t('table.pageSize')}
+            <select className={toolbarFieldClass} value={state.pageSize} onChange={e => update({ pageSize: Number(e.target.value) })}>
+              {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+          </label>
+          <Button variant="secondary" className="text-sm py-1 px-3" disabled={page <= 1} onClick={() => onStateChange({ ...state, page: page - 1 })}>
+            {t('table.previous')}
+          </Button>
+          <span>{t('table.page', { page, count: pageCount })}</span>
+          <Button variant="secondary" className="text-sm py-1 px-3" disabled={page >= pageCount} onClick={() => onStateChange({ ...state, page: page + 1 })}>
+            {t('table.next')}
+          </Button>
+        </div>
       </div>
-    </footer>
-  </div>
-);
+    </div>
+  );
+};
+
+// --- Locale Switcher ---
+export const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <select
+      aria-label={t('layout.language')}
+      className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+      value={locale}
+      onChange={e => setLocale(e.target.value as Locale)}
+    >
+      {LOCALES.map(l => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+    </select>
+  );
+};
+
+// --- Layout Component ---
+// `nav` holds the page links, shown beside the language switcher; `switcher` sits next to the logo.
+export const Layout: React.FC<{ children: React.ReactNode; nav?: React.ReactNode; switcher?: React.ReactNode }> = ({ children, nav, switcher }) => {
+  const { t } = useI18n();
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 text-gray-900">
+      <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center text-white font-bold">A</div>
+            <span className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 to-violet-600">
+              AuthSys
+            </span>
+            {switcher && <div className="pl-2">{switcher}</div>}
+          </div>
+          <nav className="flex items-center gap-4 text-sm font-medium text-gray-500">
+            {nav}
+            <span className="hidden lg:inline">{t('layout.tagline')}</span>
+            <LocaleSwitcher />
+          </nav>
+        </div>
+      </header>
+      <main className="flex-grow flex flex-col relative">
+        {children}
+      </main>
+      <footer className="bg-white border-t border-gray-200 py-6 mt-auto">
+        <div className="max-w-7xl mx-auto px-4 text-center text-gray-400 text-sm">
+          &copy; {new Date().getFullYear()} {t('layout.rights')}
+        </div>
+      </footer>
+    </div>
+  );
+};
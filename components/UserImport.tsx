@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useAuth, useAuthorization } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { downloadTextFile } from '../services/csv';
+import {
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  ImportField,
+  ImportMapping,
+  ImportReport,
+  ParsedImport,
+  applyMapping,
+  importFormatOf,
+  parseImportFile,
+  suggestMapping,
+  usersToCsv,
+  usersToJson,
+} from '../services/userImport';
+import { Button, Modal } from './UI';
+
+const PREVIEW_ROWS = 5;
+
+// --- Import Dialog ---
+// Pick a file, map its columns, dry-run, then commit. The commit button only appears after a
+// clean dry run of the current mapping, and the server checks everything again anyway.
+const ImportUsersDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { importUsers } = useAuth();
+  const { t, describeError } = useI18n();
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const rows = parsed ? applyMapping(parsed.records, mapping) : [];
+  const isMappingComplete = REQUIRED_IMPORT_FIELDS.every(field => mapping[field]);
+  const invalidRows = report?.rows.filter(r => r.issues.length) ?? [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+    setReport(null);
+    setParsed(null);
+    setFileName(file.name);
+    try {
+      const result = parseImportFile(await file.text(), importFormatOf(file.name));
+      setParsed(result);
+      setMapping(suggestMapping(result.columns));
+    } catch (err: any) {
+      setError(describeError(err, 'errors.invalid_import_file'));
+    }
+  };
+
+  const setColumn = (field: ImportField, column: string) => {
+    setReport(null);
+    setMapping(current => ({ ...current, [field]: column || undefined }));
+  };
+
+  const run = async (dryRun: boolean) => {
+    setError('');
+    setIsWorking(true);
+    try {
+      setReport(await importUsers(rows, { dryRun }));
+    } catch (err: any) {
+      setError(describeError(err, 'import.error'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (report && !report.dryRun && report.created) {
+    return (
+      <Modal title={t('import.title')} onClose={onClose}>
+        <p className="text-sm text-green-700 mb-2">{t('import.done', { count: report.created })}</p>
+        <p className="text-sm text-gray-600 mb-4">{t('import.resetNotice')}</p>
+        <div className="flex justify-end">
+          <Button onClick={onClose}>{t('common.close')}</Button>
+        </div>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal title={t('import.title')} onClose={onClose} wide>
+      <p className="text-sm text-gray-600 mb-4">{t('import.intro')}</p>
+      <label className="block text-sm font-medium text-gray-700 mb-4">
+        {t('import.file')}
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFile}
+          className="mt-1 block w-full text-sm text-gray-600 file:mr-3 file:rounded-lg file:border-0 file:bg-indigo-50 file:px-3 file:py-2 file:text-indigo-700 hover:file:bg-indigo-100"
+        />
+      </label>
+
+      {parsed && (
+        <>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">
+            {t('import.mappingTitle', { file: fileName, count: parsed.records.length })}
+          </h4>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 mb-4">
+            {IMPORT_FIELDS.map(field => (
+              <label key={field} className="block text-xs font-medium text-gray-700">
+                {t(`import.field.${field}` as const)}{REQUIRED_IMPORT_FIELDS.includes(field) && ' *'}
+                <select
+                  className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  value={mapping[field] ?? ''}
+                  onChange={e => setColumn(field, e.target.value)}
+                >
+                  <option value="">{t('import.unmapped')}</option>
+                  {parsed.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto border border-gray-100 rounded-lg mb-4">
+            <table className="min-w-full divide-y divide-gray-200 text-xs">
+              <thead className="bg-gray-50">
+                <tr>
+                  {IMPORT_FIELDS.map(field => (
+                    <th key={field} className="px-3 py-2 text-left font-medium text-gray-500 uppercase">{t(`import.field.${field}` as const)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i}>
+                    {IMPORT_FIELDS.map(field => (
+                      <td key={field} className="px-3 py-2 text-gray-700 max-w-[12rem] truncate">{row[field] ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > PREVIEW_ROWS && (
+              <p className="px-3 py-2 text-xs text-gray-400">{t('import.previewMore', { count: rows.length - PREVIEW_ROWS })}</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {report && (
+        <div className={`rounded-lg border p-3 mb-4 text-sm ${invalidRows.length ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}`}>
+          {invalidRows.length ? (
+            <>
+              <p className="font-medium text-red-700 mb-2">{t('import.invalidSummary', { invalid: invalidRows.length, total: report.total })}</p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto text-xs text-red-700">
+                {invalidRows.map(r => (
+                  <li key={r.index}>
+                    <span className="font-semibold">{t('import.rowLabel', { number: r.index + 1 })}</span>
+                    {r.email && <span className="text-red-500"> ({r.email})</span>}:{' '}
+                    {r.issues.map(issue => `${t(`import.field.${issue.field}` as const)} — ${t(`errors.${issue.code}` as const)}`).join('; ')}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="font-medium text-green-700">{t('import.validSummary', { count: report.total })}</p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="ghost" onClick={onClose} disabled={isWorking}>{t('common.cancel')}</Button>
+        {report && !invalidRows.length ? (
+          <Button type="button" onClick={() => run(false)} isLoading={isWorking}>{t('import.commit', { count: report.total })}</Button>
+        ) : (
+          <Button type="button" variant="secondary" onClick={() => run(true)} isLoading={isWorking} disabled={!rows.length || !isMappingComplete}>
+            {t('import.dryRun')}
+          </Button>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+// --- Import / Export Actions ---
+export const UserImportExport: React.FC = () => {
+  const { users } = useAuth();
+  const { can } = useAuthorization();
+  const { t } = useI18n();
+  const [isImporting, setIsImporting] = useState(false);
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {can('users:import') && (
+        <Button variant="secondary" className="text-sm py-1" onClick={() => setIsImporting(true)}>{t('import.open')}</Button>
+      )}
+      <Button variant="ghost" className="text-sm py-1" onClick={() => downloadTextFile(`usuarios-${stamp()}.csv`, usersToCsv(users))}>
+        {t('export.csv')}
+      </Button>
+      <Button
+        variant="ghost"
+        className="text-sm py-1"
+        onClick={() => downloadTextFile(`usuarios-${stamp()}.json`, usersToJson(users), 'application/json;charset=utf-8')}
+      >
+        {t('export.json')}
+      </Button>
+      {isImporting && <ImportUsersDialog onClose={() => setIsImporting(false)} />}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { useAuth, useAuthorization } from '../context/AuthContext';
+import { useI18n } from '../context/I18nContext';
+import { Button, Input, Modal, ConfirmDialog } from './UI';
+
+// --- Edit Dialog ---
+const EditUserDialog: React.FC<{ target: User; onClose: () => void }> = ({ target, onClose }) => {
+  const { updateUser } = useAuth();
+  const { t, describeError } = useI18n();
+  const [name, setName] = useState(target.name);
+  const [email, setEmail] = useState(target.email);
+  const [bio, setBio] = useState(target.bio);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+    try {
+      await updateUser(target.id, { name, email, bio });
+      onClose();
+    } catch (err: any) {
+      setError(describeError(err, 'users.saveError'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal title={t('users.editTitle', { name: target.name })} onClose={onClose}>
+      <form onSubmit={handleSubmit}>
+        <Input label={t('common.name')} value={name} onChange={e => setName(e.target.value)} required />
+        <Input label={t('common.email')} type="email" value={email} onChange={e => setEmail(e.target.value)} required />
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.bio')}</label>
+          <textarea
+            className="w-full rounded-lg border border-gray-300 p-3 focus:ring-indigo-500 focus:border-indigo-500 h-24"
+            value={bio}
+            onChange={e => setBio(e.target.value)}
+          />
+        </div>
+        {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="ghost" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" isLoading={isSaving}>{t('common.save')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+type PendingAction = 'edit' | 'role' | 'status' | 'reset' | 'sessions' | 'delete';
+
+// --- Row Actions ---
+export const UserRowActions: React.FC<{ target: User }> = ({ target }) => {
+  const { user, setUserRole, setUserStatus, deleteUser, forcePasswordReset, revokeUserSessions } = useAuth();
+  const { can } = useAuthorization();
+  const { t, richText } = useI18n();
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+
+  const isSelf = target.id === user?.id;
+  const isDisabled = target.status === 'disabled';
+  const nextRole = target.role === 'admin' ? 'user' : 'admin';
+  const close = () => setPending(null);
+
+  const linkClass = 'text-xs font-medium hover:underline disabled:opacity-40 disabled:no-underline';
+
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1">
+      {can('users:edit') && (
+        <>
+          <button type="button" className={`${linkClass} text-indigo-600`} onClick={() => setPending('edit')}>{t('users.edit')}</button>
+          <button type="button" className={`${linkClass} text-violet-600`} onClick={() => setPending('role')}>
+            {nextRole === 'admin' ? t('users.makeAdmin') : t('users.removeAdmin')}
+          </button>
+          <button type="button" className={`${linkClass} text-amber-600`} onClick={() => setPending('status')} disabled={isSelf}>
+            {isDisabled ? t('users.activate') : t('users.deactivate')}
+          </button>
+          <button type="button" className={`${linkClass} text-gray-600`} onClick={() => setPending('reset')}>{t('users.resetPassword')}</button>
+        </>
+      )}
+      {can('sessions:revoke') && (
+        <button type="button" className={`${linkClass} text-gray-600`} onClick={() => setPending('sessions')}>{t('users.endSessions')}</button>
+      )}
+      {can('users:delete') && (
+        <button type="button" className={`${linkClass} text-red-600`} onClick={() => setPending('delete')} disabled={isSelf}>{t('users.delete')}</button>
+      )}
+
+      {pending === 'edit' && <EditUserDialog target={target} onClose={close} />}
+
+      {pending === 'role' && (
+        <ConfirmDialog
+          title={t('users.roleTitle')}
+          message={richText('users.roleMessage', {
+            name: <strong>{target.name}</strong>,
+            role: <strong>{t(`users.role.${nextRole}` as const)}</strong>,
+          })}
+          confirmLabel={t('common.confirm')}
+          onConfirm={async () => { await setUserRole(target.id, nextRole); close(); }}
+          onCancel={close}
+        />
+      )}
+
+      {pending === 'status' && (
+        <ConfirmDialog
+          title={isDisabled ? t('users.activateTitle') : t('users.deactivateTitle')}
+          message={richText(isDisabled ? 'users.activateMessage' : 'users.deactivateMessage', { name: <strong>{target.name}</strong> })}
+          confirmLabel={isDisabled ? t('users.activate') : t('users.deactivate')}
+          variant={isDisabled ? 'primary' : 'danger'}
+          onConfirm={async () => { await setUserStatus(target.id, isDisabled ? 'active' : 'disabled'); close(); }}
+          onCancel={close}
+        />
+      )}
+
+      {pending === 'reset' && (
+        <ConfirmDialog
+          title={t('users.resetPassword')}
+          message={richText('users.resetMessage', { name: <strong>{target.name}</strong> })}
+          confirmLabel={t('users.resetConfirm')}
+          onConfirm={async () => { setTemporaryPassword(await forcePasswordReset(target.id)); close(); }}
+          onCancel={close}
+        />
+      )}
+
+      {pending === 'sessions' && (
+        <ConfirmDialog
+          title={t('users.endSessions')}
+          message={richText('users.endSessionsMessage', { name: <strong>{target.name}</strong> })}
+          confirmLabel={t('users.endSessions')}
+          variant="danger"
+          onConfirm={async () => { await revokeUserSessions(target.id); close(); }}
+          onCancel={close}
+        />
+      )}
+
+      {pending === 'delete' && (
+        <ConfirmDialog
+          title={t('users.deleteTitle')}
+          message={richText('users.deleteMessage', { name: <strong>{target.name}</strong>, email: target.email })}
+          confirmLabel={t('users.delete')}
+          variant="danger"
+          onConfirm={async () => { await deleteUser(target.id); close(); }}
+          onCancel={close}
+        />
+      )}
+
+      {temporaryPassword && (
+        <Modal title={t('users.temporaryPasswordTitle')} onClose={() => setTemporaryPassword(null)}>
+          <p className="text-sm text-gray-600 mb-3">{richText('users.temporaryPasswordMessage', { email: <strong>{target.email}</strong> })}</p>
+          <p className="text-sm font-mono bg-gray-100 p-2 rounded mb-4 select-all">{temporaryPassword}</p>
+          <div className="flex justify-end">
+            <Button onClick={() => setTemporaryPassword(null)}>{t('common.close')}</Button>
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
+};
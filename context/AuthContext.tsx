@@ -0,0 +1,465 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import {
+  User,
+  RegisterData,
+  AuthContextType,
+  Role,
+  UserStatus,
+  UserUpdate,
+  LoginResult,
+  TwoFactorEnrollment,
+  PasswordPolicy,
+  SessionInfo,
+  OAuthProviderId,
+  OAuthProviderInfo,
+  OrganizationRole,
+  OrganizationSummary,
+  OrganizationMember,
+  AvatarImages,
+} from '../types';
+import { Permission, hasPermission } from '../services/permissions';
+import { useI18n } from './I18nContext';
+import { DEFAULT_PASSWORD_POLICY } from '../services/passwordPolicy';
+import { AuthClient } from '../services/authClient';
+import { createHttpAuthClient } from '../services/httpClient';
+import { AuthError } from '../services/authErrors';
+import { UserImportRow } from '../services/userImport';
+import { createPasskey, getPasskey } from '../services/passkeyBrowser';
+
+// --- Auth Context Setup ---
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used within an AuthProvider');
+  return context;
+};
+
+export const useAuthorization = () => {
+  const { user } = useAuth();
+  const can = useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+  return { role: user?.role ?? null, can };
+};
+
+// Renders children only when the current user holds the permission.
+export const RequirePermission: React.FC<{ permission: Permission; fallback?: React.ReactNode; children: React.ReactNode }> = ({
+  permission,
+  fallback = null,
+  children,
+}) => {
+  const { can } = useAuthorization();
+  return <>{can(permission) ? children : fallback}</>;
+};
+
+const SESSION_CHANNEL = 'authsys_session';
+const ORGANIZATION_STORAGE_KEY = 'authsys_organization';
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+  // Defaults to the REST API (server/); pass createLocalAuthClient() to run without a server.
+  client?: AuthClient;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children, client: clientProp }) => {
+  // The client is fixed for the lifetime of the provider.
+  const [client] = useState<AuthClient>(() => clientProp ?? createHttpAuthClient());
+  const { locale } = useI18n();
+  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Pick<SessionInfo, 'issuedAt' | 'expiresAt'> | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+  const [oauthProviders, setOAuthProviders] = useState<OAuthProviderInfo[]>([]);
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [organizationId, setOrganizationId] = useState<string | null>(() => localStorage.getItem(ORGANIZATION_STORAGE_KEY));
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  // Set while a sliding refresh is on its way, so bursts of activity send only one.
+  const refreshingRef = useRef(false);
+  // Secret shown during 2FA setup; the server only stores it once a code proves it was scanned.
+  const pendingEnrollmentRef = useRef<string | null>(null);
+
+  // Tells other tabs to re-read the session and users.
+  const notifyTabs = () => channelRef.current?.postMessage('changed');
+
+  const applySession = useCallback(async (info: SessionInfo | null) => {
+    setUser(info?.user ?? null);
+    setSession(info && { issuedAt: info.issuedAt, expiresAt: info.expiresAt });
+    const [nextUsers, nextOrganizations] = info ? await Promise.all([client.listUsers(), client.listOrganizations()]) : [[], []];
+    setUsers(nextUsers);
+    setOrganizations(nextOrganizations);
+  }, [client]);
+
+  // Re-reads the session (and with it the users list) from the backend.
+  const reload = useCallback(async () => {
+    await applySession(await client.getSession());
+  }, [client, applySession]);
+
+  // Every mutation ends the same way: pick up its effects here and in other tabs.
+  const afterChange = async () => {
+    await reload();
+    notifyTabs();
+  };
+
+  useEffect(() => {
+    client.getPasswordPolicy().then(setPolicy).catch(() => {}); // Keep the defaults if this fails
+    client.getOAuthProviders().then(setOAuthProviders).catch(() => {}); // Password sign-in still works
+    reload().catch(() => applySession(null)).finally(() => setIsLoading(false));
+  }, [client, reload, applySession]);
+
+  // Multi-tab sync
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(SESSION_CHANNEL);
+    channel.onmessage = () => { reload().catch(() => {}); }; // The next message or check retries
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, [reload]);
+
+  // The remembered organization, or the first one when it is gone (left, removed) or never picked.
+  const currentOrganization = organizations.find(o => o.id === organizationId) ?? organizations[0] ?? null;
+
+  // Members follow the current organization and every reload (roles change through afterChange).
+  useEffect(() => {
+    if (!currentOrganization) {
+      setMembers([]);
+      return;
+    }
+    let cancelled = false;
+    client.listMembers(currentOrganization.id).then(
+      list => { if (!cancelled) setMembers(list); },
+      () => { if (!cancelled) setMembers([]); }
+    );
+    return () => { cancelled = true; };
+  }, [client, currentOrganization?.id, organizations]);
+
+  const refreshSession = async () => {
+    await applySession(await client.refreshSession());
+    notifyTabs();
+  };
+
+  // Coming back to the tab re-checks the session, so one revoked from another device ends here
+  // without waiting for the next refresh.
+  useEffect(() => {
+    if (!session) return;
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') reload().catch(() => {}); // Offline: check again next time
+    };
+    document.addEventListener('visibilitychange', onVisible);
+    return () => document.removeEventListener('visibilitychange', onVisible);
+  }, [session, reload]);
+
+  // Auto-logout when the session lapses. Re-reading (instead of clearing outright)
+  // keeps us signed in if another tab slid the expiry in the meantime.
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => { reload().catch(() => {}); }, Math.max(session.expiresAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [session, reload]);
+
+  // Sliding expiry: user activity refreshes the session, at most once per interval.
+  useEffect(() => {
+    if (!session) return;
+    const interval = Math.min(60 * 1000, (session.expiresAt - session.issuedAt) / 4);
+    const onActivity = () => {
+      if (refreshingRef.current || Date.now() - session.issuedAt < interval) return;
+      refreshingRef.current = true;
+      refreshSession()
+        .catch(() => {}) // A session that really lapsed is picked up by the expiry timer
+        .finally(() => { refreshingRef.current = false; });
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, onActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, onActivity));
+  });
+
+  // Login and register deliberately leave isLoading alone: the views keep their own
+  // spinners, and unmounting them would lose error messages and the lockout countdown.
+  const login = async (email: string, pass: string): Promise<LoginResult> => {
+    const result = await client.login(email, pass);
+    if (!('session' in result)) return { twoFactorRequired: true };
+    await applySession(result.session);
+    notifyTabs();
+    return { twoFactorRequired: false };
+  };
+
+  const verifyTwoFactorLogin = async (code: string) => {
+    await applySession(await client.verifyTwoFactorLogin(code));
+    notifyTabs();
+  };
+
+  const loginWithPasskey = async () => {
+    const credential = await getPasskey(await client.beginPasskeyLogin());
+    await applySession(await client.loginWithPasskey(credential));
+    notifyTabs();
+  };
+
+  const cancelTwoFactorLogin = () => {
+    client.cancelTwoFactorLogin().catch(() => {}); // The challenge expires on its own anyway
+  };
+
+  const register = async (data: RegisterData) => {
+    await applySession(await client.register({ ...data, locale }));
+    notifyTabs();
+  };
+
+  const logout = () => {
+    pendingEnrollmentRef.current = null;
+    setUser(null);
+    setSession(null);
+    setUsers([]);
+    setOrganizations([]);
+    client.logout().catch(() => {}).then(notifyTabs);
+  };
+
+  // --- Active sessions ---
+
+  const revokeSession = async (id: string) => {
+    await client.revokeSession(id);
+    await afterChange(); // Signs out here when it was this session
+  };
+
+  // --- Email verification & password recovery ---
+
+  const requestEmailVerification = () => client.requestEmailVerification();
+
+  const verifyEmail = async (token: string) => {
+    await client.verifyEmail(token);
+    await afterChange();
+  };
+
+  const requestPasswordReset = (email: string) => client.requestPasswordReset(email, locale);
+
+  const resetPassword = async (token: string, newPassword: string) => {
+    await client.resetPassword(token, newPassword);
+    await afterChange();
+  };
+
+  // --- Account management ---
+
+  const completePasswordReset = async (newPassword: string) => {
+    await client.completePasswordReset(newPassword);
+    await afterChange();
+  };
+
+  const updateProfile = async (changes: UserUpdate) => {
+    await client.updateProfile(changes);
+    await afterChange();
+  };
+
+  // The account keeps the language last picked in the app, which is the one its emails are sent in.
+  // Only a switch made in this tab is saved: other tabs may show another language, and echoing
+  // each other's profile updates would have them overwrite it back and forth.
+  const pickedLocaleRef = useRef(locale);
+  useEffect(() => {
+    if (pickedLocaleRef.current === locale) return;
+    pickedLocaleRef.current = locale;
+    if (user) updateProfile({ locale }).catch(() => {}); // Kept locally; the next switch tries again
+  }, [locale]);
+
+  const updateAvatar = async (avatar: AvatarImages | null) => {
+    await client.updateAvatar(avatar);
+    await afterChange();
+  };
+
+  const changePassword = (currentPassword: string, newPassword: string) => client.changePassword(currentPassword, newPassword);
+
+  const beginTwoFactorEnrollment = async (): Promise<TwoFactorEnrollment> => {
+    const enrollment = await client.beginTwoFactorEnrollment();
+    pendingEnrollmentRef.current = enrollment.secret;
+    return enrollment;
+  };
+
+  const confirmTwoFactorEnrollment = async (code: string) => {
+    const secret = pendingEnrollmentRef.current;
+    if (!secret) throw new AuthError('two_factor_enrollment_expired');
+    const recoveryCodes = await client.confirmTwoFactorEnrollment(secret, code);
+    pendingEnrollmentRef.current = null;
+    await afterChange();
+    return recoveryCodes;
+  };
+
+  const disableTwoFactor = async (confirmation: string) => {
+    await client.disableTwoFactor(confirmation);
+    await afterChange();
+  };
+
+  const requestAccountDeletion = async (confirmation: string) => {
+    await client.requestAccountDeletion(confirmation);
+    await afterChange(); // Every session is gone, so this signs out
+  };
+
+  // --- External providers ---
+
+  const signInWithProvider = (provider: OAuthProviderId, next?: string) => client.beginOAuth(provider, { next });
+
+  const linkProvider = (provider: OAuthProviderId) => client.beginOAuth(provider, { link: true });
+
+  const unlinkProvider = async (provider: OAuthProviderId) => {
+    await client.unlinkProvider(provider);
+    await afterChange();
+  };
+
+  // --- Passkeys ---
+
+  const registerPasskey = async (name?: string) => {
+    const credential = await createPasskey(await client.beginPasskeyRegistration());
+    await client.finishPasskeyRegistration(credential, name);
+    await afterChange();
+  };
+
+  const renamePasskey = async (id: string, name: string) => {
+    await client.renamePasskey(id, name);
+    await afterChange();
+  };
+
+  const removePasskey = async (id: string) => {
+    await client.removePasskey(id);
+    await afterChange();
+  };
+
+  // --- Organizations ---
+
+  const switchOrganization = (id: string) => {
+    localStorage.setItem(ORGANIZATION_STORAGE_KEY, id);
+    setOrganizationId(id);
+  };
+
+  // Member operations need a current organization; the UI only offers them when there is one.
+  const requireOrganization = () => {
+    if (!currentOrganization) throw new AuthError('organization_not_found');
+    return currentOrganization.id;
+  };
+
+  const createOrganization = async (name: string) => {
+    const organization = await client.createOrganization(name);
+    switchOrganization(organization.id);
+    await afterChange();
+  };
+
+  const setMemberRole = async (userId: string, role: OrganizationRole) => {
+    await client.setMemberRole(requireOrganization(), userId, role);
+    await afterChange();
+  };
+
+  const removeMember = async (userId: string) => {
+    await client.removeMember(requireOrganization(), userId);
+    await afterChange();
+  };
+
+  const getInvitations = async () => client.listInvitations(requireOrganization());
+
+  const inviteMember = async (email: string, role: OrganizationRole) => {
+    await client.inviteMember(requireOrganization(), email, role);
+  };
+
+  const revokeInvitation = async (id: string) => {
+    await client.revokeInvitation(requireOrganization(), id);
+  };
+
+  const acceptInvitation = async (token: string) => {
+    const organization = await client.acceptInvitation(token);
+    switchOrganization(organization.id);
+    await afterChange();
+  };
+
+  const updateUser = async (id: string, changes: UserUpdate) => {
+    await client.updateUser(id, changes);
+    await afterChange();
+  };
+
+  const setUserRole = async (id: string, role: Role) => {
+    await client.setUserRole(id, role);
+    await afterChange();
+  };
+
+  const setUserStatus = async (id: string, status: UserStatus) => {
+    await client.setUserStatus(id, status);
+    await afterChange();
+  };
+
+  const deleteUser = async (id: string) => {
+    await client.deleteUser(id);
+    await afterChange();
+  };
+
+  const forcePasswordReset = async (id: string) => {
+    const temporary = await client.forcePasswordReset(id);
+    await afterChange();
+    return temporary;
+  };
+
+  const importUsers = async (rows: UserImportRow[], options?: { dryRun?: boolean }) => {
+    const report = await client.importUsers(rows, options);
+    if (report.created) await afterChange();
+    return report;
+  };
+
+  return (
+    <AuthContext.Provider value={{
+      user,
+      isAuthenticated: !!user,
+      isLoading,
+      sessionExpiresAt: session?.expiresAt ?? null,
+      passwordPolicy: policy,
+      oauthProviders,
+      organizations,
+      currentOrganization,
+      login,
+      verifyTwoFactorLogin,
+      cancelTwoFactorLogin,
+      register,
+      logout,
+      refreshSession,
+      completePasswordReset,
+      updateProfile,
+      updateAvatar,
+      changePassword,
+      beginTwoFactorEnrollment,
+      confirmTwoFactorEnrollment,
+      disableTwoFactor,
+      signInWithProvider,
+      linkProvider,
+      unlinkProvider,
+      loginWithPasskey,
+      registerPasskey,
+      renamePasskey,
+      removePasskey,
+      requestEmailVerification,
+      verifyEmail,
+      requestPasswordReset,
+      resetPassword,
+      updateUser,
+      setUserRole,
+      setUserStatus,
+      deleteUser,
+      forcePasswordReset,
+      importUsers,
+      getFailedLoginAttempts: client.getFailedLoginAttempts,
+      getAuditLog: client.getAuditLog,
+      getSessions: client.listSessions,
+      revokeSession,
+      revokeOtherSessions: client.revokeOtherSessions,
+      revokeUserSessions: client.revokeUserSessions,
+      exportPersonalData: client.exportPersonalData,
+      requestAccountDeletion,
+      users,
+      members,
+      switchOrganization,
+      createOrganization,
+      setMemberRole,
+      removeMember,
+      getInvitations,
+      inviteMember,
+      revokeInvitation,
+      previewInvitation: client.previewInvitation,
+      acceptInvitation,
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { Locale } from '../types';
+import { MessageKey, MessageParams, isLocale, matchLocale, translate } from '../i18n';
+import { AuthError } from '../services/authErrors';
+
+// --- I18n Context Setup ---
+
+type DateInput = string | number | Date;
+
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Like t, but placeholders may be filled with elements (e.g. a name in <strong>).
+  richText: (key: MessageKey, params: Record<string, React.ReactNode>) => React.ReactNode;
+  // The localized message for an AuthError's code; anything else gets the fallback.
+  describeError: (err: unknown, fallback?: MessageKey) => string;
+  formatDate: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: DateInput) => string;
+  formatTime: (value: DateInput) => string;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used within an I18nProvider');
+  return context;
+};
+
+const LOCALE_STORAGE_KEY = 'authsys_locale';
+
+const initialLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : matchLocale(navigator.languages ?? [navigator.language]);
+};
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+  // Fixes the starting locale instead of reading the saved choice or the browser's languages.
+  locale?: Locale;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children, locale: localeProp }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => localeProp ?? initialLocale());
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextType>(() => {
+    const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+    return {
+      locale,
+      setLocale,
+      t,
+      richText: (key, params) =>
+        translate(locale, key)
+          .split(/(\{\w+\})/)
+          .map((part, i) => {
+            const name = /^\{(\w+)\}$/.exec(part)?.[1];
+            return <React.Fragment key={i}>{name && name in params ? params[name] : part}</React.Fragment>;
+          }),
+      describeError: (err, fallback = 'errors.internal_error') => (err instanceof AuthError ? t(`errors.${err.code}` as const) : t(fallback)),
+      formatDate: (value, options) => new Date(value).toLocaleDateString(locale, options),
+      formatDateTime: (value) => new Date(value).toLocaleString(locale),
+      formatTime: (value) => new Date(value).toLocaleTimeString(locale),
+    };
+  }, [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
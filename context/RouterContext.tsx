@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+
+// --- Router Context Setup ---
+// A small history-API router: the path picks the page, and browser back/forward just work.
+// The dev server answers every unknown path with index.html, so deep links survive a refresh.
+
+interface NavigateOptions {
+  // Swap the current history entry instead of pushing one (redirects use this).
+  replace?: boolean;
+}
+
+interface RouterContextType {
+  path: string;
+  search: string;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (!context) throw new Error('useRouter must be used within a RouterProvider');
+  return context;
+};
+
+const currentLocation = () => ({ path: window.location.pathname, search: window.location.search });
+
+export const RouterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [location, setLocation] = useState(currentLocation);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(currentLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((to: string, { replace = false }: NavigateOptions = {}) => {
+    if (to === window.location.pathname + window.location.search) return;
+    if (replace) window.history.replaceState(null, '', to);
+    else window.history.pushState(null, '', to);
+    setLocation(currentLocation());
+    if (!replace) window.scrollTo(0, 0);
+  }, []);
+
+  const value = useMemo<RouterContextType>(() => ({ ...location, navigate }), [location, navigate]);
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+};
+
+// Redirects as soon as it renders; for guards that decide a page can't be shown.
+export const Navigate: React.FC<{ to: string }> = ({ to }) => {
+  const { navigate } = useRouter();
+  useEffect(() => navigate(to, { replace: true }), [navigate, to]);
+  return null;
+};
+
+// A real <a href> (so middle-click and "open in new tab" work) that navigates in place otherwise.
+export const Link: React.FC<React.AnchorHTMLAttributes<HTMLAnchorElement> & { to: string }> = ({ to, onClick, ...props }) => {
+  const { navigate } = useRouter();
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+  return <a href={to} onClick={handleClick} {...props} />;
+};
+
+// --- Redirect memory ---
+// Guarded pages send guests to /login?next=<where they were going>; only same-origin paths
+// are honoured so the parameter can't be used to bounce users off-site.
+
+export const withNext = (path: string, next: string) => `${path}?${new URLSearchParams({ next }).toString()}`;
+
+export const readNext = (search: string, fallback: string) => {
+  const next = new URLSearchParams(search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : fallback;
+};
@@ -0,0 +1,511 @@
+import { Messages } from './pt-BR';
+
+export const en: Messages = {
+  // --- Common ---
+  'common.processing': 'Processing...',
+  'common.cancel': 'Cancel',
+  'common.confirm': 'Confirm',
+  'common.continue': 'Continue',
+  'common.back': 'Back',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.refresh': 'Refresh',
+  'common.signOut': 'Sign out',
+  'common.name': 'Name',
+  'common.fullName': 'Full name',
+  'common.email': 'Email',
+  'common.password': 'Password',
+  'common.newPassword': 'New password',
+  'common.confirmPassword': 'Confirm password',
+  'common.saveNewPassword': 'Save new password',
+  'common.bio': 'Bio',
+  'common.yourBio': 'Your bio',
+  'common.emailPlaceholder': 'you@email.com',
+  'common.verificationCode': 'Verification code',
+  'common.operationFailed': 'The operation could not be completed.',
+  'common.passwordRequirements': 'The password does not meet all requirements.',
+  'common.passwordMismatch': 'The passwords do not match.',
+
+  // --- Layout ---
+  'layout.tagline': 'Secure System v1.0',
+  'layout.rights': 'AuthSys Pro. All rights reserved.',
+  'layout.language': 'Language',
+  'nav.dashboard': 'Dashboard',
+  'nav.profile': 'Profile',
+  'nav.users': 'Users',
+  'nav.sessions': 'Sessions',
+  'app.loading': 'Loading...',
+
+  // --- Login ---
+  'login.title': 'Welcome',
+  'login.subtitle': 'Sign in to your account to continue',
+  'login.twoFactorPrompt': 'Enter the 6-digit code from your authenticator app or a recovery code.',
+  'login.forgotPassword': 'Forgot your password?',
+  'login.retryIn': 'Try again in {time}.',
+  'login.verify': 'Verify',
+  'login.submit': 'Sign in',
+  'login.noAccount': "Don't have an account?",
+  'login.createAccount': 'Create a free account',
+  'login.error': 'Could not sign in.',
+  'login.orContinueWith': 'or continue with',
+  'login.withProvider': 'Sign in with {provider}',
+  'login.withPasskey': 'Sign in with a passkey',
+
+  // --- Register ---
+  'register.title': 'Create a new account',
+  'register.namePlaceholder': 'Jane Smith',
+  'register.emailPlaceholder': 'jane@example.com',
+  'register.passwordPlaceholder': 'At least {min} characters',
+  'register.fillAll': 'Fill in every field correctly.',
+  'register.next': 'Continue →',
+  'register.bioPlaceholder': 'Your bio will appear here...',
+  'register.submit': 'Finish sign-up',
+  'register.haveAccount': 'I already have an account',
+  'register.error': 'Could not create the account.',
+  'register.invitedTo': 'You were invited to join {organization} as {role}. Create your account to accept.',
+  'register.avatarLabel': 'Profile picture (optional)',
+
+  // --- Session & email notices ---
+  'session.expiresIn': 'Your session expires in {time} due to inactivity.',
+  'session.stay': 'Stay signed in',
+  'emailNotice.sent': 'We sent a new confirmation link to {email}.',
+  'emailNotice.pending': 'Confirm your email ({email}) with the link we sent you.',
+  'emailNotice.resend': 'Resend email',
+  'emailNotice.error': 'Could not resend the email.',
+
+  // --- Dashboard ---
+  'dashboard.greeting': 'Hello, {name}! 👋',
+  'dashboard.editProfile': 'Edit profile',
+  'dashboard.signOut': 'Sign out',
+  'dashboard.yourData': 'Your details',
+  'dashboard.userId': 'User ID',
+  'dashboard.memberSince': 'Member since',
+  'dashboard.online': 'Online',
+  'dashboard.ownRecord': 'Your record',
+  'dashboard.adminsOnly': 'Only administrators can see other users.',
+  'dashboard.usersTitle': 'User database',
+  'dashboard.totalRecords': 'Total records: {count}',
+  'dashboard.column.bio': 'Bio (preview)',
+  'dashboard.column.role': 'Role',
+  'dashboard.column.date': 'Date',
+  'dashboard.column.status': 'Status',
+  'dashboard.column.actions': 'Actions',
+  'dashboard.you': '(You)',
+  'dashboard.admin': 'Admin',
+  'dashboard.verified': '✓ Verified',
+  'dashboard.unverified': 'Not verified',
+  'dashboard.active': 'Active',
+  'dashboard.disabled': 'Disabled',
+  'dashboard.passwordChangePending': 'Password change pending',
+  'dashboard.manageUsers': 'Manage users →',
+  'adminUsers.title': 'User Administration',
+  'adminUsers.back': '← Back to dashboard',
+  'notFound.title': 'Page not found',
+  'notFound.message': 'Nothing lives at this address:',
+  'notFound.home': 'Go to the start page',
+
+  // --- Data table ---
+  'table.search': 'Search by name, email or bio',
+  'table.any': 'All',
+  'table.from': '{label} from',
+  'table.to': '{label} to',
+  'table.clear': 'Clear filters',
+  'table.empty': 'No records found.',
+  'table.range': '{from}–{to} of {total}',
+  'table.pageSize': 'Per page',
+  'table.previous': 'Previous',
+  'table.next': 'Next',
+  'table.page': 'Page {page} of {count}',
+
+  // --- Passwords ---
+  'password.strength.0': 'Very weak',
+  'password.strength.1': 'Weak',
+  'password.strength.2': 'Fair',
+  'password.strength.3': 'Strong',
+  'password.strength.4': 'Very strong',
+  'password.rule.length': 'At least {min} characters',
+  'password.rule.lowercase': 'One lowercase letter',
+  'password.rule.uppercase': 'One uppercase letter',
+  'password.rule.digit': 'One number',
+  'password.rule.symbol': 'One symbol (e.g. !@#$)',
+  'password.rule.personal': 'Does not contain your name or email',
+  'password.rule.common': 'Is not a common or leaked password',
+  'forcedPassword.title': 'Choose a new password',
+  'forcedPassword.subtitle': 'An administrator reset the password for {email}. Choose a new one to continue.',
+  'forcedPassword.error': 'Could not save the password.',
+
+  // --- Account recovery ---
+  'forgot.title': 'Forgot your password?',
+  'forgot.subtitle': "Enter your email and we'll send you a link to create a new password.",
+  'forgot.sent': 'If there is an account for {email}, you will receive an email with instructions shortly.',
+  'forgot.submit': 'Send link',
+  'forgot.back': 'Back to sign in',
+  'forgot.error': 'Could not request a password reset.',
+  'reset.title': 'Set a new password',
+  'reset.done': 'Your password has been reset.',
+  'reset.error': 'Could not reset the password.',
+  'verify.title': 'Email confirmation',
+  'verify.pending': 'Confirming...',
+  'verify.success': 'Email confirmed!',
+  'verify.error': 'Could not confirm the email.',
+
+  // --- Profile ---
+  'profile.title': 'My profile',
+  'profile.back': '← Back to dashboard',
+  'profile.details': 'Profile',
+  'profile.save': 'Save profile',
+  'profile.saved': 'Profile updated.',
+  'profile.saveError': 'Could not save the profile.',
+  'profile.changeEmail': 'Change email',
+  'profile.emailSaved': 'Email updated.',
+  'profile.emailError': 'Could not change the email.',
+  'profile.currentPassword': 'Current password',
+  'profile.confirmNewPassword': 'Confirm new password',
+  'profile.newPasswordRequirements': 'The new password does not meet all requirements.',
+  'profile.changePassword': 'Change password',
+  'profile.passwordSaved': 'Password changed.',
+  'profile.passwordError': 'Could not change the password.',
+  'profile.passkeys': 'Passkeys',
+  'profile.passkeysIntro': "Sign in without a password using this device's biometrics or PIN, or a security key.",
+  'profile.noPasskeys': 'No passkeys registered.',
+  'profile.passkeyCreated': 'Created {date}',
+  'profile.passkeyLastUsed': 'last used {date}',
+  'profile.passkeyNeverUsed': 'never used',
+  'profile.passkeyName': 'Name (optional)',
+  'profile.passkeyNamePlaceholder': 'e.g. Work laptop',
+  'profile.addPasskey': 'Add passkey',
+  'profile.passkeyAdded': 'Passkey added.',
+  'profile.renamePasskey': 'Rename passkey',
+  'profile.rename': 'Rename',
+  'profile.remove': 'Remove',
+  'profile.removePasskeyTitle': 'Remove the passkey "{name}"?',
+  'profile.removePasskeyMessage': 'It will no longer sign you in to this account. You may also delete it from the device.',
+  'profile.linkedAccounts': 'Linked accounts',
+  'profile.linkedAccountsIntro': 'Sign in with these accounts too, without typing your password.',
+  'profile.linkedAs': 'Linked as {email} on {date}',
+  'profile.notLinked': 'Not linked',
+  'profile.link': 'Link',
+  'profile.unlink': 'Unlink',
+  'profile.unlinkTitle': 'Unlink {provider}?',
+  'profile.unlinkMessage': 'You will no longer be able to sign in with this account until you link it again.',
+  'profile.noPasswordNotice': 'Your account has no password. To set one, use "Forgot your password?" on the sign-in page.',
+
+  // --- Avatar ---
+  'avatar.title': 'Profile picture',
+  'avatar.intro': 'Shown next to your name. Without one, we show your initial.',
+  'avatar.choose': 'Choose image',
+  'avatar.change': 'Change image',
+  'avatar.remove': 'Remove',
+  'avatar.hint': 'JPEG, PNG, WebP or GIF up to {max} MB. You crop a square next.',
+  'avatar.cropTitle': 'Adjust the picture',
+  'avatar.cropHint': 'Drag the image (or use the arrow keys) to position it and the slider to zoom in.',
+  'avatar.cropArea': 'Crop area',
+  'avatar.zoom': 'Zoom',
+  'avatar.apply': 'Use this picture',
+  'avatar.saved': 'Picture updated.',
+  'avatar.removed': 'Picture removed.',
+
+  // --- Bio generator ---
+  'bio.title': 'AI profile assistant',
+  'bio.intro': 'Tell us what you do and our AI will write a bio for you.',
+  'bio.interests': 'Interests or profession',
+  'bio.interestsPlaceholder': 'E.g. Front-end developer, coffee and React lover',
+  'bio.tone': 'Tone',
+  'bio.length': 'Length (up to {max})',
+  'bio.language': 'Language',
+  'bio.person': 'Voice',
+  'bio.generate': '✨ Generate bio with AI',
+  'bio.generateDrafts': '{count} options',
+  'bio.stop': '■ Stop',
+  'bio.missingFields': 'Fill in your name and interests to generate a bio.',
+  'bio.error': 'Could not generate a bio. Try writing one yourself.',
+  'bio.draftsLabel': 'Bio options',
+  'bio.draft': 'Option {number}:',
+  'bio.writing': 'writing...',
+  'bio.tone.professional': 'Professional',
+  'bio.tone.friendly': 'Friendly',
+  'bio.tone.creative': 'Creative',
+  'bio.tone.formal': 'Formal',
+  'bio.length.short': 'Short',
+  'bio.length.medium': 'Medium',
+  'bio.length.long': 'Long',
+  'bio.language.pt-BR': 'Portuguese',
+  'bio.language.en': 'English',
+  'bio.language.es': 'Spanish',
+  'bio.person.first': 'First person',
+  'bio.person.third': 'Third person',
+
+  // --- Two-factor ---
+  'twoFactor.title': 'Two-step verification',
+  'twoFactor.subtitle': '6-digit codes from an authenticator app (TOTP).',
+  'twoFactor.enabled': 'On',
+  'twoFactor.disabled': 'Off',
+  'twoFactor.scan': 'Scan the QR code with your authenticator app and enter the generated code to confirm.',
+  'twoFactor.manualKey': 'Or enter the key manually:',
+  'twoFactor.activate': 'Turn on',
+  'twoFactor.confirmPassword': 'Confirm your password',
+  'twoFactor.confirmCode': 'Authenticator app or recovery code',
+  'twoFactor.confirmDisable': 'Turn off 2FA',
+  'twoFactor.disable': 'Turn off',
+  'twoFactor.setup': 'Set up 2FA',
+  'twoFactor.recoveryIntro': 'Keep these recovery codes somewhere safe. Each one can be used once if you lose access to your authenticator app. They will not be shown again.',
+  'twoFactor.done': 'Done',
+
+  // --- User management ---
+  'users.editTitle': 'Edit {name}',
+  'users.saveError': 'Could not save.',
+  'users.edit': 'Edit',
+  'users.makeAdmin': 'Make admin',
+  'users.removeAdmin': 'Remove admin',
+  'users.activate': 'Enable',
+  'users.deactivate': 'Disable',
+  'users.resetPassword': 'Reset password',
+  'users.delete': 'Delete',
+  'users.role.admin': 'Administrator',
+  'users.role.user': 'User',
+  'users.roleTitle': 'Change role',
+  'users.roleMessage': "Change {name}'s role to {role}?",
+  'users.activateTitle': 'Enable account',
+  'users.activateMessage': "{name}'s account will be able to sign in again.",
+  'users.deactivateTitle': 'Disable account',
+  'users.deactivateMessage': "{name}'s account will be blocked and any open session will be ended.",
+  'users.resetMessage': 'A temporary password will be generated for {name}, who will have to choose a new one at the next sign-in.',
+  'users.resetConfirm': 'Generate temporary password',
+  'users.deleteTitle': 'Delete account',
+  'users.deleteMessage': 'Permanently delete {name} ({email})? This cannot be undone.',
+  'users.temporaryPasswordTitle': 'Temporary password',
+  'users.temporaryPasswordMessage': 'Send this password to {email}. It is only shown now.',
+  'users.endSessions': 'End sessions',
+  'users.endSessionsMessage': '{name} will be signed out on every device.',
+
+  // --- Sessions ---
+  'sessions.title': 'Active sessions',
+  'sessions.intro': 'The browsers and devices signed in to your account. End any you do not recognize.',
+  'sessions.thisDevice': 'This device',
+  'sessions.unknownDevice': 'Unknown device',
+  'sessions.activity': 'Signed in {started} · Last active {seen}',
+  'sessions.revoke': 'Revoke',
+  'sessions.revokeTitle': 'Revoke session',
+  'sessions.revokeMessage': 'The session on {device} will end and will have to sign in again.',
+  'sessions.revokeCurrentMessage': 'You will be signed out on this device.',
+  'sessions.signOutOthers': 'Sign out everywhere else',
+  'sessions.signOutOthersMessage': 'End the other {count} session(s)? This device stays signed in.',
+  'sessions.othersRevoked': '{count} session(s) ended.',
+
+  // --- Personal data ---
+  'privacy.title': 'Your data',
+  'privacy.exportIntro': 'Download a JSON file with everything we keep about you: profile, bio, organizations, sessions and activity.',
+  'privacy.export': 'Download my data',
+  'privacy.deleteTitle': 'Delete account',
+  'privacy.deleteIntro': 'Deletion stays pending for a grace period; signing in again before it ends cancels the request.',
+  'privacy.deleteMessage': 'You will be signed out on every device. When the grace period ends, your account and data are erased and activity records are anonymized. We will email you the date; to change your mind, just sign in again before then.',
+  'privacy.confirmPassword': 'Confirm with your password',
+  'privacy.confirmEmail': 'Type {email} to confirm',
+  'privacy.delete': 'Delete my account',
+
+  // --- Organizations ---
+  'organizations.switcherLabel': 'Organization',
+  'organizations.none': 'No organization',
+  'organizations.new': '+ New organization',
+  'organizations.createTitle': 'New organization',
+  'organizations.name': 'Organization name',
+  'organizations.namePlaceholder': 'Acme Inc.',
+  'organizations.create': 'Create organization',
+  'organizations.createError': 'Could not create the organization.',
+  'organizations.noneTitle': 'You are not in an organization yet',
+  'organizations.noneMessage': 'Create one to invite your team, or open an invitation link you received.',
+  'organizations.membersTitle': 'Members of {name}',
+  'organizations.summary': 'Members: {count} · Your role: {role}',
+  'organizations.column.joined': 'Joined',
+  'organizations.deletionPending': 'Deletion on {date}',
+  'organizations.role.owner': 'Owner',
+  'organizations.role.admin': 'Admin',
+  'organizations.role.member': 'Member',
+  'organizations.roleTitle': 'Change organization role',
+  'organizations.roleMessage': "Change {name}'s role to {role}?",
+  'organizations.remove': 'Remove',
+  'organizations.removeTitle': 'Remove member',
+  'organizations.removeMessage': 'Remove {name} from {organization}?',
+  'organizations.leave': 'Leave',
+  'organizations.leaveTitle': 'Leave organization',
+  'organizations.leaveMessage': 'Leave {organization}? You will need a new invitation to come back.',
+  'organizations.invitationsTitle': 'Invitations',
+  'organizations.invitationsIntro': 'Invite people by email. The link is valid for a few days and works only once.',
+  'organizations.invite': 'Send invitation',
+  'organizations.invited': 'Invitation sent to {email}.',
+  'organizations.inviteError': 'Could not send the invitation.',
+  'organizations.noInvitations': 'No pending invitations.',
+  'organizations.invitationExpires': 'expires {date}',
+  'organizations.revoke': 'Revoke',
+  'organizations.revokeTitle': 'Revoke invitation',
+  'organizations.revokeMessage': 'The link sent to {email} will stop working.',
+  'invitation.title': 'Organization invitation',
+  'invitation.loading': 'Checking invitation...',
+  'invitation.message': 'You were invited to join {organization} as {role}.',
+  'invitation.details': 'Invitation for {email}, valid until {date}.',
+  'invitation.accept': 'Join organization',
+  'invitation.decline': 'Not now',
+  'invitation.error': 'Could not accept the invitation.',
+
+  // --- Import / export ---
+  'import.open': 'Import',
+  'import.title': 'Import users',
+  'import.intro': 'Upload a CSV with a header row or a JSON list. Check the column mapping and validate before importing: nothing is saved if any row has problems.',
+  'import.file': 'File (.csv or .json)',
+  'import.mappingTitle': '{file}: {count} row(s)',
+  'import.unmapped': '— do not import —',
+  'import.field.name': 'Name',
+  'import.field.email': 'Email',
+  'import.field.bio': 'Bio',
+  'import.field.role': 'Role',
+  'import.field.status': 'Status',
+  'import.previewMore': 'and {count} more row(s)',
+  'import.dryRun': 'Validate (dry run)',
+  'import.commit': 'Import {count} user(s)',
+  'import.validSummary': 'All {count} row(s) can be imported.',
+  'import.invalidSummary': '{invalid} of {total} row(s) have problems. Fix the file and try again.',
+  'import.rowLabel': 'Row {number}',
+  'import.done': '{count} user(s) imported.',
+  'import.resetNotice': 'Imported accounts have no password: each person must use "Forgot your password?" on the sign-in screen to set one.',
+  'import.error': 'Could not import the users.',
+  'export.csv': 'Export CSV',
+  'export.json': 'Export JSON',
+
+  // --- Failed logins ---
+  'failedLogins.title': 'Failed sign-in attempts',
+  'failedLogins.subtitle': 'The {count} most recent',
+  'failedLogins.empty': 'No failed attempts recorded.',
+  'failedLogins.client': 'client {id}',
+  'failedLogins.reason.invalid_credentials': 'Invalid credentials',
+  'failedLogins.reason.invalid_two_factor': 'Invalid 2FA code',
+  'failedLogins.reason.throttled': 'Blocked (too many attempts)',
+  'failedLogins.reason.disabled': 'Account disabled',
+
+  // --- Audit ---
+  'audit.activity': 'Activity',
+  'audit.lastDays': 'Last {days} days',
+  'audit.title': 'Audit log',
+  'audit.count': '{shown} of {total} events',
+  'audit.export': 'Export CSV',
+  'audit.search': 'Search',
+  'audit.searchPlaceholder': 'Name, email or detail',
+  'audit.type': 'Type',
+  'audit.allTypes': 'All',
+  'audit.from': 'From',
+  'audit.to': 'To',
+  'audit.empty': 'No events found.',
+  'audit.removed': '{who} (removed)',
+  'audit.column.date': 'Date',
+  'audit.column.event': 'Event',
+  'audit.column.actor': 'Actor',
+  'audit.column.target': 'Target',
+  'audit.column.details': 'Details',
+  'audit.event.register': 'Sign-up',
+  'audit.event.login': 'Sign-in',
+  'audit.event.login_failed': 'Failed sign-in',
+  'audit.event.logout': 'Sign-out',
+  'audit.event.password_changed': 'Password changed',
+  'audit.event.password_reset_requested': 'Reset requested',
+  'audit.event.password_reset': 'Password reset',
+  'audit.event.password_reset_forced': 'Forced reset',
+  'audit.event.email_verification_sent': 'Confirmation sent',
+  'audit.event.email_verified': 'Email confirmed',
+  'audit.event.profile_updated': 'Profile updated',
+  'audit.event.two_factor_enabled': '2FA turned on',
+  'audit.event.two_factor_disabled': '2FA turned off',
+  'audit.event.user_updated': 'User edited',
+  'audit.event.role_changed': 'Role changed',
+  'audit.event.status_changed': 'Status changed',
+  'audit.event.user_deleted': 'User deleted',
+  'audit.event.user_imported': 'User imported',
+  'audit.event.provider_linked': 'Provider linked',
+  'audit.event.provider_unlinked': 'Provider unlinked',
+  'audit.event.passkey_registered': 'Passkey registered',
+  'audit.event.passkey_removed': 'Passkey removed',
+  'audit.event.organization_created': 'Organization created',
+  'audit.event.member_invited': 'Member invited',
+  'audit.event.invitation_revoked': 'Invitation revoked',
+  'audit.event.member_joined': 'Joined organization',
+  'audit.event.member_role_changed': 'Organization role changed',
+  'audit.event.member_removed': 'Left organization',
+  'audit.event.session_revoked': 'Session revoked',
+  'audit.event.sessions_revoked': 'Sessions revoked',
+  'audit.event.data_exported': 'Personal data exported',
+  'audit.event.deletion_requested': 'Account deletion requested',
+  'audit.event.deletion_cancelled': 'Account deletion cancelled',
+  'audit.event.account_purged': 'Account permanently deleted',
+
+  // --- Dev outbox ---
+  'outbox.button': 'Outbox',
+  'outbox.title': 'Outbox (dev)',
+  'outbox.subtitle': 'Simulated emails; nothing is actually sent.',
+  'outbox.clear': 'Clear',
+  'outbox.empty': 'No messages.',
+  'outbox.to': 'To: {to}',
+  'outbox.openLink': 'Open link →',
+
+  // --- Emails ---
+  'mail.verifyEmail.subject': 'Confirm your email - AuthSys Pro',
+  'mail.verifyEmail.body': 'Hi, {name}! Confirm your email address with the link below. It can only be used once and expires in {hours} hour(s).',
+  'mail.resetPassword.subject': 'Password reset - AuthSys Pro',
+  'mail.resetPassword.body': "Hi, {name}! We received a request to reset your password. If it wasn't you, ignore this message. The link expires in {minutes} minutes.",
+  'mail.invitation.subject': 'Invitation to {organization} - AuthSys Pro',
+  'mail.invitation.body': '{inviter} invited you to join {organization}. The invitation expires in {days} day(s).',
+  'mail.deletion.subject': 'Account deletion scheduled - AuthSys Pro',
+  'mail.deletion.body': 'Hi, {name}! Your account and data will be deleted in {days} day(s). To cancel, just sign in again before then.',
+
+  // --- Errors (one per AuthErrorCode) ---
+  'errors.invalid_request': 'Invalid request.',
+  'errors.invalid_credentials': 'Invalid credentials.',
+  'errors.account_disabled': 'This account is disabled.',
+  'errors.login_throttled': 'Too many attempts. Wait before trying again.',
+  'errors.account_locked': 'Account temporarily locked after too many attempts.',
+  'errors.two_factor_challenge_expired': 'The verification expired. Sign in again.',
+  'errors.invalid_two_factor_code': 'Invalid verification code.',
+  'errors.two_factor_already_enabled': 'Two-step verification is already on.',
+  'errors.two_factor_enrollment_expired': 'Start the setup again.',
+  'errors.session_expired': 'Session expired.',
+  'errors.permission_denied': 'Permission denied.',
+  'errors.user_not_found': 'User not found.',
+  'errors.email_taken': 'This email is already registered.',
+  'errors.invalid_name': 'Enter a name.',
+  'errors.invalid_email': 'Invalid email.',
+  'errors.duplicate_email': 'This email appears more than once in the file.',
+  'errors.invalid_value': 'Value not allowed.',
+  'errors.invalid_import_file': 'Could not read the file. Use CSV with a header row or a JSON list of objects.',
+  'errors.email_already_verified': 'Your email is already confirmed.',
+  'errors.weak_password': 'The password does not meet the password policy.',
+  'errors.wrong_current_password': 'The current password is incorrect.',
+  'errors.invalid_link': 'Invalid or expired link.',
+  'errors.last_admin': 'The system needs at least one active administrator.',
+  'errors.cannot_disable_self': 'You cannot disable your own account.',
+  'errors.cannot_delete_self': 'You cannot delete your own account.',
+  'errors.rate_limited': 'Too many requests. Wait a moment and try again.',
+  'errors.payload_too_large': 'The data sent is too large.',
+  'errors.unsafe_input': 'The text contains instructions that are not allowed.',
+  'errors.ai_unavailable': 'The bio generator is unavailable right now.',
+  'errors.ai_quota_exceeded': 'The AI provider quota is used up. Try again later.',
+  'errors.ai_safety_blocked': "The AI provider's safety filters refused the request. Rephrase your interests.",
+  'errors.oauth_failed': 'Could not sign in with the provider. Please try again.',
+  'errors.identity_in_use': 'This provider account is already linked to another user.',
+  'errors.identity_email_unverified': 'An account with this email already exists, but the provider has not verified the address. Sign in with your password and link the provider from your profile.',
+  'errors.provider_not_linked': 'This provider is not linked to your account.',
+  'errors.last_sign_in_method': 'This is the only way into your account. Set a password or add another sign-in method before removing it.',
+  'errors.invalid_passkey': 'The passkey could not be verified.',
+  'errors.passkey_challenge_expired': 'The passkey request expired. Please try again.',
+  'errors.passkey_not_found': 'Passkey not found.',
+  'errors.passkey_unsupported': 'This browser does not support passkeys.',
+  'errors.passkey_cancelled': 'The passkey prompt was cancelled.',
+  'errors.organization_not_found': 'Organization not found.',
+  'errors.invalid_invitation': 'Invalid or expired invitation.',
+  'errors.invitation_email_mismatch': 'This invitation was sent to a different email.',
+  'errors.already_member': 'This person is already a member of the organization.',
+  'errors.last_owner': 'The organization needs at least one owner.',
+  'errors.session_not_found': 'Session not found.',
+  'errors.deletion_not_confirmed': "Type your account's email to confirm the deletion.",
+  'errors.invalid_avatar': 'The image could not be read.',
+  'errors.avatar_unsupported_type': 'Use a JPEG, PNG, WebP or GIF image.',
+  'errors.avatar_too_large': 'The image is larger than allowed.',
+  'errors.network_error': 'Could not reach the server. Check your connection.',
+  'errors.internal_error': 'Unexpected error. Try again.',
+};
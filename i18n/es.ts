@@ -0,0 +1,511 @@
+import { Messages } from './pt-BR';
+
+export const es: Messages = {
+  // --- Common ---
+  'common.processing': 'Procesando...',
+  'common.cancel': 'Cancelar',
+  'common.confirm': 'Confirmar',
+  'common.continue': 'Continuar',
+  'common.back': 'Volver',
+  'common.save': 'Guardar',
+  'common.close': 'Cerrar',
+  'common.refresh': 'Actualizar',
+  'common.signOut': 'Salir',
+  'common.name': 'Nombre',
+  'common.fullName': 'Nombre completo',
+  'common.email': 'Correo',
+  'common.password': 'Contraseña',
+  'common.newPassword': 'Nueva contraseña',
+  'common.confirmPassword': 'Confirmar contraseña',
+  'common.saveNewPassword': 'Guardar nueva contraseña',
+  'common.bio': 'Bio',
+  'common.yourBio': 'Tu bio',
+  'common.emailPlaceholder': 'tu@correo.com',
+  'common.verificationCode': 'Código de verificación',
+  'common.operationFailed': 'No se pudo completar la operación.',
+  'common.passwordRequirements': 'La contraseña no cumple todos los requisitos.',
+  'common.passwordMismatch': 'Las contraseñas no coinciden.',
+
+  // --- Layout ---
+  'layout.tagline': 'Sistema Seguro v1.0',
+  'layout.rights': 'AuthSys Pro. Todos los derechos reservados.',
+  'layout.language': 'Idioma',
+  'nav.dashboard': 'Panel',
+  'nav.profile': 'Perfil',
+  'nav.users': 'Usuarios',
+  'nav.sessions': 'Sesiones',
+  'app.loading': 'Cargando sistema...',
+
+  // --- Login ---
+  'login.title': 'Bienvenido',
+  'login.subtitle': 'Inicia sesión en tu cuenta para continuar',
+  'login.twoFactorPrompt': 'Introduce el código de 6 dígitos de tu aplicación de autenticación o un código de recuperación.',
+  'login.forgotPassword': '¿Olvidaste tu contraseña?',
+  'login.retryIn': 'Inténtalo de nuevo en {time}.',
+  'login.verify': 'Verificar',
+  'login.submit': 'Iniciar sesión',
+  'login.noAccount': '¿No tienes cuenta?',
+  'login.createAccount': 'Crear cuenta gratuita',
+  'login.error': 'Error al iniciar sesión.',
+  'login.orContinueWith': 'o continúa con',
+  'login.withProvider': 'Entrar con {provider}',
+  'login.withPasskey': 'Entrar con passkey',
+
+  // --- Register ---
+  'register.title': 'Crear nueva cuenta',
+  'register.namePlaceholder': 'Juan Pérez',
+  'register.emailPlaceholder': 'juan@ejemplo.com',
+  'register.passwordPlaceholder': 'Mínimo {min} caracteres',
+  'register.fillAll': 'Completa todos los campos correctamente.',
+  'register.next': 'Continuar →',
+  'register.bioPlaceholder': 'Tu bio aparecerá aquí...',
+  'register.submit': 'Finalizar registro',
+  'register.haveAccount': 'Ya tengo cuenta',
+  'register.error': 'Error al registrarse.',
+  'register.invitedTo': 'Te invitaron a unirte a {organization} como {role}. Crea tu cuenta para aceptar.',
+  'register.avatarLabel': 'Foto de perfil (opcional)',
+
+  // --- Session & email notices ---
+  'session.expiresIn': 'Tu sesión expira en {time} por inactividad.',
+  'session.stay': 'Seguir conectado',
+  'emailNotice.sent': 'Enviamos un nuevo enlace de confirmación a {email}.',
+  'emailNotice.pending': 'Confirma tu correo ({email}) con el enlace que te enviamos.',
+  'emailNotice.resend': 'Reenviar correo',
+  'emailNotice.error': 'Error al reenviar el correo.',
+
+  // --- Dashboard ---
+  'dashboard.greeting': '¡Hola, {name}! 👋',
+  'dashboard.editProfile': 'Editar perfil',
+  'dashboard.signOut': 'Cerrar sesión',
+  'dashboard.yourData': 'Tus datos',
+  'dashboard.userId': 'ID de usuario',
+  'dashboard.memberSince': 'Miembro desde',
+  'dashboard.online': 'En línea',
+  'dashboard.ownRecord': 'Tu registro',
+  'dashboard.adminsOnly': 'Solo los administradores ven a los demás usuarios.',
+  'dashboard.usersTitle': 'Base de datos de usuarios',
+  'dashboard.totalRecords': 'Total de registros: {count}',
+  'dashboard.column.bio': 'Bio (vista previa)',
+  'dashboard.column.role': 'Rol',
+  'dashboard.column.date': 'Fecha',
+  'dashboard.column.status': 'Estado',
+  'dashboard.column.actions': 'Acciones',
+  'dashboard.you': '(Tú)',
+  'dashboard.admin': 'Admin',
+  'dashboard.verified': '✓ Verificado',
+  'dashboard.unverified': 'No verificado',
+  'dashboard.active': 'Activo',
+  'dashboard.disabled': 'Desactivado',
+  'dashboard.passwordChangePending': 'Cambio de contraseña pendiente',
+  'dashboard.manageUsers': 'Gestionar usuarios →',
+  'adminUsers.title': 'Administración de Usuarios',
+  'adminUsers.back': '← Volver al panel',
+  'notFound.title': 'Página no encontrada',
+  'notFound.message': 'No hay nada en esta dirección:',
+  'notFound.home': 'Ir al inicio',
+
+  // --- Data table ---
+  'table.search': 'Buscar por nombre, correo o bio',
+  'table.any': 'Todos',
+  'table.from': '{label} desde',
+  'table.to': '{label} hasta',
+  'table.clear': 'Limpiar filtros',
+  'table.empty': 'No se encontraron registros.',
+  'table.range': '{from}–{to} de {total}',
+  'table.pageSize': 'Por página',
+  'table.previous': 'Anterior',
+  'table.next': 'Siguiente',
+  'table.page': 'Página {page} de {count}',
+
+  // --- Passwords ---
+  'password.strength.0': 'Muy débil',
+  'password.strength.1': 'Débil',
+  'password.strength.2': 'Aceptable',
+  'password.strength.3': 'Fuerte',
+  'password.strength.4': 'Muy fuerte',
+  'password.rule.length': 'Al menos {min} caracteres',
+  'password.rule.lowercase': 'Una letra minúscula',
+  'password.rule.uppercase': 'Una letra mayúscula',
+  'password.rule.digit': 'Un número',
+  'password.rule.symbol': 'Un símbolo (ej.: !@#$)',
+  'password.rule.personal': 'No contener tu nombre ni tu correo',
+  'password.rule.common': 'No ser una contraseña común o filtrada',
+  'forcedPassword.title': 'Define una nueva contraseña',
+  'forcedPassword.subtitle': 'Un administrador restableció la contraseña de {email}. Elige una nueva para continuar.',
+  'forcedPassword.error': 'Error al guardar la contraseña.',
+
+  // --- Account recovery ---
+  'forgot.title': '¿Olvidaste tu contraseña?',
+  'forgot.subtitle': 'Indica tu correo y te enviaremos un enlace para crear una nueva contraseña.',
+  'forgot.sent': 'Si existe una cuenta para {email}, recibirás un correo con las instrucciones en unos instantes.',
+  'forgot.submit': 'Enviar enlace',
+  'forgot.back': 'Volver al inicio de sesión',
+  'forgot.error': 'Error al solicitar el restablecimiento.',
+  'reset.title': 'Definir nueva contraseña',
+  'reset.done': 'Contraseña restablecida correctamente.',
+  'reset.error': 'Error al restablecer la contraseña.',
+  'verify.title': 'Confirmación de correo',
+  'verify.pending': 'Confirmando...',
+  'verify.success': '¡Correo confirmado!',
+  'verify.error': 'No se pudo confirmar el correo.',
+
+  // --- Profile ---
+  'profile.title': 'Mi perfil',
+  'profile.back': '← Volver al panel',
+  'profile.details': 'Perfil',
+  'profile.save': 'Guardar perfil',
+  'profile.saved': 'Perfil actualizado.',
+  'profile.saveError': 'Error al guardar el perfil.',
+  'profile.changeEmail': 'Cambiar correo',
+  'profile.emailSaved': 'Correo actualizado.',
+  'profile.emailError': 'Error al cambiar el correo.',
+  'profile.currentPassword': 'Contraseña actual',
+  'profile.confirmNewPassword': 'Confirmar nueva contraseña',
+  'profile.newPasswordRequirements': 'La nueva contraseña no cumple todos los requisitos.',
+  'profile.changePassword': 'Cambiar contraseña',
+  'profile.passwordSaved': 'Contraseña cambiada.',
+  'profile.passwordError': 'Error al cambiar la contraseña.',
+  'profile.passkeys': 'Passkeys',
+  'profile.passkeysIntro': 'Inicia sesión sin contraseña con la biometría o el PIN de este dispositivo o con una llave de seguridad.',
+  'profile.noPasskeys': 'No hay passkeys registradas.',
+  'profile.passkeyCreated': 'Creada el {date}',
+  'profile.passkeyLastUsed': 'último uso el {date}',
+  'profile.passkeyNeverUsed': 'nunca usada',
+  'profile.passkeyName': 'Nombre (opcional)',
+  'profile.passkeyNamePlaceholder': 'Ej: Portátil del trabajo',
+  'profile.addPasskey': 'Agregar passkey',
+  'profile.passkeyAdded': 'Passkey agregada.',
+  'profile.renamePasskey': 'Renombrar passkey',
+  'profile.rename': 'Renombrar',
+  'profile.remove': 'Eliminar',
+  'profile.removePasskeyTitle': '¿Eliminar la passkey "{name}"?',
+  'profile.removePasskeyMessage': 'Ya no servirá para iniciar sesión en esta cuenta. Si quieres, bórrala también del dispositivo.',
+  'profile.linkedAccounts': 'Cuentas vinculadas',
+  'profile.linkedAccountsIntro': 'Inicia sesión también con estas cuentas, sin escribir tu contraseña.',
+  'profile.linkedAs': 'Vinculada como {email} el {date}',
+  'profile.notLinked': 'No vinculada',
+  'profile.link': 'Vincular',
+  'profile.unlink': 'Desvincular',
+  'profile.unlinkTitle': '¿Desvincular {provider}?',
+  'profile.unlinkMessage': 'Ya no podrás iniciar sesión con esta cuenta hasta que la vuelvas a vincular.',
+  'profile.noPasswordNotice': 'Tu cuenta no tiene contraseña. Para definirla, usa "¿Olvidaste tu contraseña?" en la pantalla de inicio de sesión.',
+
+  // --- Avatar ---
+  'avatar.title': 'Foto de perfil',
+  'avatar.intro': 'Aparece junto a tu nombre. Sin foto, mostramos tu inicial.',
+  'avatar.choose': 'Elegir imagen',
+  'avatar.change': 'Cambiar imagen',
+  'avatar.remove': 'Quitar',
+  'avatar.hint': 'JPEG, PNG, WebP o GIF de hasta {max} MB. Después recortas un cuadrado.',
+  'avatar.cropTitle': 'Ajustar la foto',
+  'avatar.cropHint': 'Arrastra la imagen (o usa las flechas) para colocarla y el control para acercar.',
+  'avatar.cropArea': 'Área de recorte',
+  'avatar.zoom': 'Zoom',
+  'avatar.apply': 'Usar esta foto',
+  'avatar.saved': 'Foto actualizada.',
+  'avatar.removed': 'Foto quitada.',
+
+  // --- Bio generator ---
+  'bio.title': 'Asistente de perfil con IA',
+  'bio.intro': 'Cuéntanos a qué te dedicas y nuestra IA escribirá una bio para ti.',
+  'bio.interests': 'Intereses o profesión',
+  'bio.interestsPlaceholder': 'Ej.: Desarrollador front-end, amante del café y de React',
+  'bio.tone': 'Tono',
+  'bio.length': 'Longitud (hasta {max})',
+  'bio.language': 'Idioma',
+  'bio.person': 'Narración',
+  'bio.generate': '✨ Generar bio con IA',
+  'bio.generateDrafts': '{count} opciones',
+  'bio.stop': '■ Detener',
+  'bio.missingFields': 'Completa el nombre y los intereses para generar la bio.',
+  'bio.error': 'No se pudo generar la bio. Intenta escribirla tú.',
+  'bio.draftsLabel': 'Opciones de bio',
+  'bio.draft': 'Opción {number}:',
+  'bio.writing': 'escribiendo...',
+  'bio.tone.professional': 'Profesional',
+  'bio.tone.friendly': 'Cercano',
+  'bio.tone.creative': 'Creativo',
+  'bio.tone.formal': 'Formal',
+  'bio.length.short': 'Corta',
+  'bio.length.medium': 'Media',
+  'bio.length.long': 'Larga',
+  'bio.language.pt-BR': 'Portugués',
+  'bio.language.en': 'Inglés',
+  'bio.language.es': 'Español',
+  'bio.person.first': '1.ª persona',
+  'bio.person.third': '3.ª persona',
+
+  // --- Two-factor ---
+  'twoFactor.title': 'Verificación en dos pasos',
+  'twoFactor.subtitle': 'Códigos de 6 dígitos de una app de autenticación (TOTP).',
+  'twoFactor.enabled': 'Activa',
+  'twoFactor.disabled': 'Inactiva',
+  'twoFactor.scan': 'Escanea el código QR con tu aplicación de autenticación e introduce el código generado para confirmar.',
+  'twoFactor.manualKey': 'O introduce la clave manualmente:',
+  'twoFactor.activate': 'Activar',
+  'twoFactor.confirmPassword': 'Confirma tu contraseña',
+  'twoFactor.confirmCode': 'Código de la app de autenticación o de recuperación',
+  'twoFactor.confirmDisable': 'Desactivar 2FA',
+  'twoFactor.disable': 'Desactivar',
+  'twoFactor.setup': 'Configurar 2FA',
+  'twoFactor.recoveryIntro': 'Guarda estos códigos de recuperación en un lugar seguro. Cada uno puede usarse una sola vez si pierdes el acceso a tu aplicación de autenticación. No se volverán a mostrar.',
+  'twoFactor.done': 'Listo',
+
+  // --- User management ---
+  'users.editTitle': 'Editar {name}',
+  'users.saveError': 'Error al guardar.',
+  'users.edit': 'Editar',
+  'users.makeAdmin': 'Hacer admin',
+  'users.removeAdmin': 'Quitar admin',
+  'users.activate': 'Activar',
+  'users.deactivate': 'Desactivar',
+  'users.resetPassword': 'Restablecer contraseña',
+  'users.delete': 'Eliminar',
+  'users.role.admin': 'Administrador',
+  'users.role.user': 'Usuario',
+  'users.roleTitle': 'Cambiar rol',
+  'users.roleMessage': '¿Cambiar el rol de {name} a {role}?',
+  'users.activateTitle': 'Activar cuenta',
+  'users.activateMessage': 'La cuenta de {name} podrá volver a iniciar sesión.',
+  'users.deactivateTitle': 'Desactivar cuenta',
+  'users.deactivateMessage': 'La cuenta de {name} quedará bloqueada y se cerrará cualquier sesión abierta.',
+  'users.resetMessage': 'Se generará una contraseña temporal para {name}, que deberá elegir una nueva en el próximo acceso.',
+  'users.resetConfirm': 'Generar contraseña temporal',
+  'users.deleteTitle': 'Eliminar cuenta',
+  'users.deleteMessage': '¿Eliminar permanentemente a {name} ({email})? Esta acción no se puede deshacer.',
+  'users.temporaryPasswordTitle': 'Contraseña temporal',
+  'users.temporaryPasswordMessage': 'Envía esta contraseña a {email}. Solo se mostrará ahora.',
+  'users.endSessions': 'Cerrar sesiones',
+  'users.endSessionsMessage': 'Se cerrará la sesión de {name} en todos los dispositivos.',
+
+  // --- Sessions ---
+  'sessions.title': 'Sesiones activas',
+  'sessions.intro': 'Los navegadores y dispositivos con sesión iniciada en tu cuenta. Cierra los que no reconozcas.',
+  'sessions.thisDevice': 'Este dispositivo',
+  'sessions.unknownDevice': 'Dispositivo desconocido',
+  'sessions.activity': 'Inició sesión el {started} · Última actividad el {seen}',
+  'sessions.revoke': 'Cerrar',
+  'sessions.revokeTitle': 'Cerrar sesión remota',
+  'sessions.revokeMessage': 'La sesión en {device} se cerrará y tendrá que iniciar sesión de nuevo.',
+  'sessions.revokeCurrentMessage': 'Se cerrará la sesión en este dispositivo.',
+  'sessions.signOutOthers': 'Cerrar todas las demás',
+  'sessions.signOutOthersMessage': '¿Cerrar las otras {count} sesión(es)? Este dispositivo sigue conectado.',
+  'sessions.othersRevoked': '{count} sesión(es) cerrada(s).',
+
+  // --- Personal data ---
+  'privacy.title': 'Tus datos',
+  'privacy.exportIntro': 'Descarga un archivo JSON con todo lo que guardamos sobre ti: perfil, bio, organizaciones, sesiones y actividad.',
+  'privacy.export': 'Descargar mis datos',
+  'privacy.deleteTitle': 'Eliminar cuenta',
+  'privacy.deleteIntro': 'La eliminación queda pendiente durante un período de gracia; volver a iniciar sesión antes de que termine cancela la solicitud.',
+  'privacy.deleteMessage': 'Se cerrará tu sesión en todos los dispositivos. Al terminar el período de gracia, tu cuenta y tus datos se borran y los registros de actividad se anonimizan. Te enviaremos la fecha por email; para desistir, basta con iniciar sesión antes.',
+  'privacy.confirmPassword': 'Confirma con tu contraseña',
+  'privacy.confirmEmail': 'Escribe {email} para confirmar',
+  'privacy.delete': 'Eliminar mi cuenta',
+
+  // --- Organizations ---
+  'organizations.switcherLabel': 'Organización',
+  'organizations.none': 'Sin organización',
+  'organizations.new': '+ Nueva organización',
+  'organizations.createTitle': 'Nueva organización',
+  'organizations.name': 'Nombre de la organización',
+  'organizations.namePlaceholder': 'Acme S.A.',
+  'organizations.create': 'Crear organización',
+  'organizations.createError': 'No se pudo crear la organización.',
+  'organizations.noneTitle': 'Todavía no perteneces a ninguna organización',
+  'organizations.noneMessage': 'Crea una para invitar a tu equipo, o abre un enlace de invitación que hayas recibido.',
+  'organizations.membersTitle': 'Miembros de {name}',
+  'organizations.summary': 'Miembros: {count} · Tu rol: {role}',
+  'organizations.column.joined': 'Se unió',
+  'organizations.deletionPending': 'Eliminación el {date}',
+  'organizations.role.owner': 'Propietario',
+  'organizations.role.admin': 'Administrador',
+  'organizations.role.member': 'Miembro',
+  'organizations.roleTitle': 'Cambiar rol en la organización',
+  'organizations.roleMessage': '¿Cambiar el rol de {name} a {role}?',
+  'organizations.remove': 'Quitar',
+  'organizations.removeTitle': 'Quitar miembro',
+  'organizations.removeMessage': '¿Quitar a {name} de {organization}?',
+  'organizations.leave': 'Salir',
+  'organizations.leaveTitle': 'Salir de la organización',
+  'organizations.leaveMessage': '¿Salir de {organization}? Para volver necesitarás una nueva invitación.',
+  'organizations.invitationsTitle': 'Invitaciones',
+  'organizations.invitationsIntro': 'Invita a personas por email. El enlace vale unos días y solo se puede usar una vez.',
+  'organizations.invite': 'Enviar invitación',
+  'organizations.invited': 'Invitación enviada a {email}.',
+  'organizations.inviteError': 'No se pudo enviar la invitación.',
+  'organizations.noInvitations': 'No hay invitaciones pendientes.',
+  'organizations.invitationExpires': 'vence el {date}',
+  'organizations.revoke': 'Revocar',
+  'organizations.revokeTitle': 'Revocar invitación',
+  'organizations.revokeMessage': 'El enlace enviado a {email} dejará de funcionar.',
+  'invitation.title': 'Invitación a una organización',
+  'invitation.loading': 'Verificando invitación...',
+  'invitation.message': 'Te invitaron a unirte a {organization} como {role}.',
+  'invitation.details': 'Invitación para {email}, válida hasta el {date}.',
+  'invitation.accept': 'Unirme a la organización',
+  'invitation.decline': 'Ahora no',
+  'invitation.error': 'No se pudo aceptar la invitación.',
+
+  // --- Import / export ---
+  'import.open': 'Importar',
+  'import.title': 'Importar usuarios',
+  'import.intro': 'Sube un CSV con encabezado o una lista JSON. Revisa la asignación de columnas y valida antes de importar: no se guarda nada si alguna fila tiene problemas.',
+  'import.file': 'Archivo (.csv o .json)',
+  'import.mappingTitle': '{file}: {count} fila(s)',
+  'import.unmapped': '— no importar —',
+  'import.field.name': 'Nombre',
+  'import.field.email': 'Correo',
+  'import.field.bio': 'Bio',
+  'import.field.role': 'Rol',
+  'import.field.status': 'Estado',
+  'import.previewMore': 'y {count} fila(s) más',
+  'import.dryRun': 'Validar (simulación)',
+  'import.commit': 'Importar {count} usuario(s)',
+  'import.validSummary': 'Las {count} fila(s) se pueden importar.',
+  'import.invalidSummary': '{invalid} de {total} fila(s) con problemas. Corrige el archivo e inténtalo de nuevo.',
+  'import.rowLabel': 'Fila {number}',
+  'import.done': '{count} usuario(s) importado(s).',
+  'import.resetNotice': 'Las cuentas importadas no tienen contraseña: cada persona debe usar "¿Olvidaste tu contraseña?" en la pantalla de inicio de sesión para definirla.',
+  'import.error': 'No se pudieron importar los usuarios.',
+  'export.csv': 'Exportar CSV',
+  'export.json': 'Exportar JSON',
+
+  // --- Failed logins ---
+  'failedLogins.title': 'Intentos de inicio de sesión fallidos',
+  'failedLogins.subtitle': 'Los {count} más recientes',
+  'failedLogins.empty': 'No hay intentos fallidos registrados.',
+  'failedLogins.client': 'cliente {id}',
+  'failedLogins.reason.invalid_credentials': 'Credenciales inválidas',
+  'failedLogins.reason.invalid_two_factor': 'Código 2FA inválido',
+  'failedLogins.reason.throttled': 'Bloqueado (demasiados intentos)',
+  'failedLogins.reason.disabled': 'Cuenta desactivada',
+
+  // --- Audit ---
+  'audit.activity': 'Actividad',
+  'audit.lastDays': 'Últimos {days} días',
+  'audit.title': 'Registro de auditoría',
+  'audit.count': '{shown} de {total} eventos',
+  'audit.export': 'Exportar CSV',
+  'audit.search': 'Buscar',
+  'audit.searchPlaceholder': 'Nombre, correo o detalle',
+  'audit.type': 'Tipo',
+  'audit.allTypes': 'Todos',
+  'audit.from': 'Desde',
+  'audit.to': 'Hasta',
+  'audit.empty': 'No se encontraron eventos.',
+  'audit.removed': '{who} (eliminado)',
+  'audit.column.date': 'Fecha',
+  'audit.column.event': 'Evento',
+  'audit.column.actor': 'Actor',
+  'audit.column.target': 'Objetivo',
+  'audit.column.details': 'Detalles',
+  'audit.event.register': 'Registro',
+  'audit.event.login': 'Inicio de sesión',
+  'audit.event.login_failed': 'Inicio de sesión fallido',
+  'audit.event.logout': 'Cierre de sesión',
+  'audit.event.password_changed': 'Contraseña cambiada',
+  'audit.event.password_reset_requested': 'Restablecimiento solicitado',
+  'audit.event.password_reset': 'Contraseña restablecida',
+  'audit.event.password_reset_forced': 'Restablecimiento forzado',
+  'audit.event.email_verification_sent': 'Confirmación enviada',
+  'audit.event.email_verified': 'Correo confirmado',
+  'audit.event.profile_updated': 'Perfil actualizado',
+  'audit.event.two_factor_enabled': '2FA activada',
+  'audit.event.two_factor_disabled': '2FA desactivada',
+  'audit.event.user_updated': 'Usuario editado',
+  'audit.event.role_changed': 'Rol cambiado',
+  'audit.event.status_changed': 'Estado cambiado',
+  'audit.event.user_deleted': 'Usuario eliminado',
+  'audit.event.user_imported': 'Usuario importado',
+  'audit.event.provider_linked': 'Cuenta externa vinculada',
+  'audit.event.provider_unlinked': 'Cuenta externa desvinculada',
+  'audit.event.passkey_registered': 'Passkey registrada',
+  'audit.event.passkey_removed': 'Passkey eliminada',
+  'audit.event.organization_created': 'Organización creada',
+  'audit.event.member_invited': 'Miembro invitado',
+  'audit.event.invitation_revoked': 'Invitación cancelada',
+  'audit.event.member_joined': 'Se unió a la organización',
+  'audit.event.member_role_changed': 'Rol en la organización cambiado',
+  'audit.event.member_removed': 'Salió de la organización',
+  'audit.event.session_revoked': 'Sesión cerrada',
+  'audit.event.sessions_revoked': 'Sesiones cerradas',
+  'audit.event.data_exported': 'Datos personales exportados',
+  'audit.event.deletion_requested': 'Eliminación de cuenta solicitada',
+  'audit.event.deletion_cancelled': 'Eliminación de cuenta cancelada',
+  'audit.event.account_purged': 'Cuenta eliminada definitivamente',
+
+  // --- Dev outbox ---
+  'outbox.button': 'Outbox',
+  'outbox.title': 'Bandeja de salida (dev)',
+  'outbox.subtitle': 'Correos simulados; no se envía nada de verdad.',
+  'outbox.clear': 'Vaciar',
+  'outbox.empty': 'No hay mensajes.',
+  'outbox.to': 'Para: {to}',
+  'outbox.openLink': 'Abrir enlace →',
+
+  // --- Emails ---
+  'mail.verifyEmail.subject': 'Confirma tu correo - AuthSys Pro',
+  'mail.verifyEmail.body': '¡Hola, {name}! Confirma tu dirección de correo con el enlace de abajo. Solo se puede usar una vez y expira en {hours} hora(s).',
+  'mail.resetPassword.subject': 'Restablecimiento de contraseña - AuthSys Pro',
+  'mail.resetPassword.body': '¡Hola, {name}! Recibimos una solicitud para restablecer tu contraseña. Si no fuiste tú, ignora este mensaje. El enlace expira en {minutes} minutos.',
+  'mail.invitation.subject': 'Invitación a {organization} - AuthSys Pro',
+  'mail.invitation.body': '{inviter} te invitó a unirte a {organization}. La invitación expira en {days} día(s).',
+  'mail.deletion.subject': 'Eliminación de cuenta programada - AuthSys Pro',
+  'mail.deletion.body': '¡Hola, {name}! Tu cuenta y tus datos se eliminarán en {days} día(s). Para cancelarlo, basta con volver a iniciar sesión antes.',
+
+  // --- Errors (one per AuthErrorCode) ---
+  'errors.invalid_request': 'Solicitud inválida.',
+  'errors.invalid_credentials': 'Credenciales inválidas.',
+  'errors.account_disabled': 'Esta cuenta está desactivada.',
+  'errors.login_throttled': 'Demasiados intentos. Espera antes de volver a intentarlo.',
+  'errors.account_locked': 'Cuenta bloqueada temporalmente por exceso de intentos.',
+  'errors.two_factor_challenge_expired': 'La verificación expiró. Inicia sesión de nuevo.',
+  'errors.invalid_two_factor_code': 'Código de verificación inválido.',
+  'errors.two_factor_already_enabled': 'La verificación en dos pasos ya está activa.',
+  'errors.two_factor_enrollment_expired': 'Vuelve a iniciar la configuración.',
+  'errors.session_expired': 'Sesión expirada.',
+  'errors.permission_denied': 'Permiso denegado.',
+  'errors.user_not_found': 'Usuario no encontrado.',
+  'errors.email_taken': 'Este correo ya está registrado.',
+  'errors.invalid_name': 'Ingresa el nombre.',
+  'errors.invalid_email': 'Correo electrónico no válido.',
+  'errors.duplicate_email': 'Este correo aparece más de una vez en el archivo.',
+  'errors.invalid_value': 'Valor no permitido.',
+  'errors.invalid_import_file': 'No se pudo leer el archivo. Usa CSV con encabezado o una lista JSON de objetos.',
+  'errors.email_already_verified': 'Tu correo ya está confirmado.',
+  'errors.weak_password': 'La contraseña no cumple la política de contraseñas.',
+  'errors.wrong_current_password': 'La contraseña actual es incorrecta.',
+  'errors.invalid_link': 'Enlace inválido o expirado.',
+  'errors.last_admin': 'El sistema necesita al menos un administrador activo.',
+  'errors.cannot_disable_self': 'No puedes desactivar tu propia cuenta.',
+  'errors.cannot_delete_self': 'No puedes eliminar tu propia cuenta.',
+  'errors.rate_limited': 'Demasiadas solicitudes. Espera un poco y vuelve a intentarlo.',
+  'errors.payload_too_large': 'Los datos enviados son demasiado grandes.',
+  'errors.unsafe_input': 'El texto contiene instrucciones no permitidas.',
+  'errors.ai_unavailable': 'El generador de bios no está disponible en este momento.',
+  'errors.ai_quota_exceeded': 'Se agotó la cuota del proveedor de IA. Inténtalo más tarde.',
+  'errors.ai_safety_blocked': 'Los filtros de seguridad del proveedor de IA rechazaron la solicitud. Reformula tus intereses.',
+  'errors.oauth_failed': 'No se pudo iniciar sesión con el proveedor. Inténtalo de nuevo.',
+  'errors.identity_in_use': 'Esta cuenta del proveedor ya está vinculada a otro usuario.',
+  'errors.identity_email_unverified': 'Ya existe una cuenta con este correo, pero el proveedor no lo verificó. Inicia sesión con tu contraseña y vincula el proveedor desde tu perfil.',
+  'errors.provider_not_linked': 'Este proveedor no está vinculado a tu cuenta.',
+  'errors.last_sign_in_method': 'Es la única forma de entrar en tu cuenta. Define una contraseña o añade otro método antes de quitarlo.',
+  'errors.invalid_passkey': 'No se pudo verificar la passkey.',
+  'errors.passkey_challenge_expired': 'La solicitud de la passkey expiró. Inténtalo de nuevo.',
+  'errors.passkey_not_found': 'Passkey no encontrada.',
+  'errors.passkey_unsupported': 'Este navegador no admite passkeys.',
+  'errors.passkey_cancelled': 'Se canceló la operación con la passkey.',
+  'errors.organization_not_found': 'Organización no encontrada.',
+  'errors.invalid_invitation': 'Invitación no válida o vencida.',
+  'errors.invitation_email_mismatch': 'Esta invitación se envió a otro email.',
+  'errors.already_member': 'Esta persona ya forma parte de la organización.',
+  'errors.last_owner': 'La organización necesita al menos un propietario.',
+  'errors.session_not_found': 'Sesión no encontrada.',
+  'errors.deletion_not_confirmed': 'Escribe el email de tu cuenta para confirmar la eliminación.',
+  'errors.invalid_avatar': 'No se pudo leer la imagen.',
+  'errors.avatar_unsupported_type': 'Usa una imagen JPEG, PNG, WebP o GIF.',
+  'errors.avatar_too_large': 'La imagen supera el tamaño permitido.',
+  'errors.network_error': 'No se pudo conectar con el servidor. Revisa tu conexión.',
+  'errors.internal_error': 'Error inesperado. Inténtalo de nuevo.',
+};
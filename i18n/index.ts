@@ -0,0 +1,38 @@
+import { Locale } from '../types';
+import { MessageKey, Messages, ptBR } from './pt-BR';
+import { en } from './en';
+import { es } from './es';
+
+export type { MessageKey, Messages };
+
+export const LOCALES: readonly Locale[] = ['pt-BR', 'en', 'es'];
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Each language names itself, so the switcher reads right whatever is selected.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español',
+};
+
+const CATALOGS: Record<Locale, Messages> = { 'pt-BR': ptBR, en, es };
+
+export type MessageParams = Record<string, string | number>;
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}) =>
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+
+// Picks the first supported locale from a list of language tags (e.g. navigator.languages),
+// matching on the primary subtag so 'en-GB' gets English and 'pt-PT' gets pt-BR.
+export const matchLocale = (tags: readonly string[]): Locale => {
+  for (const tag of tags) {
+    const exact = LOCALES.find(locale => locale.toLowerCase() === tag.toLowerCase());
+    if (exact) return exact;
+    const language = tag.split('-')[0].toLowerCase();
+    const partial = LOCALES.find(locale => locale.split('-')[0] === language);
+    if (partial) return partial;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
@@ -0,0 +1,515 @@
+// Source catalog: its keys define MessageKey, and the other locales must cover every one.
+// Placeholders are written as {name} and filled in by translate().
+
+export const ptBR = {
+  // --- Common ---
+  'common.processing': 'Processando...',
+  'common.cancel': 'Cancelar',
+  'common.confirm': 'Confirmar',
+  'common.continue': 'Continuar',
+  'common.back': 'Voltar',
+  'common.save': 'Salvar',
+  'common.close': 'Fechar',
+  'common.refresh': 'Atualizar',
+  'common.signOut': 'Sair',
+  'common.name': 'Nome',
+  'common.fullName': 'Nome Completo',
+  'common.email': 'Email',
+  'common.password': 'Senha',
+  'common.newPassword': 'Nova senha',
+  'common.confirmPassword': 'Confirmar senha',
+  'common.saveNewPassword': 'Salvar nova senha',
+  'common.bio': 'Bio',
+  'common.yourBio': 'Sua Bio',
+  'common.emailPlaceholder': 'seu@email.com',
+  'common.verificationCode': 'Código de verificação',
+  'common.operationFailed': 'Não foi possível concluir a operação.',
+  'common.passwordRequirements': 'A senha não atende a todos os requisitos.',
+  'common.passwordMismatch': 'As senhas não conferem.',
+
+  // --- Layout ---
+  'layout.tagline': 'Sistema Seguro v1.0',
+  'layout.rights': 'AuthSys Pro. Todos os direitos reservados.',
+  'layout.language': 'Idioma',
+  'nav.dashboard': 'Painel',
+  'nav.profile': 'Perfil',
+  'nav.users': 'Usuários',
+  'nav.sessions': 'Sessões',
+  'app.loading': 'Carregando sistema...',
+
+  // --- Login ---
+  'login.title': 'Bem-vindo',
+  'login.subtitle': 'Entre na sua conta para continuar',
+  'login.twoFactorPrompt': 'Digite o código de 6 dígitos do seu aplicativo autenticador ou um código de recuperação.',
+  'login.forgotPassword': 'Esqueceu a senha?',
+  'login.retryIn': 'Tente novamente em {time}.',
+  'login.verify': 'Verificar',
+  'login.submit': 'Entrar no Sistema',
+  'login.noAccount': 'Não tem conta?',
+  'login.createAccount': 'Criar conta gratuita',
+  'login.error': 'Erro ao entrar.',
+  'login.orContinueWith': 'ou continue com',
+  'login.withProvider': 'Entrar com {provider}',
+  'login.withPasskey': 'Entrar com passkey',
+
+  // --- Register ---
+  'register.title': 'Criar Nova Conta',
+  'register.namePlaceholder': 'João Silva',
+  'register.emailPlaceholder': 'joao@exemplo.com',
+  'register.passwordPlaceholder': 'Mínimo {min} caracteres',
+  'register.fillAll': 'Preencha todos os campos corretamente.',
+  'register.next': 'Continuar →',
+  'register.bioPlaceholder': 'Sua bio aparecerá aqui...',
+  'register.submit': 'Finalizar Cadastro',
+  'register.haveAccount': 'Já tenho conta',
+  'register.error': 'Erro ao registrar.',
+  'register.invitedTo': 'Você foi convidado para {organization} como {role}. Crie sua conta para entrar.',
+  'register.avatarLabel': 'Foto de perfil (opcional)',
+
+  // --- Session & email notices ---
+  'session.expiresIn': 'Sua sessão expira em {time} por inatividade.',
+  'session.stay': 'Continuar conectado',
+  'emailNotice.sent': 'Enviamos um novo link de confirmação para {email}.',
+  'emailNotice.pending': 'Confirme seu email ({email}) pelo link que enviamos.',
+  'emailNotice.resend': 'Reenviar email',
+  'emailNotice.error': 'Erro ao reenviar email.',
+
+  // --- Dashboard ---
+  'dashboard.greeting': 'Olá, {name}! 👋',
+  'dashboard.editProfile': 'Editar Perfil',
+  'dashboard.signOut': 'Sair do Sistema',
+  'dashboard.yourData': 'Seus Dados',
+  'dashboard.userId': 'ID do Usuário',
+  'dashboard.memberSince': 'Membro Desde',
+  'dashboard.online': 'Online',
+  'dashboard.ownRecord': 'Seu Registro',
+  'dashboard.adminsOnly': 'Apenas administradores veem os demais usuários.',
+  'dashboard.usersTitle': 'Banco de Dados de Usuários',
+  'dashboard.totalRecords': 'Total de registros: {count}',
+  'dashboard.column.bio': 'Bio (Preview)',
+  'dashboard.column.role': 'Função',
+  'dashboard.column.date': 'Data',
+  'dashboard.column.status': 'Status',
+  'dashboard.column.actions': 'Ações',
+  'dashboard.you': '(Você)',
+  'dashboard.admin': 'Admin',
+  'dashboard.verified': '✓ Verificado',
+  'dashboard.unverified': 'Não verificado',
+  'dashboard.active': 'Ativo',
+  'dashboard.disabled': 'Desativado',
+  'dashboard.passwordChangePending': 'Troca de senha pendente',
+  'dashboard.manageUsers': 'Gerenciar usuários →',
+  'adminUsers.title': 'Administração de Usuários',
+  'adminUsers.back': '← Voltar ao painel',
+  'notFound.title': 'Página não encontrada',
+  'notFound.message': 'Nada existe neste endereço:',
+  'notFound.home': 'Ir para o início',
+
+  // --- Data table ---
+  'table.search': 'Buscar por nome, email ou bio',
+  'table.any': 'Todos',
+  'table.from': '{label} a partir de',
+  'table.to': '{label} até',
+  'table.clear': 'Limpar filtros',
+  'table.empty': 'Nenhum registro encontrado.',
+  'table.range': '{from}–{to} de {total}',
+  'table.pageSize': 'Por página',
+  'table.previous': 'Anterior',
+  'table.next': 'Próxima',
+  'table.page': 'Página {page} de {count}',
+
+  // --- Passwords ---
+  'password.strength.0': 'Muito fraca',
+  'password.strength.1': 'Fraca',
+  'password.strength.2': 'Razoável',
+  'password.strength.3': 'Forte',
+  'password.strength.4': 'Muito forte',
+  'password.rule.length': 'Pelo menos {min} caracteres',
+  'password.rule.lowercase': 'Uma letra minúscula',
+  'password.rule.uppercase': 'Uma letra maiúscula',
+  'password.rule.digit': 'Um número',
+  'password.rule.symbol': 'Um símbolo (ex: !@#$)',
+  'password.rule.personal': 'Não conter seu nome ou email',
+  'password.rule.common': 'Não ser uma senha comum ou vazada',
+  'forcedPassword.title': 'Defina uma nova senha',
+  'forcedPassword.subtitle': 'Um administrador redefiniu a senha de {email}. Escolha uma nova para continuar.',
+  'forcedPassword.error': 'Erro ao salvar a senha.',
+
+  // --- Account recovery ---
+  'forgot.title': 'Esqueceu a senha?',
+  'forgot.subtitle': 'Informe seu email e enviaremos um link para criar uma nova senha.',
+  'forgot.sent': 'Se houver uma conta para {email}, você receberá um email com as instruções em instantes.',
+  'forgot.submit': 'Enviar link',
+  'forgot.back': 'Voltar para o login',
+  'forgot.error': 'Erro ao solicitar redefinição.',
+  'reset.title': 'Definir nova senha',
+  'reset.done': 'Senha redefinida com sucesso.',
+  'reset.error': 'Erro ao redefinir a senha.',
+  'verify.title': 'Confirmação de email',
+  'verify.pending': 'Confirmando...',
+  'verify.success': 'Email confirmado com sucesso!',
+  'verify.error': 'Não foi possível confirmar o email.',
+
+  // --- Profile ---
+  'profile.title': 'Meu Perfil',
+  'profile.back': '← Voltar ao painel',
+  'profile.details': 'Perfil',
+  'profile.save': 'Salvar Perfil',
+  'profile.saved': 'Perfil atualizado.',
+  'profile.saveError': 'Erro ao salvar perfil.',
+  'profile.changeEmail': 'Alterar Email',
+  'profile.emailSaved': 'Email atualizado.',
+  'profile.emailError': 'Erro ao alterar email.',
+  'profile.currentPassword': 'Senha atual',
+  'profile.confirmNewPassword': 'Confirmar nova senha',
+  'profile.newPasswordRequirements': 'A nova senha não atende a todos os requisitos.',
+  'profile.changePassword': 'Alterar Senha',
+  'profile.passwordSaved': 'Senha alterada.',
+  'profile.passwordError': 'Erro ao alterar senha.',
+  'profile.passkeys': 'Passkeys',
+  'profile.passkeysIntro': 'Entre sem senha usando a biometria ou o PIN deste dispositivo ou de uma chave de segurança.',
+  'profile.noPasskeys': 'Nenhuma passkey cadastrada.',
+  'profile.passkeyCreated': 'Criada em {date}',
+  'profile.passkeyLastUsed': 'último uso em {date}',
+  'profile.passkeyNeverUsed': 'nunca usada',
+  'profile.passkeyName': 'Nome (opcional)',
+  'profile.passkeyNamePlaceholder': 'Ex: Notebook do trabalho',
+  'profile.addPasskey': 'Adicionar passkey',
+  'profile.passkeyAdded': 'Passkey adicionada.',
+  'profile.renamePasskey': 'Renomear passkey',
+  'profile.rename': 'Renomear',
+  'profile.remove': 'Remover',
+  'profile.removePasskeyTitle': 'Remover a passkey "{name}"?',
+  'profile.removePasskeyMessage': 'Ela deixará de funcionar para entrar nesta conta. Apague-a também do dispositivo, se quiser.',
+  'profile.linkedAccounts': 'Contas vinculadas',
+  'profile.linkedAccountsIntro': 'Entre também com estas contas, sem digitar a senha.',
+  'profile.linkedAs': 'Vinculada como {email} em {date}',
+  'profile.notLinked': 'Não vinculada',
+  'profile.link': 'Vincular',
+  'profile.unlink': 'Desvincular',
+  'profile.unlinkTitle': 'Desvincular {provider}?',
+  'profile.unlinkMessage': 'Você não poderá mais entrar com esta conta até vinculá-la de novo.',
+  'profile.noPasswordNotice': 'Sua conta não tem senha. Para defini-la, use "Esqueceu a senha?" na tela de login.',
+
+  // --- Avatar ---
+  'avatar.title': 'Foto de perfil',
+  'avatar.intro': 'Aparece ao lado do seu nome. Sem foto, mostramos sua inicial.',
+  'avatar.choose': 'Escolher imagem',
+  'avatar.change': 'Trocar imagem',
+  'avatar.remove': 'Remover',
+  'avatar.hint': 'JPEG, PNG, WebP ou GIF de até {max} MB. Você recorta um quadrado em seguida.',
+  'avatar.cropTitle': 'Ajustar a foto',
+  'avatar.cropHint': 'Arraste a imagem (ou use as setas) para posicionar e o controle para aproximar.',
+  'avatar.cropArea': 'Área de recorte',
+  'avatar.zoom': 'Zoom',
+  'avatar.apply': 'Usar esta foto',
+  'avatar.saved': 'Foto atualizada.',
+  'avatar.removed': 'Foto removida.',
+
+  // --- Bio generator ---
+  'bio.title': 'Assistente de Perfil IA',
+  'bio.intro': 'Conte-nos o que você faz e nossa IA criará uma bio para você.',
+  'bio.interests': 'Interesses ou Profissão',
+  'bio.interestsPlaceholder': 'Ex: Desenvolvedor Front-end, amante de café e React',
+  'bio.tone': 'Tom',
+  'bio.length': 'Tamanho (até {max})',
+  'bio.language': 'Idioma',
+  'bio.person': 'Narração',
+  'bio.generate': '✨ Gerar Bio com IA',
+  'bio.generateDrafts': '{count} opções',
+  'bio.stop': '■ Parar geração',
+  'bio.missingFields': 'Preencha nome e interesses para gerar a bio.',
+  'bio.error': 'Falha ao gerar bio. Tente escrever manualmente.',
+  'bio.draftsLabel': 'Opções de bio',
+  'bio.draft': 'Opção {number}:',
+  'bio.writing': 'escrevendo...',
+  'bio.tone.professional': 'Profissional',
+  'bio.tone.friendly': 'Descontraído',
+  'bio.tone.creative': 'Criativo',
+  'bio.tone.formal': 'Formal',
+  'bio.length.short': 'Curta',
+  'bio.length.medium': 'Média',
+  'bio.length.long': 'Longa',
+  'bio.language.pt-BR': 'Português',
+  'bio.language.en': 'Inglês',
+  'bio.language.es': 'Espanhol',
+  'bio.person.first': '1ª pessoa',
+  'bio.person.third': '3ª pessoa',
+
+  // --- Two-factor ---
+  'twoFactor.title': 'Verificação em Duas Etapas',
+  'twoFactor.subtitle': 'Códigos de 6 dígitos de um app autenticador (TOTP).',
+  'twoFactor.enabled': 'Ativa',
+  'twoFactor.disabled': 'Inativa',
+  'twoFactor.scan': 'Escaneie o QR Code no seu aplicativo autenticador e digite o código gerado para confirmar.',
+  'twoFactor.manualKey': 'Ou digite a chave manualmente:',
+  'twoFactor.activate': 'Ativar',
+  'twoFactor.confirmPassword': 'Confirme sua senha',
+  'twoFactor.confirmCode': 'Código do app autenticador ou de recuperação',
+  'twoFactor.confirmDisable': 'Desativar 2FA',
+  'twoFactor.disable': 'Desativar',
+  'twoFactor.setup': 'Configurar 2FA',
+  'twoFactor.recoveryIntro': 'Guarde estes códigos de recuperação em local seguro. Cada um pode ser usado uma única vez caso você perca acesso ao aplicativo autenticador. Eles não serão exibidos novamente.',
+  'twoFactor.done': 'Concluir',
+
+  // --- User management ---
+  'users.editTitle': 'Editar {name}',
+  'users.saveError': 'Erro ao salvar.',
+  'users.edit': 'Editar',
+  'users.makeAdmin': 'Tornar admin',
+  'users.removeAdmin': 'Remover admin',
+  'users.activate': 'Ativar',
+  'users.deactivate': 'Desativar',
+  'users.resetPassword': 'Redefinir senha',
+  'users.delete': 'Excluir',
+  'users.role.admin': 'Administrador',
+  'users.role.user': 'Usuário',
+  'users.roleTitle': 'Alterar função',
+  'users.roleMessage': 'Alterar a função de {name} para {role}?',
+  'users.activateTitle': 'Ativar conta',
+  'users.activateMessage': 'A conta de {name} voltará a poder entrar no sistema.',
+  'users.deactivateTitle': 'Desativar conta',
+  'users.deactivateMessage': 'A conta de {name} será bloqueada e qualquer sessão aberta será encerrada.',
+  'users.resetMessage': 'Uma senha temporária será gerada para {name}, que precisará escolher uma nova no próximo acesso.',
+  'users.resetConfirm': 'Gerar senha temporária',
+  'users.deleteTitle': 'Excluir conta',
+  'users.deleteMessage': 'Excluir permanentemente {name} ({email})? Esta ação não pode ser desfeita.',
+  'users.temporaryPasswordTitle': 'Senha temporária',
+  'users.temporaryPasswordMessage': 'Envie esta senha para {email}. Ela só será exibida agora.',
+  'users.endSessions': 'Encerrar sessões',
+  'users.endSessionsMessage': '{name} será desconectado em todos os dispositivos.',
+
+  // --- Sessions ---
+  'sessions.title': 'Sessões ativas',
+  'sessions.intro': 'Os navegadores e dispositivos conectados à sua conta. Encerre os que você não reconhece.',
+  'sessions.thisDevice': 'Este dispositivo',
+  'sessions.unknownDevice': 'Dispositivo desconhecido',
+  'sessions.activity': 'Entrou em {started} · Última atividade em {seen}',
+  'sessions.revoke': 'Encerrar',
+  'sessions.revokeTitle': 'Encerrar sessão',
+  'sessions.revokeMessage': 'A sessão em {device} será encerrada e precisará entrar de novo.',
+  'sessions.revokeCurrentMessage': 'Você será desconectado deste dispositivo.',
+  'sessions.signOutOthers': 'Sair de todos os outros',
+  'sessions.signOutOthersMessage': 'Encerrar as outras {count} sessão(ões)? Este dispositivo continua conectado.',
+  'sessions.othersRevoked': '{count} sessão(ões) encerrada(s).',
+
+  // --- Personal data ---
+  'privacy.title': 'Seus dados',
+  'privacy.exportIntro': 'Baixe um arquivo JSON com tudo o que guardamos sobre você: perfil, bio, organizações, sessões e atividade.',
+  'privacy.export': 'Baixar meus dados',
+  'privacy.deleteTitle': 'Excluir conta',
+  'privacy.deleteIntro': 'A exclusão fica pendente por um período de carência; entrar de novo antes do fim cancela o pedido.',
+  'privacy.deleteMessage': 'Você será desconectado de todos os dispositivos. Ao fim do período de carência, sua conta e seus dados serão apagados e os registros de atividade, anonimizados. Enviaremos a data por email; para desistir, basta entrar novamente antes dela.',
+  'privacy.confirmPassword': 'Confirme com sua senha',
+  'privacy.confirmEmail': 'Digite {email} para confirmar',
+  'privacy.delete': 'Excluir minha conta',
+
+  // --- Organizations ---
+  'organizations.switcherLabel': 'Organização',
+  'organizations.none': 'Sem organização',
+  'organizations.new': '+ Nova organização',
+  'organizations.createTitle': 'Nova organização',
+  'organizations.name': 'Nome da organização',
+  'organizations.namePlaceholder': 'Acme Ltda.',
+  'organizations.create': 'Criar organização',
+  'organizations.createError': 'Não foi possível criar a organização.',
+  'organizations.noneTitle': 'Você ainda não faz parte de uma organização',
+  'organizations.noneMessage': 'Crie uma para convidar sua equipe, ou abra um link de convite que você recebeu.',
+  'organizations.membersTitle': 'Membros de {name}',
+  'organizations.summary': 'Membros: {count} · Sua função: {role}',
+  'organizations.column.joined': 'Entrou em',
+  'organizations.deletionPending': 'Exclusão em {date}',
+  'organizations.role.owner': 'Proprietário',
+  'organizations.role.admin': 'Administrador',
+  'organizations.role.member': 'Membro',
+  'organizations.roleTitle': 'Alterar função na organização',
+  'organizations.roleMessage': 'Alterar a função de {name} para {role}?',
+  'organizations.remove': 'Remover',
+  'organizations.removeTitle': 'Remover membro',
+  'organizations.removeMessage': 'Remover {name} de {organization}?',
+  'organizations.leave': 'Sair',
+  'organizations.leaveTitle': 'Sair da organização',
+  'organizations.leaveMessage': 'Sair de {organization}? Para voltar, você precisará de um novo convite.',
+  'organizations.invitationsTitle': 'Convites',
+  'organizations.invitationsIntro': 'Convide pessoas por email. O link vale por alguns dias e só pode ser usado uma vez.',
+  'organizations.invite': 'Enviar convite',
+  'organizations.invited': 'Convite enviado para {email}.',
+  'organizations.inviteError': 'Não foi possível enviar o convite.',
+  'organizations.noInvitations': 'Nenhum convite pendente.',
+  'organizations.invitationExpires': 'expira em {date}',
+  'organizations.revoke': 'Revogar',
+  'organizations.revokeTitle': 'Revogar convite',
+  'organizations.revokeMessage': 'O link enviado para {email} deixará de funcionar.',
+  'invitation.title': 'Convite para organização',
+  'invitation.loading': 'Verificando convite...',
+  'invitation.message': 'Você foi convidado para participar de {organization} como {role}.',
+  'invitation.details': 'Convite para {email}, válido até {date}.',
+  'invitation.accept': 'Entrar na organização',
+  'invitation.decline': 'Agora não',
+  'invitation.error': 'Não foi possível aceitar o convite.',
+
+  // --- Import / export ---
+  'import.open': 'Importar',
+  'import.title': 'Importar usuários',
+  'import.intro': 'Envie um CSV com cabeçalho ou uma lista JSON. Confira o mapeamento das colunas e valide antes de importar: nada é gravado se alguma linha tiver problemas.',
+  'import.file': 'Arquivo (.csv ou .json)',
+  'import.mappingTitle': '{file}: {count} linha(s)',
+  'import.unmapped': '— não importar —',
+  'import.field.name': 'Nome',
+  'import.field.email': 'Email',
+  'import.field.bio': 'Bio',
+  'import.field.role': 'Função',
+  'import.field.status': 'Status',
+  'import.previewMore': 'e mais {count} linha(s)',
+  'import.dryRun': 'Validar (simulação)',
+  'import.commit': 'Importar {count} usuário(s)',
+  'import.validSummary': 'Todas as {count} linha(s) podem ser importadas.',
+  'import.invalidSummary': '{invalid} de {total} linha(s) com problemas. Corrija o arquivo e tente novamente.',
+  'import.rowLabel': 'Linha {number}',
+  'import.done': '{count} usuário(s) importado(s).',
+  'import.resetNotice': 'As contas importadas não têm senha: cada pessoa deve usar "Esqueceu a senha?" na tela de login para definir a sua.',
+  'import.error': 'Não foi possível importar os usuários.',
+  'export.csv': 'Exportar CSV',
+  'export.json': 'Exportar JSON',
+
+  // --- Failed logins ---
+  'failedLogins.title': 'Tentativas de Login Falhas',
+  'failedLogins.subtitle': 'As {count} mais recentes',
+  'failedLogins.empty': 'Nenhuma tentativa falha registrada.',
+  'failedLogins.client': 'cliente {id}',
+  'failedLogins.reason.invalid_credentials': 'Credenciais inválidas',
+  'failedLogins.reason.invalid_two_factor': 'Código 2FA inválido',
+  'failedLogins.reason.throttled': 'Bloqueado (excesso de tentativas)',
+  'failedLogins.reason.disabled': 'Conta desativada',
+
+  // --- Audit ---
+  'audit.activity': 'Atividade',
+  'audit.lastDays': 'Últimos {days} dias',
+  'audit.title': 'Log de Auditoria',
+  'audit.count': '{shown} de {total} eventos',
+  'audit.export': 'Exportar CSV',
+  'audit.search': 'Buscar',
+  'audit.searchPlaceholder': 'Nome, email ou detalhe',
+  'audit.type': 'Tipo',
+  'audit.allTypes': 'Todos',
+  'audit.from': 'De',
+  'audit.to': 'Até',
+  'audit.empty': 'Nenhum evento encontrado.',
+  'audit.removed': '{who} (removido)',
+  'audit.column.date': 'Data',
+  'audit.column.event': 'Evento',
+  'audit.column.actor': 'Ator',
+  'audit.column.target': 'Alvo',
+  'audit.column.details': 'Detalhes',
+  'audit.event.register': 'Cadastro',
+  'audit.event.login': 'Login',
+  'audit.event.login_failed': 'Login falho',
+  'audit.event.logout': 'Logout',
+  'audit.event.password_changed': 'Senha alterada',
+  'audit.event.password_reset_requested': 'Redefinição solicitada',
+  'audit.event.password_reset': 'Senha redefinida',
+  'audit.event.password_reset_forced': 'Redefinição forçada',
+  'audit.event.email_verification_sent': 'Confirmação enviada',
+  'audit.event.email_verified': 'Email confirmado',
+  'audit.event.profile_updated': 'Perfil atualizado',
+  'audit.event.two_factor_enabled': '2FA ativado',
+  'audit.event.two_factor_disabled': '2FA desativado',
+  'audit.event.user_updated': 'Usuário editado',
+  'audit.event.role_changed': 'Perfil de acesso alterado',
+  'audit.event.status_changed': 'Status alterado',
+  'audit.event.user_deleted': 'Usuário excluído',
+  'audit.event.user_imported': 'Usuário importado',
+  'audit.event.provider_linked': 'Conta externa vinculada',
+  'audit.event.provider_unlinked': 'Conta externa desvinculada',
+  'audit.event.passkey_registered': 'Passkey cadastrada',
+  'audit.event.passkey_removed': 'Passkey removida',
+  'audit.event.organization_created': 'Organização criada',
+  'audit.event.member_invited': 'Membro convidado',
+  'audit.event.invitation_revoked': 'Convite cancelado',
+  'audit.event.member_joined': 'Entrou na organização',
+  'audit.event.member_role_changed': 'Papel na organização alterado',
+  'audit.event.member_removed': 'Saiu da organização',
+  'audit.event.session_revoked': 'Sessão encerrada',
+  'audit.event.sessions_revoked': 'Sessões encerradas',
+  'audit.event.data_exported': 'Dados pessoais exportados',
+  'audit.event.deletion_requested': 'Exclusão de conta solicitada',
+  'audit.event.deletion_cancelled': 'Exclusão de conta cancelada',
+  'audit.event.account_purged': 'Conta excluída definitivamente',
+
+  // --- Dev outbox ---
+  'outbox.button': 'Outbox',
+  'outbox.title': 'Caixa de Saída (dev)',
+  'outbox.subtitle': 'Emails simulados, nada é enviado de verdade.',
+  'outbox.clear': 'Limpar',
+  'outbox.empty': 'Nenhuma mensagem.',
+  'outbox.to': 'Para: {to}',
+  'outbox.openLink': 'Abrir link →',
+
+  // --- Emails ---
+  'mail.verifyEmail.subject': 'Confirme seu email - AuthSys Pro',
+  'mail.verifyEmail.body': 'Olá, {name}! Confirme seu endereço de email clicando no link abaixo. Ele pode ser usado uma única vez e expira em {hours} hora(s).',
+  'mail.resetPassword.subject': 'Redefinição de senha - AuthSys Pro',
+  'mail.resetPassword.body': 'Olá, {name}! Recebemos um pedido para redefinir sua senha. Se não foi você, ignore esta mensagem. O link expira em {minutes} minutos.',
+  'mail.invitation.subject': 'Convite para {organization} - AuthSys Pro',
+  'mail.invitation.body': '{inviter} convidou você para participar de {organization}. O convite expira em {days} dia(s).',
+  'mail.deletion.subject': 'Exclusão de conta agendada - AuthSys Pro',
+  'mail.deletion.body': 'Olá, {name}! Sua conta e seus dados serão excluídos em {days} dia(s). Para cancelar, basta entrar novamente antes disso.',
+
+  // --- Errors (one per AuthErrorCode) ---
+  'errors.invalid_request': 'Requisição inválida.',
+  'errors.invalid_credentials': 'Credenciais inválidas.',
+  'errors.account_disabled': 'Esta conta está desativada.',
+  'errors.login_throttled': 'Muitas tentativas. Aguarde antes de tentar novamente.',
+  'errors.account_locked': 'Conta temporariamente bloqueada por excesso de tentativas.',
+  'errors.two_factor_challenge_expired': 'A verificação expirou. Entre novamente.',
+  'errors.invalid_two_factor_code': 'Código de verificação inválido.',
+  'errors.two_factor_already_enabled': 'A verificação em duas etapas já está ativa.',
+  'errors.two_factor_enrollment_expired': 'Inicie a configuração novamente.',
+  'errors.session_expired': 'Sessão expirada.',
+  'errors.permission_denied': 'Permissão negada.',
+  'errors.user_not_found': 'Usuário não encontrado.',
+  'errors.email_taken': 'Este email já está cadastrado.',
+  'errors.invalid_name': 'Informe o nome.',
+  'errors.invalid_email': 'Email inválido.',
+  'errors.duplicate_email': 'Este email aparece mais de uma vez no arquivo.',
+  'errors.invalid_value': 'Valor não permitido.',
+  'errors.invalid_import_file': 'Não foi possível ler o arquivo. Use CSV com cabeçalho ou uma lista JSON de objetos.',
+  'errors.email_already_verified': 'Seu email já foi confirmado.',
+  'errors.weak_password': 'A senha não atende à política de senhas.',
+  'errors.wrong_current_password': 'A senha atual está incorreta.',
+  'errors.invalid_link': 'Link inválido ou expirado.',
+  'errors.last_admin': 'O sistema precisa de pelo menos um administrador ativo.',
+  'errors.cannot_disable_self': 'Você não pode desativar a própria conta.',
+  'errors.cannot_delete_self': 'Você não pode excluir a própria conta.',
+  'errors.rate_limited': 'Muitas solicitações. Aguarde um pouco e tente novamente.',
+  'errors.payload_too_large': 'Os dados enviados são grandes demais.',
+  'errors.unsafe_input': 'O texto informado contém instruções não permitidas.',
+  'errors.ai_unavailable': 'O gerador de bio está indisponível no momento.',
+  'errors.ai_quota_exceeded': 'A cota do provedor de IA se esgotou. Tente novamente mais tarde.',
+  'errors.ai_safety_blocked': 'O provedor de IA recusou o pedido pelos filtros de segurança. Reformule os interesses.',
+  'errors.oauth_failed': 'Não foi possível entrar com o provedor. Tente novamente.',
+  'errors.identity_in_use': 'Esta conta do provedor já está vinculada a outro usuário.',
+  'errors.identity_email_unverified': 'Já existe uma conta com este email, mas o provedor não confirmou o endereço. Entre com sua senha e vincule o provedor pelo perfil.',
+  'errors.provider_not_linked': 'Este provedor não está vinculado à sua conta.',
+  'errors.last_sign_in_method': 'Esta é a única forma de entrar na sua conta. Defina uma senha ou adicione outra forma antes de removê-la.',
+  'errors.invalid_passkey': 'Não foi possível verificar a passkey.',
+  'errors.passkey_challenge_expired': 'A solicitação da passkey expirou. Tente novamente.',
+  'errors.passkey_not_found': 'Passkey não encontrada.',
+  'errors.passkey_unsupported': 'Este navegador não oferece suporte a passkeys.',
+  'errors.passkey_cancelled': 'A operação com a passkey foi cancelada.',
+  'errors.organization_not_found': 'Organização não encontrada.',
+  'errors.invalid_invitation': 'Convite inválido ou expirado.',
+  'errors.invitation_email_mismatch': 'Este convite foi enviado para outro email.',
+  'errors.already_member': 'Esta pessoa já faz parte da organização.',
+  'errors.last_owner': 'A organização precisa de pelo menos um proprietário.',
+  'errors.session_not_found': 'Sessão não encontrada.',
+  'errors.deletion_not_confirmed': 'Digite o email da sua conta para confirmar a exclusão.',
+  'errors.invalid_avatar': 'Não foi possível ler a imagem.',
+  'errors.avatar_unsupported_type': 'Use uma imagem JPEG, PNG, WebP ou GIF.',
+  'errors.avatar_too_large': 'A imagem excede o tamanho permitido.',
+  'errors.network_error': 'Não foi possível falar com o servidor. Verifique sua conexão.',
+  'errors.internal_error': 'Erro inesperado. Tente novamente.',
+};
+
+export type MessageKey = keyof typeof ptBR;
+export type Messages = Record<MessageKey, string>;
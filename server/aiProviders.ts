@@ -0,0 +1,172 @@
+import { ApiError, FinishReason, GoogleGenAI } from '@google/genai';
+import { BioLanguage, BioPerson, BioTone } from '../types';
+import { AuthError } from '../services/authErrors';
+import type { BioRequest } from './bio';
+
+// Text generators behind the AI endpoints. A provider streams plain text deltas and reports
+// failures as AuthErrors with an ai_* code, so callers can tell quota, safety and outages apart.
+
+export interface AiRequest {
+  prompt: string;
+  variant: number; // Index of the draft being written; providers use it to vary their answers
+  signal?: AbortSignal;
+  bio: BioRequest; // The already sanitized input, for providers that do not run a model
+}
+
+export interface AiProvider {
+  id: string;
+  stream: (request: AiRequest) => AsyncIterable<string>;
+}
+
+// --- Gemini ---
+
+const BLOCKING_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+]);
+
+const toAiError = (err: unknown, providerId: string): AuthError => {
+  if (err instanceof AuthError) return err;
+  if (err instanceof ApiError && err.status === 429) return new AuthError('ai_quota_exceeded');
+  console.error(`AI provider ${providerId} failed:`, err);
+  return new AuthError('ai_unavailable');
+};
+
+export const createGeminiProvider = (apiKey: string, model = 'gemini-2.5-flash'): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const id = `gemini:${model}`;
+  return {
+    id,
+    stream: async function* ({ prompt, variant, signal }) {
+      try {
+        const chunks = await ai.models.generateContentStream({
+          model,
+          contents: prompt,
+          // Later drafts run a little hotter so the alternatives do not read alike.
+          config: { temperature: 0.7 + variant * 0.15, abortSignal: signal },
+        });
+        for await (const chunk of chunks) {
+          const finishReason = chunk.candidates?.[0]?.finishReason;
+          if (chunk.promptFeedback?.blockReason || (finishReason && BLOCKING_FINISH_REASONS.has(finishReason))) {
+            throw new AuthError('ai_safety_blocked');
+          }
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (err) {
+        if (signal?.aborted) return;
+        throw toAiError(err, id);
+      }
+    },
+  };
+};
+
+// --- Templates ---
+
+interface TemplateSet {
+  openings: string[]; // One per draft variant
+  tones: Record<BioTone, string>;
+  closings: string[]; // One per draft variant
+}
+
+const TEMPLATES: Record<BioLanguage, Record<BioPerson, TemplateSet>> = {
+  'pt-BR': {
+    first: {
+      openings: ['Sou {first}, {interests}.', 'Olá, eu sou {name}. Meu foco: {interests}.', 'Me chamo {first} e me dedico a {interests}.'],
+      tones: {
+        professional: 'Busco entregar resultados consistentes e colaborar com equipes que valorizam qualidade.',
+        friendly: 'Adoro trocar ideias, conhecer gente nova e aprender junto.',
+        creative: 'Transformo curiosidade em projetos com personalidade.',
+        formal: 'Atuo com rigor, responsabilidade e compromisso com a excelência.',
+      },
+      closings: ['Estou sempre em busca do próximo desafio.', 'Sigo aberto a novas conexões e oportunidades.', 'Acredito que aprender é um processo contínuo.'],
+    },
+    third: {
+      openings: ['{first} é {interests}.', '{name} tem como foco {interests}.', '{first} se dedica a {interests}.'],
+      tones: {
+        professional: 'Busca entregar resultados consistentes e colaborar com equipes que valorizam qualidade.',
+        friendly: 'Adora trocar ideias, conhecer gente nova e aprender junto.',
+        creative: 'Transforma curiosidade em projetos com personalidade.',
+        formal: 'Atua com rigor, responsabilidade e compromisso com a excelência.',
+      },
+      closings: ['Está sempre em busca do próximo desafio.', 'Segue aberto a novas conexões e oportunidades.', 'Acredita que aprender é um processo contínuo.'],
+    },
+  },
+  en: {
+    first: {
+      openings: ["I'm {first}: {interests}.", 'Hi, I am {name}. My focus: {interests}.', 'My name is {first} and I work on {interests}.'],
+      tones: {
+        professional: 'I aim to deliver consistent results and to work with teams that care about quality.',
+        friendly: 'I love swapping ideas, meeting new people and learning together.',
+        creative: 'I turn curiosity into projects with personality.',
+        formal: 'I work with rigor, responsibility and a commitment to excellence.',
+      },
+      closings: ["I'm always looking for the next challenge.", 'Always open to new connections and opportunities.', 'I believe learning never stops.'],
+    },
+    third: {
+      openings: ['{first}: {interests}.', "{name}'s focus: {interests}.", '{first} works on {interests}.'],
+      tones: {
+        professional: 'Aims to deliver consistent results and to work with teams that care about quality.',
+        friendly: 'Loves swapping ideas, meeting new people and learning together.',
+        creative: 'Turns curiosity into projects with personality.',
+        formal: 'Works with rigor, responsibility and a commitment to excellence.',
+      },
+      closings: ['Always looking for the next challenge.', 'Open to new connections and opportunities.', 'Believes learning never stops.'],
+    },
+  },
+  es: {
+    first: {
+      openings: ['Soy {first}, {interests}.', 'Hola, soy {name}. Mi enfoque: {interests}.', 'Me llamo {first} y me dedico a {interests}.'],
+      tones: {
+        professional: 'Busco entregar resultados consistentes y colaborar con equipos que valoran la calidad.',
+        friendly: 'Me encanta intercambiar ideas, conocer gente nueva y aprender en grupo.',
+        creative: 'Convierto la curiosidad en proyectos con personalidad.',
+        formal: 'Trabajo con rigor, responsabilidad y compromiso con la excelencia.',
+      },
+      closings: ['Siempre en busca del próximo desafío.', 'Abierto a nuevas conexiones y oportunidades.', 'Creo que aprender es un proceso continuo.'],
+    },
+    third: {
+      openings: ['{first} es {interests}.', 'El enfoque de {name}: {interests}.', '{first} se dedica a {interests}.'],
+      tones: {
+        professional: 'Busca entregar resultados consistentes y colaborar con equipos que valoran la calidad.',
+        friendly: 'Le encanta intercambiar ideas, conocer gente nueva y aprender en grupo.',
+        creative: 'Convierte la curiosidad en proyectos con personalidad.',
+        formal: 'Trabaja con rigor, responsabilidad y compromiso con la excelencia.',
+      },
+      closings: ['Siempre en busca del próximo desafío.', 'Abierto a nuevas conexiones y oportunidades.', 'Cree que aprender es un proceso continuo.'],
+    },
+  },
+};
+
+const SENTENCES_BY_LENGTH = { short: 1, medium: 2, long: 3 } as const;
+
+const renderTemplate = ({ name, interests, options }: BioRequest, variant: number) => {
+  const set = TEMPLATES[options.language][options.person];
+  const pick = (list: string[]) => list[variant % list.length];
+  const values: Record<string, string> = {
+    name,
+    first: name.split(' ')[0],
+    interests: `${interests.charAt(0).toLowerCase()}${interests.slice(1)}`.replace(/[.!?]+$/, ''),
+  };
+  return [pick(set.openings), set.tones[options.tone], pick(set.closings)]
+    .slice(0, SENTENCES_BY_LENGTH[options.length])
+    .join(' ')
+    .replace(/\{(\w+)\}/g, (_, key: string) => values[key]);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Deterministic and offline: the same input always gives the same drafts, so the flow can be
+// exercised (and asserted on) without network access or a key. Words are streamed with a
+// small delay so the UI behaves as it does with a real model.
+export const createTemplateProvider = (delayMs = 25): AiProvider => ({
+  id: 'template',
+  stream: async function* ({ bio, variant, signal }) {
+    for (const word of renderTemplate(bio, variant).split(/(?<= )/)) {
+      if (signal?.aborted) return;
+      if (delayMs) await sleep(delayMs);
+      yield word;
+    }
+  },
+});
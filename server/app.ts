@@ -0,0 +1,775 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AvatarImages, Locale, OAuthProviderId, RegisterData, UserUpdate } from '../types';
+import { LOCALES, matchLocale } from '../i18n';
+import { StorageBackend } from '../services/storage';
+import { Outbox } from '../services/mail';
+import { AuthServiceOptions, IssuedSession, createAuthService } from '../services/authService';
+import { AuthError, AuthErrorCode } from '../services/authErrors';
+import { LoginThrottledError } from '../services/loginThrottle';
+import { readBioRequest, streamBioDrafts } from './bio';
+import { AiProvider, createTemplateProvider } from './aiProviders';
+import { MAX_BIO_DRAFTS } from '../services/bioOptions';
+import { RateLimit, RateLimitedError, createRateLimiter } from './rateLimit';
+import { ORGANIZATION_ROLES, ROLES, USER_STATUSES } from '../services/permissions';
+import { MAX_IMPORT_ROWS, UserImportRow } from '../services/userImport';
+import { OAuthProvider, pkceChallenge, randomToken } from './oauth';
+import { MockOidcProvider } from './mockOidc';
+import { AuthenticationResponseJSON, RegistrationResponseJSON } from '../services/webauthn';
+
+// REST front of the auth service. Sessions live in an httpOnly cookie the page script never
+// sees; every failure is answered as { error: { code, message } } with a matching status.
+
+export interface ApiServerOptions extends AuthServiceOptions {
+  backend: StorageBackend;
+  outbox?: Outbox; // Exposed under /dev/outbox when given; leave out in production
+  secureCookies?: boolean; // Set for HTTPS deployments
+  trustProxy?: boolean; // Take the client address from X-Forwarded-For
+  aiProvider?: AiProvider; // Defaults to the offline templates
+  bioRateLimits?: RateLimit[]; // Per user, or per address before signing up
+  passkeyLoginRateLimits?: RateLimit[]; // Per address, for passkey sign-in challenges
+  oauthProviders?: OAuthProvider[]; // Offered as "sign in with" buttons, in this order
+  mockOidc?: MockOidcProvider; // Exposed under /dev/oidc when given; leave out in production
+  apiUrl?: string; // Where browsers reach this API (for OAuth callbacks); defaults to <appUrl>api/
+}
+
+export const SESSION_COOKIE = 'authsys_session';
+const CHALLENGE_COOKIE = 'authsys_2fa';
+const OAUTH_COOKIE = 'authsys_oauth';
+const OAUTH_TTL_SECONDS = 10 * 60;
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_IMPORT_BODY_BYTES = 2 * 1024 * 1024;
+const MAX_AVATAR_BODY_BYTES = 1536 * 1024; // Three images of up to 256 KB each, base64 encoded
+const DEFAULT_BIO_RATE_LIMITS: RateLimit[] = [
+  { limit: 5, windowMs: 60 * 1000 },
+  { limit: 50, windowMs: 24 * 60 * 60 * 1000 },
+];
+// Each passkey sign-in attempt stores a challenge until it expires, so anonymous callers get a budget.
+const DEFAULT_PASSKEY_LOGIN_RATE_LIMITS: RateLimit[] = [
+  { limit: 10, windowMs: 60 * 1000 },
+  { limit: 100, windowMs: 60 * 60 * 1000 },
+];
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+const STATUS_BY_CODE: Partial<Record<AuthErrorCode, number>> = {
+  invalid_credentials: 401,
+  session_expired: 401,
+  two_factor_challenge_expired: 401,
+  account_disabled: 403,
+  permission_denied: 403,
+  user_not_found: 404,
+  email_taken: 409,
+  invalid_name: 422,
+  invalid_email: 422,
+  duplicate_email: 422,
+  invalid_value: 422,
+  invalid_import_file: 422,
+  email_already_verified: 409,
+  two_factor_already_enabled: 409,
+  last_admin: 409,
+  weak_password: 422,
+  unsafe_input: 422,
+  payload_too_large: 413,
+  login_throttled: 429,
+  account_locked: 429,
+  rate_limited: 429,
+  internal_error: 500,
+  oauth_failed: 502,
+  identity_in_use: 409,
+  identity_email_unverified: 409,
+  provider_not_linked: 404,
+  last_sign_in_method: 409,
+  invalid_passkey: 401,
+  passkey_challenge_expired: 401,
+  passkey_not_found: 404,
+  organization_not_found: 404,
+  invalid_invitation: 410,
+  invitation_email_mismatch: 409,
+  already_member: 409,
+  last_owner: 409,
+  session_not_found: 404,
+  invalid_avatar: 422,
+  avatar_unsupported_type: 415,
+  avatar_too_large: 413,
+  ai_unavailable: 503,
+  ai_quota_exceeded: 429,
+  ai_safety_blocked: 422,
+};
+
+interface ApiResponse {
+  status?: number;
+  body?: unknown;
+  cookies?: string[];
+  stream?: AsyncIterable<unknown>; // Sent as NDJSON, one line per item, instead of body
+  redirect?: string; // Sent as a 302 to this URL; for the browser-facing OAuth steps
+  html?: string; // Sent as a page instead of body (the mock provider's sign-in screen)
+}
+
+interface RequestContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  cookies: Record<string, string>;
+  clientId: string;
+  userAgent: string; // Stored with sessions started by this request
+  locale: Locale; // From Accept-Language; for mail to accounts that have no language stored
+  signal: AbortSignal; // Aborted when the client goes away before the response is done
+}
+
+type RouteHandler = (ctx: RequestContext) => Promise<ApiResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+  maxBodyBytes: number;
+  acceptsForm: boolean;
+}
+
+interface RouteOptions {
+  maxBodyBytes?: number;
+  // Also take application/x-www-form-urlencoded bodies. Only for endpoints that other servers
+  // call the way the OAuth spec says, never for anything a cookie-bearing browser form could hit.
+  acceptsForm?: boolean;
+}
+
+// Malformed escapes (/users/%E0) are the client's mistake, not a server error.
+const decodePathParam = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new AuthError('invalid_request', 'Caminho inválido.');
+  }
+};
+
+// What the callback needs to finish a provider sign-in, kept in a short-lived httpOnly cookie.
+interface PendingOAuth {
+  provider: OAuthProviderId;
+  state: string;
+  nonce: string;
+  verifier: string;
+  next: string | null; // Page to land on afterwards
+  link: boolean; // Add the identity to the signed-in account instead of signing in
+}
+
+// --- Cookies ---
+
+const parseCookies = (header: string | undefined): Record<string, string> =>
+  Object.fromEntries((header ?? '').split(';').flatMap(part => {
+    const index = part.indexOf('=');
+    if (index === -1) return [];
+    try {
+      return [[part.slice(0, index).trim(), decodeURIComponent(part.slice(index + 1).trim())]];
+    } catch {
+      return [];
+    }
+  }));
+
+const serializeCookie = (name: string, value: string, maxAgeSeconds: number, secure: boolean) =>
+  [
+    `${name}=${encodeURIComponent(value)}`,
+    'Path=/',
+    `Max-Age=${Math.max(Math.floor(maxAgeSeconds), 0)}`,
+    'HttpOnly',
+    'SameSite=Lax',
+    ...(secure ? ['Secure'] : []),
+  ].join('; ');
+
+// --- Request body ---
+
+const readBody = (req: IncomingMessage, maxBytes: number, isForm = false) => new Promise<Record<string, unknown>>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      reject(new AuthError('payload_too_large'));
+      // Drain the rest without buffering it, so the 413 can still be sent on this connection.
+      req.removeAllListeners('data');
+      req.resume();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (!size) return resolve({});
+    if (isForm) return resolve(Object.fromEntries(new URLSearchParams(Buffer.concat(chunks).toString('utf8'))));
+    try {
+      const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('not an object');
+      resolve(parsed);
+    } catch {
+      reject(new AuthError('invalid_request', 'JSON inválido.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const requireString = (body: Record<string, unknown>, key: string) => {
+  const value = body[key];
+  if (typeof value !== 'string') throw new AuthError('invalid_request', `Campo obrigatório: ${key}.`);
+  return value;
+};
+
+const optionalString = (body: Record<string, unknown>, key: string) =>
+  body[key] === undefined ? undefined : requireString(body, key);
+
+// Nested payloads (e.g. a WebAuthn credential) are checked field by field where they are used.
+const requireObject = (body: Record<string, unknown>, key: string) => {
+  const value = body[key];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new AuthError('invalid_request', `Campo inválido: ${key}.`);
+  return value as Record<string, unknown>;
+};
+
+const requireOneOf = <T extends string>(body: Record<string, unknown>, key: string, allowed: readonly T[]) => {
+  const value = requireString(body, key);
+  if (!allowed.includes(value as T)) throw new AuthError('invalid_request', `Valor inválido para ${key}.`);
+  return value as T;
+};
+
+const optionalLocale = (body: Record<string, unknown>) =>
+  body.locale === undefined ? undefined : requireOneOf(body, 'locale', LOCALES);
+
+// "pt-BR,pt;q=0.9,en;q=0.8" lists tags by preference already; the weights are not needed.
+const acceptedLocale = (header: string | undefined) =>
+  matchLocale((header ?? '').split(',').map(part => part.split(';')[0].trim()).filter(Boolean));
+
+const readUserUpdate = (body: Record<string, unknown>): UserUpdate => {
+  const changes: UserUpdate = {
+    name: optionalString(body, 'name'),
+    email: optionalString(body, 'email'),
+    bio: optionalString(body, 'bio'),
+    locale: optionalLocale(body),
+  };
+  return Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+};
+
+// Only the shape is checked here; the auth service reports bad values row by row.
+const readImportRows = (body: Record<string, unknown>): UserImportRow[] => {
+  const rows = body.rows;
+  if (!Array.isArray(rows) || rows.length > MAX_IMPORT_ROWS) throw new AuthError('invalid_request', 'Campo inválido: rows.');
+  return rows.map(row => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) throw new AuthError('invalid_request', 'Campo inválido: rows.');
+    return {
+      name: requireString(row, 'name'),
+      email: requireString(row, 'email'),
+      bio: optionalString(row, 'bio'),
+      role: optionalString(row, 'role'),
+      status: optionalString(row, 'status'),
+    };
+  });
+};
+
+// Same rule as the client's readNext: only paths on this site, so "next" can't bounce users off-site.
+const sameSitePath = (value: string | null) =>
+  value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : null;
+
+const readPendingOAuth = (value: string | undefined): PendingOAuth | null => {
+  try {
+    const pending = value ? JSON.parse(value) : null;
+    return pending && typeof pending.state === 'string' && typeof pending.verifier === 'string' ? pending : null;
+  } catch {
+    return null;
+  }
+};
+
+// --- Handler ---
+
+export const createApiHandler = ({
+  backend,
+  outbox,
+  secureCookies = false,
+  trustProxy = false,
+  aiProvider = createTemplateProvider(),
+  bioRateLimits = DEFAULT_BIO_RATE_LIMITS,
+  passkeyLoginRateLimits = DEFAULT_PASSKEY_LOGIN_RATE_LIMITS,
+  oauthProviders = [],
+  mockOidc,
+  apiUrl,
+  ...options
+}: ApiServerOptions) => {
+  const service = createAuthService(backend, options);
+  const publicApiUrl = apiUrl ?? new URL('api/', options.appUrl).href;
+  const bioLimiter = createRateLimiter(bioRateLimits);
+  const passkeyLoginLimiter = createRateLimiter(passkeyLoginRateLimits);
+  const routes: Route[] = [];
+
+  const route = (method: string, path: string, handler: RouteHandler, { maxBodyBytes = MAX_BODY_BYTES, acceptsForm = false }: RouteOptions = {}) => {
+    const keys: string[] = [];
+    const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    })}$`);
+    routes.push({ method, pattern, keys, handler, maxBodyBytes, acceptsForm });
+  };
+
+  const sessionCookie = ({ token, info }: IssuedSession) =>
+    serializeCookie(SESSION_COOKIE, token, (info.expiresAt - Date.now()) / 1000, secureCookies);
+  const clearCookie = (name: string) => serializeCookie(name, '', 0, secureCookies);
+  const challengeCookie = (challenge: string) => serializeCookie(CHALLENGE_COOKIE, challenge, 5 * 60, secureCookies);
+
+  const sessionOf = (ctx: RequestContext) => service.resolveSession(ctx.cookies[SESSION_COOKIE] ?? null);
+  const actorOf = async (ctx: RequestContext) => (await sessionOf(ctx))?.user.id ?? null;
+
+  // --- Session ---
+
+  route('GET', '/auth/me', async ctx => {
+    const session = await sessionOf(ctx);
+    if (!session) throw new AuthError('session_expired');
+    return { body: session };
+  });
+
+  route('POST', '/auth/refresh', async ctx => {
+    const issued = await service.refreshSession(ctx.cookies[SESSION_COOKIE] ?? null);
+    if (!issued) throw new AuthError('session_expired');
+    return { body: issued.info, cookies: [sessionCookie(issued)] };
+  });
+
+  route('GET', '/auth/password-policy', async () => ({ body: service.passwordPolicy }));
+
+  route('POST', '/auth/register', async ({ body, userAgent, locale }) => {
+    const data: RegisterData = {
+      name: requireString(body, 'name'),
+      email: requireString(body, 'email'),
+      password: requireString(body, 'password'),
+      bio: optionalString(body, 'bio') ?? '',
+      invitation: optionalString(body, 'invitation'),
+      avatar: body.avatar === undefined ? undefined : requireObject(body, 'avatar') as unknown as AvatarImages,
+      locale: optionalLocale(body) ?? locale,
+    };
+    const issued = await service.register(data, userAgent);
+    return { status: 201, body: issued.info, cookies: [sessionCookie(issued)] };
+  }, { maxBodyBytes: MAX_AVATAR_BODY_BYTES });
+
+  route('POST', '/auth/login', async ({ body, clientId, userAgent }) => {
+    const outcome = await service.login(requireString(body, 'email'), requireString(body, 'password'), clientId, userAgent);
+    if ('challenge' in outcome) {
+      return {
+        body: { twoFactorRequired: true },
+        cookies: [challengeCookie(outcome.challenge)],
+      };
+    }
+    return { body: { twoFactorRequired: false, session: outcome.session.info }, cookies: [sessionCookie(outcome.session)] };
+  });
+
+  route('POST', '/auth/login/two-factor', async ({ body, cookies, clientId, userAgent }) => {
+    const challenge = cookies[CHALLENGE_COOKIE];
+    if (!challenge) throw new AuthError('two_factor_challenge_expired');
+    const issued = await service.verifyTwoFactorLogin(challenge, requireString(body, 'code'), clientId, userAgent);
+    return { body: issued.info, cookies: [sessionCookie(issued), clearCookie(CHALLENGE_COOKIE)] };
+  });
+
+  route('DELETE', '/auth/login/two-factor', async ({ cookies }) => {
+    if (cookies[CHALLENGE_COOKIE]) await service.cancelTwoFactorLogin(cookies[CHALLENGE_COOKIE]);
+    return { status: 204, cookies: [clearCookie(CHALLENGE_COOKIE)] };
+  });
+
+  route('POST', '/auth/login/passkey/options', async ({ clientId }) => {
+    passkeyLoginLimiter.consume(`client:${clientId}`);
+    return { body: await service.beginPasskeyLogin() };
+  });
+
+  route('POST', '/auth/login/passkey', async ({ body, clientId, userAgent }) => {
+    const credential = requireObject(body, 'credential') as unknown as AuthenticationResponseJSON;
+    const issued = await service.loginWithPasskey(credential, clientId, userAgent);
+    return { body: issued.info, cookies: [sessionCookie(issued), clearCookie(CHALLENGE_COOKIE)] };
+  });
+
+  route('POST', '/auth/logout', async ({ cookies }) => {
+    await service.logout(cookies[SESSION_COOKIE] ?? null);
+    return { status: 204, cookies: [clearCookie(SESSION_COOKIE), clearCookie(CHALLENGE_COOKIE)] };
+  });
+
+  // --- Active sessions ---
+
+  route('GET', '/auth/sessions', async ctx => {
+    const session = await sessionOf(ctx);
+    return { body: await service.listSessions(session?.user.id ?? null, session?.sessionId ?? null) };
+  });
+
+  // "Sign out everywhere else": every session but the one sending this.
+  route('DELETE', '/auth/sessions', async ctx => {
+    const session = await sessionOf(ctx);
+    return { body: { revoked: await service.revokeOtherSessions(session?.user.id ?? null, session?.sessionId ?? null) } };
+  });
+
+  route('DELETE', '/auth/sessions/:id', async ctx => {
+    const session = await sessionOf(ctx);
+    await service.revokeSession(session?.user.id ?? null, ctx.params.id);
+    return { status: 204, cookies: ctx.params.id === session?.sessionId ? [clearCookie(SESSION_COOKIE)] : [] };
+  });
+
+  // --- External providers (OAuth 2.0 / OpenID Connect) ---
+  // Both steps are browser navigations, so they answer with redirects, never with JSON.
+
+  const providers = new Map(oauthProviders.map(provider => [provider.id, provider]));
+  const callbackUrl = (provider: OAuthProvider) => new URL(`auth/oauth/${provider.id}/callback`, publicApiUrl).href;
+  const appLink = (path: string) => new URL(path.replace(/^\//, ''), options.appUrl).href;
+
+  route('GET', '/auth/oauth/providers', async () => ({
+    body: oauthProviders.map(({ id, label }) => ({ id, label })),
+  }));
+
+  route('GET', '/auth/oauth/:provider/start', async ({ params, query }) => {
+    const provider = providers.get(params.provider as OAuthProviderId);
+    if (!provider) throw new AuthError('invalid_request', 'Provedor desconhecido.');
+    const pending: PendingOAuth = {
+      provider: provider.id,
+      state: randomToken(),
+      nonce: randomToken(),
+      verifier: randomToken(),
+      next: sameSitePath(query.get('next')),
+      link: query.get('link') === '1',
+    };
+    return {
+      redirect: provider.authorizationUrl({
+        redirectUri: callbackUrl(provider),
+        state: pending.state,
+        nonce: pending.nonce,
+        codeChallenge: await pkceChallenge(pending.verifier),
+      }),
+      cookies: [serializeCookie(OAUTH_COOKIE, JSON.stringify(pending), OAUTH_TTL_SECONDS, secureCookies)],
+    };
+  });
+
+  route('GET', '/auth/oauth/:provider/callback', async ctx => {
+    const { params, query } = ctx;
+    const pending = readPendingOAuth(ctx.cookies[OAUTH_COOKIE]);
+    const origin = pending?.link ? '/profile' : '/login';
+    const cookies = [clearCookie(OAUTH_COOKIE)];
+    try {
+      const provider = providers.get(params.provider as OAuthProviderId);
+      if (!provider || !pending || pending.provider !== provider.id || query.get('state') !== pending.state) {
+        throw new AuthError('oauth_failed');
+      }
+      if (query.get('error') === 'access_denied') return { redirect: appLink(origin), cookies };
+      if (query.get('error') || !query.get('code')) throw new AuthError('oauth_failed');
+
+      const identity = await provider.identify({
+        code: query.get('code')!,
+        codeVerifier: pending.verifier,
+        redirectUri: callbackUrl(provider),
+        nonce: pending.nonce,
+      });
+      if (pending.link) {
+        await service.linkIdentity(await actorOf(ctx), identity);
+        return { redirect: appLink('/profile'), cookies };
+      }
+      const outcome = await service.signInWithIdentity(identity, ctx.userAgent);
+      if ('challenge' in outcome) {
+        const next = pending.next ? `&${new URLSearchParams({ next: pending.next })}` : '';
+        return { redirect: appLink(`/login?two_factor=1${next}`), cookies: [...cookies, challengeCookie(outcome.challenge)] };
+      }
+      return { redirect: appLink(pending.next ?? '/dashboard'), cookies: [...cookies, sessionCookie(outcome.session)] };
+    } catch (err) {
+      if (!(err instanceof AuthError)) console.error('OAuth callback failed:', err);
+      const code = err instanceof AuthError ? err.code : 'oauth_failed';
+      return { redirect: appLink(`${origin}?oauth_error=${code}`), cookies };
+    }
+  });
+
+  route('DELETE', '/auth/me/providers/:provider', async ctx => ({
+    body: await service.unlinkProvider(await actorOf(ctx), ctx.params.provider as OAuthProviderId),
+  }));
+
+  // --- Own account ---
+
+  route('PATCH', '/auth/me', async ctx => ({ body: await service.updateProfile(await actorOf(ctx), readUserUpdate(ctx.body)) }));
+
+  route('PUT', '/auth/me/avatar', async ctx => ({
+    body: await service.updateAvatar(await actorOf(ctx), requireObject(ctx.body, 'avatar') as unknown as AvatarImages),
+  }), { maxBodyBytes: MAX_AVATAR_BODY_BYTES });
+
+  route('DELETE', '/auth/me/avatar', async ctx => ({ body: await service.updateAvatar(await actorOf(ctx), null) }));
+
+  route('POST', '/auth/password', async ctx => {
+    await service.changePassword(await actorOf(ctx), requireString(ctx.body, 'currentPassword'), requireString(ctx.body, 'newPassword'));
+    return { status: 204 };
+  });
+
+  route('POST', '/auth/password/complete-reset', async ctx => {
+    await service.completePasswordReset(await actorOf(ctx), requireString(ctx.body, 'newPassword'));
+    return { status: 204 };
+  });
+
+  route('GET', '/auth/me/export', async ctx => ({ body: await service.exportPersonalData(await actorOf(ctx)) }));
+
+  // Accepted for later: the account is purged after the grace period. It signs out everywhere, here included.
+  route('POST', '/auth/me/deletion', async ctx => {
+    await service.requestAccountDeletion(await actorOf(ctx), requireString(ctx.body, 'confirmation'));
+    return { status: 202, cookies: [clearCookie(SESSION_COOKIE)] };
+  });
+
+  route('POST', '/auth/two-factor/enrollment', async ctx => ({ body: await service.beginTwoFactorEnrollment(await actorOf(ctx)) }));
+
+  route('POST', '/auth/two-factor', async ctx => {
+    const recoveryCodes = await service.confirmTwoFactorEnrollment(
+      await actorOf(ctx),
+      requireString(ctx.body, 'secret'),
+      requireString(ctx.body, 'code')
+    );
+    return { body: { recoveryCodes } };
+  });
+
+  route('POST', '/auth/two-factor/disable', async ctx => {
+    await service.disableTwoFactor(await actorOf(ctx), requireString(ctx.body, 'confirmation'));
+    return { status: 204 };
+  });
+
+  route('POST', '/auth/passkeys/registration', async ctx => ({ body: await service.beginPasskeyRegistration(await actorOf(ctx)) }));
+
+  route('POST', '/auth/passkeys', async ctx => ({
+    status: 201,
+    body: await service.finishPasskeyRegistration(
+      await actorOf(ctx),
+      requireObject(ctx.body, 'credential') as unknown as RegistrationResponseJSON,
+      optionalString(ctx.body, 'name')
+    ),
+  }));
+
+  route('PATCH', '/auth/passkeys/:id', async ctx => ({
+    body: await service.renamePasskey(await actorOf(ctx), ctx.params.id, requireString(ctx.body, 'name')),
+  }));
+
+  route('DELETE', '/auth/passkeys/:id', async ctx => ({ body: await service.removePasskey(await actorOf(ctx), ctx.params.id) }));
+
+  // --- Email verification & password recovery ---
+
+  route('POST', '/auth/email-verification', async ctx => {
+    await service.requestEmailVerification(await actorOf(ctx));
+    return { status: 204 };
+  });
+
+  route('POST', '/auth/email-verification/confirm', async ({ body }) => {
+    await service.verifyEmail(requireString(body, 'token'));
+    return { status: 204 };
+  });
+
+  route('POST', '/auth/password-reset', async ({ body, locale }) => {
+    await service.requestPasswordReset(requireString(body, 'email'), optionalLocale(body) ?? locale);
+    return { status: 202 };
+  });
+
+  route('POST', '/auth/password-reset/confirm', async ({ body }) => {
+    await service.resetPassword(requireString(body, 'token'), requireString(body, 'newPassword'));
+    return { status: 204 };
+  });
+
+  // --- Users (admin) ---
+
+  route('GET', '/users', async ctx => ({ body: await service.listUsers(await actorOf(ctx)) }));
+
+  route('PATCH', '/users/:id', async ctx => ({
+    body: await service.updateUser(await actorOf(ctx), ctx.params.id, readUserUpdate(ctx.body)),
+  }));
+
+  route('PUT', '/users/:id/role', async ctx => ({
+    body: await service.setUserRole(await actorOf(ctx), ctx.params.id, requireOneOf(ctx.body, 'role', ROLES)),
+  }));
+
+  route('PUT', '/users/:id/status', async ctx => ({
+    body: await service.setUserStatus(await actorOf(ctx), ctx.params.id, requireOneOf(ctx.body, 'status', USER_STATUSES)),
+  }));
+
+  route('DELETE', '/users/:id', async ctx => {
+    await service.deleteUser(await actorOf(ctx), ctx.params.id);
+    return { status: 204 };
+  });
+
+  route('POST', '/users/:id/password-reset', async ctx => ({
+    body: { temporaryPassword: await service.forcePasswordReset(await actorOf(ctx), ctx.params.id) },
+  }));
+
+  route('DELETE', '/users/:id/sessions', async ctx => ({
+    body: { revoked: await service.revokeUserSessions(await actorOf(ctx), ctx.params.id) },
+  }));
+
+  route('POST', '/users/import', async ctx => ({
+    body: await service.importUsers(await actorOf(ctx), readImportRows(ctx.body), { dryRun: ctx.body.dryRun === true }),
+  }), { maxBodyBytes: MAX_IMPORT_BODY_BYTES });
+
+  // --- Organizations ---
+
+  route('GET', '/organizations', async ctx => ({ body: await service.listOrganizations(await actorOf(ctx)) }));
+
+  route('POST', '/organizations', async ctx => ({
+    status: 201,
+    body: await service.createOrganization(await actorOf(ctx), requireString(ctx.body, 'name')),
+  }));
+
+  route('GET', '/organizations/:id/members', async ctx => ({ body: await service.listMembers(await actorOf(ctx), ctx.params.id) }));
+
+  route('PUT', '/organizations/:id/members/:userId/role', async ctx => ({
+    body: await service.setMemberRole(await actorOf(ctx), ctx.params.id, ctx.params.userId, requireOneOf(ctx.body, 'role', ORGANIZATION_ROLES)),
+  }));
+
+  route('DELETE', '/organizations/:id/members/:userId', async ctx => {
+    await service.removeMember(await actorOf(ctx), ctx.params.id, ctx.params.userId);
+    return { status: 204 };
+  });
+
+  route('GET', '/organizations/:id/invitations', async ctx => ({ body: await service.listInvitations(await actorOf(ctx), ctx.params.id) }));
+
+  route('POST', '/organizations/:id/invitations', async ctx => ({
+    status: 201,
+    body: await service.inviteMember(
+      await actorOf(ctx),
+      ctx.params.id,
+      requireString(ctx.body, 'email'),
+      requireOneOf(ctx.body, 'role', ORGANIZATION_ROLES)
+    ),
+  }));
+
+  route('DELETE', '/organizations/:id/invitations/:invitationId', async ctx => {
+    await service.revokeInvitation(await actorOf(ctx), ctx.params.id, ctx.params.invitationId);
+    return { status: 204 };
+  });
+
+  // The token travels in the body, not the URL, so it stays out of access logs.
+  route('POST', '/invitations/preview', async ({ body }) => ({ body: await service.previewInvitation(requireString(body, 'token')) }));
+
+  route('POST', '/invitations/accept', async ctx => ({
+    body: await service.acceptInvitation(await actorOf(ctx), requireString(ctx.body, 'token')),
+  }));
+
+  // --- Audit ---
+
+  route('GET', '/audit/failed-logins', async ctx => {
+    const limit = Number(ctx.query.get('limit') ?? 20);
+    if (!Number.isInteger(limit) || limit < 1) throw new AuthError('invalid_request', 'Parâmetro inválido: limit.');
+    return { body: await service.getFailedLoginAttempts(await actorOf(ctx), Math.min(limit, 200)) };
+  });
+
+  route('GET', '/audit/events', async ctx => ({ body: await service.getAuditLog(await actorOf(ctx)) }));
+
+  // --- AI ---
+
+  // Open to visitors too (the register form offers it), so anonymous callers are limited by address.
+  route('POST', '/ai/bio', async ctx => {
+    const actorId = await actorOf(ctx);
+    bioLimiter.consume(actorId ? `user:${actorId}` : `client:${ctx.clientId}`);
+    const options = ctx.body.options ?? {};
+    if (typeof options !== 'object' || Array.isArray(options)) throw new AuthError('invalid_request', 'Campo inválido: options.');
+    const request = readBioRequest(requireString(ctx.body, 'name'), requireString(ctx.body, 'interests'), options as Record<string, unknown>);
+    const drafts = ctx.body.drafts ?? 1;
+    if (!Number.isInteger(drafts) || (drafts as number) < 1 || (drafts as number) > MAX_BIO_DRAFTS) {
+      throw new AuthError('invalid_request', `Campo inválido: drafts (1 a ${MAX_BIO_DRAFTS}).`);
+    }
+    return { stream: streamBioDrafts(aiProvider, request, drafts as number, ctx.signal) };
+  }, { maxBodyBytes: 2 * 1024 });
+
+  // --- Dev outbox ---
+
+  if (outbox) {
+    route('GET', '/dev/outbox', async () => ({ body: await outbox.list() }));
+    route('DELETE', '/dev/outbox', async () => {
+      await outbox.clear();
+      return { status: 204 };
+    });
+  }
+
+  // --- Dev OpenID Connect provider ---
+
+  if (mockOidc) {
+    route('GET', '/dev/oidc/.well-known/openid-configuration', async () => mockOidc.discovery());
+    route('GET', '/dev/oidc/jwks', async () => mockOidc.jwks());
+    route('GET', '/dev/oidc/authorize', async ({ query }) => mockOidc.authorize(query));
+    route('GET', '/dev/oidc/authorize/approve', async ({ query }) => mockOidc.approve(query));
+    route('POST', '/dev/oidc/token', async ({ body }) => mockOidc.token(body), { acceptsForm: true });
+  }
+
+  const send = async (res: ServerResponse, { status = 200, body, cookies = [], stream, redirect, html }: ApiResponse, headers: Record<string, string> = {}) => {
+    if (cookies.length) res.setHeader('Set-Cookie', cookies);
+    res.setHeader('Cache-Control', 'no-store');
+    Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+    if (redirect) {
+      res.writeHead(302, { Location: redirect }).end();
+      return;
+    }
+    if (html !== undefined) {
+      res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' }).end(html);
+      return;
+    }
+    if (stream) {
+      res.writeHead(status, { 'Content-Type': 'application/x-ndjson; charset=utf-8' });
+      for await (const item of stream) {
+        if (res.destroyed) break;
+        res.write(`${JSON.stringify(item)}\n`);
+      }
+      res.end();
+      return;
+    }
+    if (body === undefined) {
+      res.writeHead(status).end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' }).end(JSON.stringify(body));
+  };
+
+  const sendError = (res: ServerResponse, err: unknown) => {
+    if (!(err instanceof AuthError)) console.error('Unhandled API error:', err);
+    // A stream that fails midway can only be cut short; its status is already out.
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const error = err instanceof AuthError ? err : new AuthError('internal_error');
+    const retryAt = err instanceof LoginThrottledError || err instanceof RateLimitedError ? err.retryAt : undefined;
+    const throttle = err instanceof LoginThrottledError ? { retryAt, locked: err.locked } : retryAt ? { retryAt } : {};
+    send(
+      res,
+      { status: STATUS_BY_CODE[error.code] ?? 400, body: { error: { code: error.code, message: error.message, ...throttle } } },
+      retryAt ? { 'Retry-After': String(Math.ceil((retryAt - Date.now()) / 1000)) } : {}
+    );
+  };
+
+  // Accounts whose deletion grace period ran out are purged on the back of ordinary requests,
+  // at most once per interval, so no separate scheduler is needed.
+  let nextPurgeAt = 0;
+  const purgeDeletedAccounts = () => {
+    if (Date.now() < nextPurgeAt) return;
+    nextPurgeAt = Date.now() + PURGE_INTERVAL_MS;
+    service.purgeDeletedAccounts().catch(err => console.error('Account purge failed:', err));
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    purgeDeletedAccounts();
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const method = req.method ?? 'GET';
+      const candidates = routes.filter(r => r.pattern.test(url.pathname));
+      const match = candidates.find(r => r.method === method);
+      if (!match) {
+        send(res, { status: candidates.length ? 405 : 404, body: { error: { code: 'invalid_request', message: 'Rota não encontrada.' } } });
+        return;
+      }
+      // Only JSON is accepted for writes: a cross-site form cannot send it without a CORS preflight.
+      const contentType = req.headers['content-type']?.split(';')[0].trim();
+      const isForm = match.acceptsForm && contentType === 'application/x-www-form-urlencoded';
+      if (method !== 'GET' && contentType !== 'application/json' && !isForm) {
+        send(res, { status: 415, body: { error: { code: 'invalid_request', message: 'Use Content-Type: application/json.' } } });
+        return;
+      }
+
+      const forwarded = trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+      const values = match.pattern.exec(url.pathname)!.slice(1).map(decodePathParam);
+      const ctx: RequestContext = {
+        params: Object.fromEntries(match.keys.map((key, i) => [key, values[i]])),
+        query: url.searchParams,
+        body: method === 'GET' ? {} : await readBody(req, match.maxBodyBytes, isForm),
+        cookies: parseCookies(req.headers.cookie),
+        clientId: forwarded || req.socket.remoteAddress || 'unknown',
+        userAgent: String(req.headers['user-agent'] ?? ''),
+        locale: acceptedLocale(req.headers['accept-language']),
+        signal: controller.signal,
+      };
+      await send(res, await match.handler(ctx));
+    } catch (err) {
+      sendError(res, err);
+    }
+  };
+};
@@ -0,0 +1,35 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { KeyValueDriver, StorageBackend, createDocumentBackend } from '../services/storage';
+import { MailMessage, MailTransport, Outbox, createOutbox } from '../services/mail';
+
+// JSON-file persistence for the API server. Each file is read once and then served from
+// memory; writes replace the file atomically (temp file + rename) so a crash never leaves
+// half a document behind.
+
+const createJsonFile = <T,>(file: string, initial: T) => {
+  mkdirSync(path.dirname(file), { recursive: true });
+  let value: T = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : initial;
+  return {
+    read: () => value,
+    write: (next: T) => {
+      value = next;
+      writeFileSync(`${file}.tmp`, JSON.stringify(next, null, 2));
+      renameSync(`${file}.tmp`, file);
+    },
+  };
+};
+
+export const createFileBackend = (dataDir: string): StorageBackend => {
+  const db = createJsonFile<Record<string, unknown>>(path.join(dataDir, 'db.json'), {});
+  const kv: KeyValueDriver = {
+    get: async <T,>(key: string) => db.read()[key] as T | undefined,
+    set: async (key, value) => db.write({ ...db.read(), [key]: value }),
+  };
+  return createDocumentBackend(kv);
+};
+
+export const createFileOutbox = (dataDir: string): Outbox & MailTransport => {
+  const file = createJsonFile<MailMessage[]>(path.join(dataDir, 'outbox.json'), []);
+  return createOutbox(file.read, file.write);
+};
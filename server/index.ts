@@ -0,0 +1,82 @@
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { createApiHandler } from './app';
+import { createFileBackend, createFileOutbox } from './fileStorage';
+import { AiProvider, createGeminiProvider, createTemplateProvider } from './aiProviders';
+import { OAuthProvider, createGitHubProvider, createGoogleProvider, createOidcProvider } from './oauth';
+import { createMockOidcProvider } from './mockOidc';
+
+// Standalone API server. In development Vite proxies /api here (see vite.config.ts).
+
+// Secrets such as GEMINI_API_KEY stay in .env.local, which only this process reads.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+// AI_PROVIDER picks the bio generator (gemini | template); it defaults to Gemini when a key is set.
+const selectAiProvider = (): AiProvider => {
+  const geminiKey = process.env.GEMINI_API_KEY;
+  const name = process.env.AI_PROVIDER ?? (geminiKey ? 'gemini' : 'template');
+  if (name === 'template') return createTemplateProvider();
+  if (name === 'gemini' && geminiKey) return createGeminiProvider(geminiKey, process.env.GEMINI_MODEL);
+  throw new Error(name === 'gemini' ? 'AI_PROVIDER=gemini needs GEMINI_API_KEY.' : `Unknown AI_PROVIDER: ${name}.`);
+};
+const aiProvider = selectAiProvider();
+
+const port = Number(process.env.PORT ?? 3001);
+const dataDir = path.resolve(process.env.AUTHSYS_DATA_DIR ?? 'server/data');
+const isProduction = process.env.NODE_ENV === 'production';
+const outbox = createFileOutbox(dataDir);
+const appUrl = process.env.APP_URL ?? 'http://localhost:3000/';
+const apiUrl = process.env.API_PUBLIC_URL ?? new URL('api/', appUrl).href;
+const deletionGraceDays = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? 14);
+
+// Sign-in providers: Google and GitHub once their client credentials are set, plus the local
+// mock OIDC provider when MOCK_OIDC=1. The mock signs in as any email it is given, and
+// verified emails link to existing accounts, so it must never be on where real users sign in.
+// Browsers reach the mock through apiUrl, while this process calls its token and key endpoints directly.
+const mockOidc = process.env.MOCK_OIDC === '1'
+  ? createMockOidcProvider({ issuer: new URL('dev/oidc', apiUrl).href, clientId: 'authsys-dev' })
+  : undefined;
+const mockOidcInternal = `http://127.0.0.1:${port}/dev/oidc`;
+const oauthProviders: OAuthProvider[] = [
+  ...(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+    ? [createGoogleProvider({ clientId: process.env.GOOGLE_CLIENT_ID, clientSecret: process.env.GOOGLE_CLIENT_SECRET })]
+    : []),
+  ...(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET
+    ? [createGitHubProvider({ clientId: process.env.GITHUB_CLIENT_ID, clientSecret: process.env.GITHUB_CLIENT_SECRET })]
+    : []),
+  ...(mockOidc
+    ? [createOidcProvider({
+        id: 'mock',
+        label: 'Mock OIDC',
+        issuer: mockOidc.issuer,
+        clientId: mockOidc.clientId,
+        authorizationEndpoint: `${mockOidc.issuer}/authorize`,
+        tokenEndpoint: `${mockOidcInternal}/token`,
+        jwksUri: `${mockOidcInternal}/jwks`,
+      })]
+    : []),
+];
+
+const handler = createApiHandler({
+  backend: createFileBackend(dataDir),
+  mail: outbox,
+  // There is no real mail transport yet, so links can only be read through /dev/outbox. That hands
+  // out every verification and reset link, so it is only mounted when DEV_OUTBOX=1.
+  outbox: process.env.DEV_OUTBOX === '1' ? outbox : undefined,
+  appUrl,
+  apiUrl,
+  accountDeletionGraceMs: deletionGraceDays * 24 * 60 * 60 * 1000,
+  bootstrapAdminEmails: (process.env.BOOTSTRAP_ADMIN_EMAILS ?? '').split(',').map(email => email.trim()).filter(Boolean),
+  secureCookies: isProduction,
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  aiProvider,
+  oauthProviders,
+  mockOidc,
+});
+
+createServer(handler).listen(port, () => {
+  if (process.env.DEV_OUTBOX === '1') console.warn('DEV_OUTBOX=1: every email sent, including sign-in links, is readable at /dev/outbox. Never enable it in production.');
+  if (mockOidc) console.warn('MOCK_OIDC=1: the mock OpenID Connect provider lets anyone sign in as any email. Never enable it in production.');
+  console.log(`AuthSys API listening on http://localhost:${port} (data in ${dataDir}, AI provider ${aiProvider.id}, sign-in providers: ${oauthProviders.map(p => p.id).join(', ') || 'none'})`);
+});
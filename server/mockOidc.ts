@@ -0,0 +1,187 @@
+import { toBase64Url, sha256Hex } from '../services/encoding';
+import { pkceChallenge, randomToken } from './oauth';
+
+// A stand-in OpenID Connect provider for development and tests, mounted under /dev/oidc outside
+// production. Its sign-in page lets you claim any email (verified or not), and it answers the
+// code exchange with RS256 ID tokens, so the whole provider flow runs without external services.
+
+export interface MockOidcOptions {
+  issuer: string; // Public base URL of the mount point, as the browser reaches it
+  clientId: string;
+}
+
+export interface MockOidcResponse {
+  status?: number;
+  body?: unknown;
+  html?: string;
+  redirect?: string;
+}
+
+interface IssuedCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+// Parameters the sign-in page carries from the authorization request to its approve step.
+const FORWARDED_PARAMS = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method'];
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const page = (title: string, content: string) => `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: system-ui, sans-serif; background: #f9fafb; display: flex; justify-content: center; padding: 4rem 1rem;">
+<main style="background: #fff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 2rem; width: 100%; max-width: 24rem;">
+<h1 style="font-size: 1.25rem; margin-top: 0;">${escapeHtml(title)}</h1>
+${content}
+</main>
+</body>
+</html>`;
+
+const errorPage = (message: string): MockOidcResponse => ({ status: 400, html: page('Mock OIDC', `<p>${escapeHtml(message)}</p>`) });
+
+const tokenError = (error: string, description: string): MockOidcResponse => ({
+  status: 400,
+  body: { error, error_description: description },
+});
+
+const withParams = (url: string, params: Record<string, string>) => {
+  const target = new URL(url);
+  Object.entries(params).forEach(([name, value]) => target.searchParams.set(name, value));
+  return target.toString();
+};
+
+export const createMockOidcProvider = ({ issuer, clientId }: MockOidcOptions) => {
+  const codes = new Map<string, IssuedCode>();
+  // Generated on first use and kept in memory: tokens from before a restart stop verifying.
+  let keyPair: Promise<{ privateKey: CryptoKey; publicJwk: JsonWebKey & { kid: string } }> | null = null;
+  const signingKey = () => keyPair ??= (async () => {
+    const pair = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    );
+    const { kty, n, e } = await crypto.subtle.exportKey('jwk', pair.publicKey);
+    return { privateKey: pair.privateKey, publicJwk: { kty, n, e, alg: 'RS256', use: 'sig', kid: randomToken().slice(0, 16) } };
+  })();
+
+  const encodeJson = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+  const signIdToken = async (claims: Record<string, unknown>) => {
+    const { privateKey, publicJwk } = await signingKey();
+    const input = `${encodeJson({ alg: 'RS256', typ: 'JWT', kid: publicJwk.kid })}.${encodeJson(claims)}`;
+    const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, new TextEncoder().encode(input));
+    return `${input}.${toBase64Url(new Uint8Array(signature))}`;
+  };
+
+  // The checks every step repeats before trusting the forwarded parameters.
+  const authorizationProblem = (query: URLSearchParams) => {
+    if (query.get('client_id') !== clientId) return 'client_id desconhecido.';
+    if (!query.get('redirect_uri')) return 'redirect_uri ausente.';
+    if (!query.get('code_challenge') || query.get('code_challenge_method') !== 'S256') return 'PKCE (S256) é obrigatório.';
+    return null;
+  };
+
+  return {
+    issuer,
+    clientId,
+
+    discovery: (): MockOidcResponse => ({
+      body: {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: ['openid', 'email', 'profile'],
+      },
+    }),
+
+    jwks: async (): Promise<MockOidcResponse> => ({ body: { keys: [(await signingKey()).publicJwk] } }),
+
+    authorize: (query: URLSearchParams): MockOidcResponse => {
+      const problem = query.get('response_type') !== 'code' ? 'Só response_type=code é suportado.' : authorizationProblem(query);
+      if (problem) return errorPage(problem);
+      const hidden = FORWARDED_PARAMS
+        .filter(name => query.has(name))
+        .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(query.get(name)!)}">`)
+        .join('\n');
+      const field = 'display: block; width: 100%; box-sizing: border-box; margin: 0.25rem 0 1rem; padding: 0.5rem; border: 1px solid #d1d5db; border-radius: 8px;';
+      return {
+        html: page('Mock OIDC — entrar', `<p style="color: #6b7280; font-size: 0.875rem;">Provedor de desenvolvimento: informe qualquer conta.</p>
+<form method="get" action="authorize/approve">
+${hidden}
+<label>Email<input name="email" type="email" required autofocus style="${field}"></label>
+<label>Nome<input name="name" style="${field}"></label>
+<label style="display: block; margin-bottom: 1rem;"><input name="email_verified" type="checkbox" value="true" checked> Email verificado</label>
+<button type="submit" style="padding: 0.5rem 1rem;">Entrar</button>
+<button type="submit" name="deny" value="1" style="padding: 0.5rem 1rem;">Cancelar</button>
+</form>`),
+      };
+    },
+
+    approve: async (query: URLSearchParams): Promise<MockOidcResponse> => {
+      const problem = authorizationProblem(query);
+      if (problem) return errorPage(problem);
+      const redirectUri = query.get('redirect_uri')!;
+      const state = query.get('state') ? { state: query.get('state')! } : {};
+      if (query.get('deny')) return { redirect: withParams(redirectUri, { error: 'access_denied', ...state }) };
+
+      const email = (query.get('email') ?? '').trim();
+      if (!email) return errorPage('Informe um email.');
+      const code = randomToken();
+      codes.set(code, {
+        redirectUri,
+        codeChallenge: query.get('code_challenge')!,
+        nonce: query.get('nonce'),
+        // Derived from the email, so the same "account" always comes back with the same subject.
+        subject: (await sha256Hex(email.toLowerCase())).slice(0, 24),
+        email,
+        emailVerified: query.get('email_verified') === 'true',
+        name: (query.get('name') ?? '').trim(),
+        expiresAt: Date.now() + CODE_TTL_MS,
+      });
+      return { redirect: withParams(redirectUri, { code, ...state }) };
+    },
+
+    token: async (body: Record<string, unknown>): Promise<MockOidcResponse> => {
+      if (body.grant_type !== 'authorization_code') return tokenError('unsupported_grant_type', 'Use authorization_code.');
+      if (body.client_id !== clientId) return tokenError('invalid_client', 'client_id desconhecido.');
+      const issued = typeof body.code === 'string' ? codes.get(body.code) : undefined;
+      if (issued) codes.delete(body.code as string); // Codes are single-use, even when the exchange fails
+      if (!issued || issued.expiresAt < Date.now()) return tokenError('invalid_grant', 'Código inválido ou expirado.');
+      if (body.redirect_uri !== issued.redirectUri) return tokenError('invalid_grant', 'redirect_uri diferente da autorização.');
+      if (typeof body.code_verifier !== 'string' || (await pkceChallenge(body.code_verifier)) !== issued.codeChallenge) {
+        return tokenError('invalid_grant', 'code_verifier não confere.');
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await signIdToken({
+        iss: issuer,
+        sub: issued.subject,
+        aud: clientId,
+        iat: now,
+        exp: now + ID_TOKEN_TTL_SECONDS,
+        ...(issued.nonce ? { nonce: issued.nonce } : {}),
+        email: issued.email,
+        email_verified: issued.emailVerified,
+        ...(issued.name ? { name: issued.name } : {}),
+      });
+      return { body: { access_token: randomToken(), token_type: 'Bearer', expires_in: ID_TOKEN_TTL_SECONDS, id_token: idToken } };
+    },
+  };
+};
+
+export type MockOidcProvider = ReturnType<typeof createMockOidcProvider>;
@@ -0,0 +1,265 @@
+import { ExternalIdentity, OAuthProviderId } from '../types';
+import { AuthError } from '../services/authErrors';
+import { toBase64Url, fromBase64Url, randomBytes } from '../services/encoding';
+
+// Sign-in through external accounts: OAuth 2.0 Authorization Code with PKCE, plus OpenID
+// Connect ID tokens where the provider has them. Each provider turns a returned code into an
+// ExternalIdentity; the auth service decides which account that identity belongs to.
+
+export interface AuthorizationRequest {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface CodeExchange {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+export interface OAuthProvider {
+  id: OAuthProviderId;
+  label: string; // Shown on the sign-in button
+  authorizationUrl: (request: AuthorizationRequest) => string;
+  identify: (exchange: CodeExchange) => Promise<ExternalIdentity>;
+}
+
+export interface OidcProviderConfig {
+  id: OAuthProviderId;
+  label: string;
+  issuer: string | string[]; // Every spelling the provider puts in "iss"
+  clientId: string;
+  clientSecret?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+  scope?: string;
+}
+
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+// The claims verifyIdToken relies on; whatever else the provider adds stays unknown.
+export interface IdTokenClaims extends Record<string, unknown> {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+}
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+const CLOCK_SKEW_SECONDS = 60;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// The real reason only goes to the log; callers just learn that the provider round trip failed.
+const fail = (providerId: string, reason: string): never => {
+  console.warn(`OAuth ${providerId}: ${reason}`);
+  throw new AuthError('oauth_failed');
+};
+
+// --- Response shapes ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIdTokenClaims = (value: unknown): value is IdTokenClaims =>
+  isRecord(value) &&
+  typeof value.iss === 'string' &&
+  typeof value.sub === 'string' && value.sub !== '' &&
+  (typeof value.aud === 'string' || (Array.isArray(value.aud) && value.aud.every(aud => typeof aud === 'string'))) &&
+  typeof value.exp === 'number' &&
+  (value.iat === undefined || typeof value.iat === 'number');
+
+const isGitHubEmail = (value: unknown): value is GitHubEmail =>
+  isRecord(value) && typeof value.email === 'string' && typeof value.primary === 'boolean' && typeof value.verified === 'boolean';
+
+// --- PKCE & one-off values ---
+
+export const randomToken = () => toBase64Url(randomBytes(32));
+
+export const pkceChallenge = async (verifier: string) =>
+  toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(verifier))));
+
+// --- HTTP ---
+
+const fetchJson = async (providerId: string, url: string, init: RequestInit = {}): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers: { Accept: 'application/json', ...init.headers } });
+  } catch (err) {
+    return fail(providerId, `${url} unreachable (${err})`);
+  }
+  const payload: unknown = await response.json().catch(() => undefined);
+  const error = isRecord(payload) ? payload.error : undefined;
+  if (!response.ok || payload === undefined || error) {
+    return fail(providerId, `${url} answered ${response.status} ${error ?? ''}`.trim());
+  }
+  return payload;
+};
+
+const exchangeCode = async (providerId: string, tokenEndpoint: string, clientId: string, clientSecret: string | undefined, exchange: CodeExchange) => {
+  const tokens = await fetchJson(providerId, tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: exchange.code,
+      redirect_uri: exchange.redirectUri,
+      client_id: clientId,
+      code_verifier: exchange.codeVerifier,
+      ...(clientSecret ? { client_secret: clientSecret } : {}),
+    }),
+  });
+  return isRecord(tokens) ? tokens : fail(providerId, 'malformed token response');
+};
+
+const buildAuthorizationUrl = (endpoint: string, params: Record<string, string>) => {
+  const url = new URL(endpoint);
+  Object.entries(params).forEach(([name, value]) => url.searchParams.set(name, value));
+  return url.toString();
+};
+
+// --- ID tokens ---
+
+// Keys are cached per JWKS URL and fetched again when a token names a key we have not seen (rotation).
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+const findSigningKey = async (providerId: string, jwksUri: string, kid: string | undefined) => {
+  const matches = (keys: JsonWebKey[]) => keys.find(key => key.kty === 'RSA' && (!kid || (key as { kid?: string }).kid === kid));
+  let key = matches(jwksCache.get(jwksUri) ?? []);
+  if (!key) {
+    const jwks = await fetchJson(providerId, jwksUri);
+    jwksCache.set(jwksUri, isRecord(jwks) && Array.isArray(jwks.keys) ? jwks.keys.filter(isRecord) : []);
+    key = matches(jwksCache.get(jwksUri)!);
+  }
+  return key ?? fail(providerId, `no signing key ${kid ?? ''}`.trim());
+};
+
+// Checks an RS256 ID token's signature and claims and returns them.
+export const verifyIdToken = async (
+  config: Pick<OidcProviderConfig, 'id' | 'issuer' | 'clientId' | 'jwksUri'>,
+  idToken: string,
+  nonce: string,
+  now: number = Date.now()
+): Promise<IdTokenClaims> => {
+  const [header, payload, signature, ...rest] = idToken.split('.');
+  if (!header || !payload || !signature || rest.length) return fail(config.id, 'malformed ID token');
+  let joseHeader: unknown;
+  let claims: unknown;
+  try {
+    joseHeader = JSON.parse(decoder.decode(fromBase64Url(header)));
+    claims = JSON.parse(decoder.decode(fromBase64Url(payload)));
+  } catch {
+    return fail(config.id, 'malformed ID token');
+  }
+  if (!isRecord(joseHeader)) return fail(config.id, 'malformed ID token');
+  if (joseHeader.alg !== 'RS256') return fail(config.id, `unsupported ID token algorithm ${joseHeader.alg}`);
+
+  const kid = typeof joseHeader.kid === 'string' ? joseHeader.kid : undefined;
+  const jwk = await findSigningKey(config.id, config.jwksUri, kid);
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, fromBase64Url(signature), encoder.encode(`${header}.${payload}`));
+  if (!valid) return fail(config.id, 'bad ID token signature');
+  if (!isIdTokenClaims(claims)) return fail(config.id, 'ID token with missing or malformed claims');
+
+  const issuers = Array.isArray(config.issuer) ? config.issuer : [config.issuer];
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const seconds = now / 1000;
+  if (!issuers.includes(claims.iss)) return fail(config.id, `unexpected issuer ${claims.iss}`);
+  if (!audiences.includes(config.clientId)) return fail(config.id, 'ID token issued to another client');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < seconds) return fail(config.id, 'expired ID token');
+  if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > seconds) return fail(config.id, 'ID token issued in the future');
+  if (claims.nonce !== nonce) return fail(config.id, 'nonce mismatch');
+  return claims;
+};
+
+// --- Providers ---
+
+export const createOidcProvider = (config: OidcProviderConfig): OAuthProvider => ({
+  id: config.id,
+  label: config.label,
+  authorizationUrl: ({ redirectUri, state, nonce, codeChallenge }) =>
+    buildAuthorizationUrl(config.authorizationEndpoint, {
+      response_type: 'code',
+      client_id: config.clientId,
+      redirect_uri: redirectUri,
+      scope: config.scope ?? 'openid email profile',
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }),
+  identify: async (exchange) => {
+    const tokens = await exchangeCode(config.id, config.tokenEndpoint, config.clientId, config.clientSecret, exchange);
+    if (typeof tokens.id_token !== 'string') return fail(config.id, 'token response without id_token');
+    const claims = await verifyIdToken(config, tokens.id_token, exchange.nonce);
+    return {
+      provider: config.id,
+      subject: claims.sub,
+      email: typeof claims.email === 'string' ? claims.email.trim() : '',
+      // Some providers send the flag as a string.
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : '',
+    };
+  },
+});
+
+export const createGoogleProvider = ({ clientId, clientSecret }: OAuthClientCredentials) =>
+  createOidcProvider({
+    id: 'google',
+    label: 'Google',
+    issuer: ['https://accounts.google.com', 'accounts.google.com'],
+    clientId,
+    clientSecret,
+    authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenEndpoint: 'https://oauth2.googleapis.com/token',
+    jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+  });
+
+// GitHub has no ID tokens: the access token is used once to read the profile and its emails.
+export const createGitHubProvider = ({ clientId, clientSecret }: OAuthClientCredentials): OAuthProvider => {
+  const api = (path: string, accessToken: string) =>
+    fetchJson('github', `https://api.github.com${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}`, 'User-Agent': 'AuthSys-Pro', 'X-GitHub-Api-Version': '2022-11-28' },
+    });
+  return {
+    id: 'github',
+    label: 'GitHub',
+    authorizationUrl: ({ redirectUri, state, codeChallenge }) =>
+      buildAuthorizationUrl('https://github.com/login/oauth/authorize', {
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        scope: 'read:user user:email',
+        state,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+        allow_signup: 'true',
+      }),
+    identify: async (exchange) => {
+      const tokens = await exchangeCode('github', 'https://github.com/login/oauth/access_token', clientId, clientSecret, exchange);
+      if (typeof tokens.access_token !== 'string') return fail('github', 'token response without access_token');
+      const [profile, emails] = await Promise.all([api('/user', tokens.access_token), api('/user/emails', tokens.access_token)]);
+      if (!isRecord(profile) || (typeof profile.id !== 'number' && typeof profile.id !== 'string')) return fail('github', 'profile without id');
+      const primary = Array.isArray(emails) ? emails.filter(isGitHubEmail).find(e => e.primary) : undefined;
+      return {
+        provider: 'github',
+        subject: String(profile.id),
+        email: primary ? primary.email.trim() : '',
+        emailVerified: primary?.verified === true,
+        name: typeof profile.name === 'string' ? profile.name : typeof profile.login === 'string' ? profile.login : '',
+      };
+    },
+  };
+};
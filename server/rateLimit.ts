@@ -0,0 +1,49 @@
+import { AuthError } from '../services/authErrors';
+
+// In-memory sliding-window limiter for expensive endpoints. Every window must have room
+// for a request to pass, e.g. [{ limit: 5, windowMs: 60_000 }, { limit: 50, windowMs: 86_400_000 }].
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export class RateLimitedError extends AuthError {
+  constructor(public retryAt: number) {
+    super('rate_limited');
+    this.name = 'RateLimitedError';
+  }
+}
+
+const SWEEP_EVERY = 500; // Calls between sweeps of keys that have gone quiet
+
+export const createRateLimiter = (limits: RateLimit[]) => {
+  const longestWindow = Math.max(...limits.map(l => l.windowMs));
+  const hits = new Map<string, number[]>();
+  let calls = 0;
+
+  const sweep = (now: number) => {
+    hits.forEach((times, key) => {
+      if (!times.length || times[times.length - 1] <= now - longestWindow) hits.delete(key);
+    });
+  };
+
+  // Counts a request for `key`, or throws RateLimitedError (without counting it) when a window is full.
+  const consume = (key: string, now: number = Date.now()) => {
+    if (++calls % SWEEP_EVERY === 0) sweep(now);
+    const times = (hits.get(key) ?? []).filter(t => t > now - longestWindow);
+    const retryAt = limits
+      .map(({ limit, windowMs }) => {
+        const inWindow = times.filter(t => t > now - windowMs);
+        return inWindow.length >= limit ? inWindow[inWindow.length - limit] + windowMs : null;
+      })
+      .reduce<number | null>((latest, next) => (next !== null && (latest === null || next > latest) ? next : latest), null);
+    if (retryAt !== null) {
+      hits.set(key, times);
+      throw new RateLimitedError(retryAt);
+    }
+    hits.set(key, [...times, now]);
+  };
+
+  return { consume };
+};
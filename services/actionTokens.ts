@@ -0,0 +1,41 @@
+import { toBase64Url, randomBytes, sha256Hex } from './encoding';
+
+// Single-use, time-limited tokens sent by email (verification, password reset), also used
+// for the pending second factor of a login and for passkey challenges. Only the SHA-256 of a token is stored, so a
+// leaked store cannot be replayed.
+
+export type ActionTokenPurpose = 'verify_email' | 'reset_password' | 'two_factor_login' | 'passkey_registration' | 'passkey_login';
+
+export type MailedActionPurpose = Extract<ActionTokenPurpose, 'verify_email' | 'reset_password'>;
+
+export interface ActionTokenRecord {
+  hash: string;
+  userId: string;
+  purpose: ActionTokenPurpose;
+  email: string; // Address the token was sent to; verification is void if it changed since
+  expiresAt: number;
+}
+
+export const hashActionToken = (token: string) => sha256Hex(token);
+
+export const createActionToken = async (
+  userId: string,
+  email: string,
+  purpose: ActionTokenPurpose,
+  ttlMs: number
+): Promise<{ token: string; record: ActionTokenRecord }> => {
+  const token = toBase64Url(randomBytes(32));
+  return { token, record: { hash: await hashActionToken(token), userId, email, purpose, expiresAt: Date.now() + ttlMs } };
+};
+
+// Links look like <base>?action=verify_email&token=...; the app picks them up on load.
+export const buildActionLink = (baseUrl: string, purpose: MailedActionPurpose, token: string) =>
+  `${baseUrl}?${new URLSearchParams({ action: purpose, token }).toString()}`;
+
+export const parseActionLink = (search: string): { purpose: MailedActionPurpose; token: string } | null => {
+  const params = new URLSearchParams(search);
+  const purpose = params.get('action');
+  const token = params.get('token');
+  if (!token || (purpose !== 'verify_email' && purpose !== 'reset_password')) return null;
+  return { purpose, token };
+};
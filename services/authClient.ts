@@ -0,0 +1,225 @@
+import {
+  User,
+  RegisterData,
+  Role,
+  UserStatus,
+  UserUpdate,
+  FailedLoginAttempt,
+  TwoFactorEnrollment,
+  PasswordPolicy,
+  AuditEvent,
+  SessionInfo,
+  ActiveSession,
+  OAuthProviderId,
+  OAuthProviderInfo,
+  OrganizationRole,
+  OrganizationSummary,
+  OrganizationMember,
+  Invitation,
+  InvitationPreview,
+  PersonalDataExport,
+  AvatarImages,
+  Locale,
+} from '../types';
+import { StorageBackend, createLocalStorageBackend } from './storage';
+import { createLocalOutbox } from './mail';
+import { AuthServiceOptions, IssuedSession, createAuthService } from './authService';
+import { AuthError } from './authErrors';
+import { ImportReport, UserImportRow } from './userImport';
+import { AuthenticationResponseJSON, PasskeyCreationOptions, PasskeyRequestOptions, RegistrationResponseJSON } from './webauthn';
+
+// What AuthProvider talks to. The HTTP client (./httpClient) goes through the Node server;
+// the local client runs the same auth service inside the browser, for demos and tests.
+// Both keep the session themselves (cookie or storage), so no method takes a token.
+
+export type LoginResponse =
+  | { twoFactorRequired: false; session: SessionInfo }
+  | { twoFactorRequired: true }; // Finish with verifyTwoFactorLogin
+
+export interface AuthClient {
+  getSession: () => Promise<SessionInfo | null>;
+  refreshSession: () => Promise<SessionInfo | null>; // Null once the session is gone
+  getPasswordPolicy: () => Promise<PasswordPolicy>;
+  login: (email: string, password: string) => Promise<LoginResponse>;
+  verifyTwoFactorLogin: (code: string) => Promise<SessionInfo>;
+  cancelTwoFactorLogin: () => Promise<void>;
+  register: (data: RegisterData) => Promise<SessionInfo>;
+  logout: () => Promise<void>;
+  listSessions: () => Promise<ActiveSession[]>;
+  revokeSession: (id: string) => Promise<void>; // The current one too, which signs out
+  revokeOtherSessions: () => Promise<number>; // Resolves to how many were ended
+  listUsers: () => Promise<User[]>; // Only the caller's own record without users:list
+  updateProfile: (changes: UserUpdate) => Promise<User>;
+  updateAvatar: (avatar: AvatarImages | null) => Promise<User>; // Null removes it
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  completePasswordReset: (newPassword: string) => Promise<void>;
+  beginTwoFactorEnrollment: () => Promise<TwoFactorEnrollment>;
+  confirmTwoFactorEnrollment: (secret: string, code: string) => Promise<string[]>;
+  disableTwoFactor: (confirmation: string) => Promise<void>; // The password, or a 2FA code for accounts without one
+  exportPersonalData: () => Promise<PersonalDataExport>;
+  requestAccountDeletion: (confirmation: string) => Promise<void>; // Signs out everywhere, here included
+  getOAuthProviders: () => Promise<OAuthProviderInfo[]>;
+  // Navigates away to the provider; the API's callback brings the browser back to `next`.
+  beginOAuth: (provider: OAuthProviderId, options?: { next?: string; link?: boolean }) => Promise<void>;
+  unlinkProvider: (provider: OAuthProviderId) => Promise<User>;
+  // Passkeys: each ceremony is options from here, navigator.credentials, then the answer back here.
+  beginPasskeyRegistration: () => Promise<PasskeyCreationOptions>;
+  finishPasskeyRegistration: (credential: RegistrationResponseJSON, name?: string) => Promise<User>;
+  beginPasskeyLogin: () => Promise<PasskeyRequestOptions>;
+  loginWithPasskey: (credential: AuthenticationResponseJSON) => Promise<SessionInfo>;
+  renamePasskey: (id: string, name: string) => Promise<User>;
+  removePasskey: (id: string) => Promise<User>;
+  requestEmailVerification: () => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  requestPasswordReset: (email: string, locale?: Locale) => Promise<void>; // Locale of the email when the account has none
+  resetPassword: (token: string, newPassword: string) => Promise<void>;
+  updateUser: (id: string, changes: UserUpdate) => Promise<User>;
+  setUserRole: (id: string, role: Role) => Promise<User>;
+  setUserStatus: (id: string, status: UserStatus) => Promise<User>;
+  deleteUser: (id: string) => Promise<void>;
+  forcePasswordReset: (id: string) => Promise<string>; // Resolves to a one-off temporary password
+  revokeUserSessions: (id: string) => Promise<number>;
+  importUsers: (rows: UserImportRow[], options?: { dryRun?: boolean }) => Promise<ImportReport>;
+  listOrganizations: () => Promise<OrganizationSummary[]>;
+  createOrganization: (name: string) => Promise<OrganizationSummary>;
+  listMembers: (organizationId: string) => Promise<OrganizationMember[]>;
+  setMemberRole: (organizationId: string, userId: string, role: OrganizationRole) => Promise<OrganizationMember>;
+  removeMember: (organizationId: string, userId: string) => Promise<void>;
+  listInvitations: (organizationId: string) => Promise<Invitation[]>;
+  inviteMember: (organizationId: string, email: string, role: OrganizationRole) => Promise<Invitation>;
+  revokeInvitation: (organizationId: string, invitationId: string) => Promise<void>;
+  previewInvitation: (token: string) => Promise<InvitationPreview>;
+  acceptInvitation: (token: string) => Promise<OrganizationSummary>;
+  getFailedLoginAttempts: (limit?: number) => Promise<FailedLoginAttempt[]>;
+  getAuditLog: () => Promise<AuditEvent[]>; // Oldest first
+}
+
+export interface LocalAuthClientOptions extends Partial<AuthServiceOptions> {
+  storage?: StorageBackend;
+}
+
+// --- In-browser client (no server) ---
+export const createLocalAuthClient = ({ storage, mail, appUrl, ...options }: LocalAuthClientOptions = {}): AuthClient => {
+  const backend = storage ?? createLocalStorageBackend();
+  const service = createAuthService(backend, {
+    ...options,
+    mail: mail ?? createLocalOutbox(),
+    appUrl: appUrl ?? `${window.location.origin}${window.location.pathname}`,
+  });
+  // Password checked, waiting for the second factor. Kept in memory only.
+  let challenge: string | null = null;
+
+  const current = async () => service.resolveSession(await backend.session.get());
+  const actor = async () => (await current())?.user.id ?? null;
+  // What the server would read from the request header.
+  const userAgent = typeof navigator === 'undefined' ? '' : navigator.userAgent;
+  const start = async ({ token, info }: IssuedSession) => {
+    await backend.session.set(token);
+    return info;
+  };
+
+  return {
+    getSession: async () => {
+      // There is no server to run the purge on a timer, so it runs whenever the app starts or comes back.
+      await service.purgeDeletedAccounts();
+      const token = await backend.session.get();
+      const session = await service.resolveSession(token);
+      if (token && !session) await backend.session.clear();
+      return session;
+    },
+    refreshSession: async () => {
+      const issued = await service.refreshSession(await backend.session.get());
+      return issued ? start(issued) : null;
+    },
+    getPasswordPolicy: async () => service.passwordPolicy,
+    login: async (email, password) => {
+      challenge = null;
+      const outcome = await service.login(email, password, await backend.attempts.getClientId(), userAgent);
+      if ('challenge' in outcome) {
+        challenge = outcome.challenge;
+        return { twoFactorRequired: true };
+      }
+      return { twoFactorRequired: false, session: await start(outcome.session) };
+    },
+    verifyTwoFactorLogin: async (code) => {
+      if (!challenge) throw new AuthError('two_factor_challenge_expired');
+      const issued = await service.verifyTwoFactorLogin(challenge, code, await backend.attempts.getClientId(), userAgent);
+      challenge = null;
+      return start(issued);
+    },
+    cancelTwoFactorLogin: async () => {
+      if (challenge) await service.cancelTwoFactorLogin(challenge);
+      challenge = null;
+    },
+    register: async (data) => start(await service.register(data, userAgent)),
+    logout: async () => {
+      challenge = null;
+      await service.logout(await backend.session.get());
+      await backend.session.clear();
+    },
+    listSessions: async () => {
+      const session = await current();
+      return service.listSessions(session?.user.id ?? null, session?.sessionId ?? null);
+    },
+    revokeSession: async (id) => {
+      const session = await current();
+      await service.revokeSession(session?.user.id ?? null, id);
+      if (id === session?.sessionId) await backend.session.clear();
+    },
+    revokeOtherSessions: async () => {
+      const session = await current();
+      return service.revokeOtherSessions(session?.user.id ?? null, session?.sessionId ?? null);
+    },
+    listUsers: async () => service.listUsers(await actor()),
+    updateProfile: async (changes) => service.updateProfile(await actor(), changes),
+    updateAvatar: async (avatar) => service.updateAvatar(await actor(), avatar),
+    changePassword: async (currentPassword, newPassword) => service.changePassword(await actor(), currentPassword, newPassword),
+    completePasswordReset: async (newPassword) => service.completePasswordReset(await actor(), newPassword),
+    beginTwoFactorEnrollment: async () => service.beginTwoFactorEnrollment(await actor()),
+    confirmTwoFactorEnrollment: async (secret, code) => service.confirmTwoFactorEnrollment(await actor(), secret, code),
+    disableTwoFactor: async (confirmation) => service.disableTwoFactor(await actor(), confirmation),
+    exportPersonalData: async () => service.exportPersonalData(await actor()),
+    requestAccountDeletion: async (confirmation) => {
+      await service.requestAccountDeletion(await actor(), confirmation);
+      await backend.session.clear();
+    },
+    // Provider redirects need a server to come back to, so the in-browser client offers none.
+    getOAuthProviders: async () => [],
+    beginOAuth: async () => {
+      throw new AuthError('oauth_failed');
+    },
+    unlinkProvider: async (provider) => service.unlinkProvider(await actor(), provider),
+    beginPasskeyRegistration: async () => service.beginPasskeyRegistration(await actor()),
+    finishPasskeyRegistration: async (credential, name) => service.finishPasskeyRegistration(await actor(), credential, name),
+    beginPasskeyLogin: service.beginPasskeyLogin,
+    loginWithPasskey: async (credential) => {
+      challenge = null;
+      return start(await service.loginWithPasskey(credential, await backend.attempts.getClientId(), userAgent));
+    },
+    renamePasskey: async (id, name) => service.renamePasskey(await actor(), id, name),
+    removePasskey: async (id) => service.removePasskey(await actor(), id),
+    requestEmailVerification: async () => service.requestEmailVerification(await actor()),
+    verifyEmail: service.verifyEmail,
+    requestPasswordReset: service.requestPasswordReset,
+    resetPassword: service.resetPassword,
+    updateUser: async (id, changes) => service.updateUser(await actor(), id, changes),
+    setUserRole: async (id, role) => service.setUserRole(await actor(), id, role),
+    setUserStatus: async (id, status) => service.setUserStatus(await actor(), id, status),
+    deleteUser: async (id) => service.deleteUser(await actor(), id),
+    forcePasswordReset: async (id) => service.forcePasswordReset(await actor(), id),
+    revokeUserSessions: async (id) => service.revokeUserSessions(await actor(), id),
+    importUsers: async (rows, options) => service.importUsers(await actor(), rows, options),
+    listOrganizations: async () => service.listOrganizations(await actor()),
+    createOrganization: async (name) => service.createOrganization(await actor(), name),
+    listMembers: async (organizationId) => service.listMembers(await actor(), organizationId),
+    setMemberRole: async (organizationId, userId, role) => service.setMemberRole(await actor(), organizationId, userId, role),
+    removeMember: async (organizationId, userId) => service.removeMember(await actor(), organizationId, userId),
+    listInvitations: async (organizationId) => service.listInvitations(await actor(), organizationId),
+    inviteMember: async (organizationId, email, role) => service.inviteMember(await actor(), organizationId, email, role),
+    revokeInvitation: async (organizationId, invitationId) => service.revokeInvitation(await actor(), organizationId, invitationId),
+    previewInvitation: service.previewInvitation,
+    acceptInvitation: async (token) => service.acceptInvitation(await actor(), token),
+    getFailedLoginAttempts: async (limit) => service.getFailedLoginAttempts(await actor(), limit),
+    getAuditLog: async () => service.getAuditLog(await actor()),
+  };
+};
@@ -0,0 +1,123 @@
+// Every failure the auth layer reports to callers carries one of these codes. The message
+// is only a default rendering of the code; clients should branch on `code`, never on text.
+
+export type AuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_credentials'
+  | 'account_disabled'
+  | 'login_throttled'
+  | 'account_locked'
+  | 'two_factor_challenge_expired'
+  | 'invalid_two_factor_code'
+  | 'two_factor_already_enabled'
+  | 'two_factor_enrollment_expired'
+  | 'session_expired'
+  | 'permission_denied'
+  | 'user_not_found'
+  | 'email_taken'
+  | 'invalid_name'
+  | 'invalid_email'
+  | 'duplicate_email'
+  | 'invalid_value'
+  | 'invalid_import_file'
+  | 'email_already_verified'
+  | 'weak_password'
+  | 'wrong_current_password'
+  | 'invalid_link'
+  | 'last_admin'
+  | 'cannot_disable_self'
+  | 'cannot_delete_self'
+  | 'rate_limited'
+  | 'payload_too_large'
+  | 'unsafe_input'
+  | 'ai_unavailable'
+  | 'ai_quota_exceeded'
+  | 'ai_safety_blocked'
+  | 'oauth_failed'
+  | 'identity_in_use'
+  | 'identity_email_unverified'
+  | 'provider_not_linked'
+  | 'last_sign_in_method'
+  | 'invalid_passkey'
+  | 'passkey_challenge_expired'
+  | 'passkey_not_found'
+  | 'passkey_unsupported'
+  | 'passkey_cancelled'
+  | 'organization_not_found'
+  | 'invalid_invitation'
+  | 'invitation_email_mismatch'
+  | 'already_member'
+  | 'last_owner'
+  | 'session_not_found'
+  | 'deletion_not_confirmed'
+  | 'invalid_avatar'
+  | 'avatar_unsupported_type'
+  | 'avatar_too_large'
+  | 'network_error'
+  | 'internal_error';
+
+export const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  invalid_request: 'Requisição inválida.',
+  invalid_credentials: 'Credenciais inválidas.',
+  account_disabled: 'Esta conta está desativada.',
+  login_throttled: 'Muitas tentativas. Aguarde antes de tentar novamente.',
+  account_locked: 'Conta temporariamente bloqueada por excesso de tentativas.',
+  two_factor_challenge_expired: 'A verificação expirou. Entre novamente.',
+  invalid_two_factor_code: 'Código de verificação inválido.',
+  two_factor_already_enabled: 'A verificação em duas etapas já está ativa.',
+  two_factor_enrollment_expired: 'Inicie a configuração novamente.',
+  session_expired: 'Sessão expirada.',
+  permission_denied: 'Permissão negada.',
+  user_not_found: 'Usuário não encontrado.',
+  email_taken: 'Este email já está cadastrado.',
+  invalid_name: 'Informe o nome.',
+  invalid_email: 'Email inválido.',
+  duplicate_email: 'Este email aparece mais de uma vez no arquivo.',
+  invalid_value: 'Valor não permitido.',
+  invalid_import_file: 'Não foi possível ler o arquivo. Use CSV com cabeçalho ou uma lista JSON de objetos.',
+  email_already_verified: 'Seu email já foi confirmado.',
+  weak_password: 'A senha não atende à política de senhas.',
+  wrong_current_password: 'A senha atual está incorreta.',
+  invalid_link: 'Link inválido ou expirado.',
+  last_admin: 'O sistema precisa de pelo menos um administrador ativo.',
+  cannot_disable_self: 'Você não pode desativar a própria conta.',
+  cannot_delete_self: 'Você não pode excluir a própria conta.',
+  rate_limited: 'Muitas solicitações. Aguarde um pouco e tente novamente.',
+  payload_too_large: 'Os dados enviados são grandes demais.',
+  unsafe_input: 'O texto informado contém instruções não permitidas.',
+  ai_unavailable: 'O gerador de bio está indisponível no momento.',
+  ai_quota_exceeded: 'A cota do provedor de IA se esgotou. Tente novamente mais tarde.',
+  ai_safety_blocked: 'O provedor de IA recusou o pedido pelos filtros de segurança. Reformule os interesses.',
+  oauth_failed: 'Não foi possível entrar com o provedor. Tente novamente.',
+  identity_in_use: 'Esta conta do provedor já está vinculada a outro usuário.',
+  identity_email_unverified: 'Já existe uma conta com este email, mas o provedor não confirmou o endereço. Entre com sua senha e vincule o provedor pelo perfil.',
+  provider_not_linked: 'Este provedor não está vinculado à sua conta.',
+  last_sign_in_method: 'Esta é a única forma de entrar na sua conta. Defina uma senha ou adicione outra forma antes de removê-la.',
+  invalid_passkey: 'Não foi possível verificar a passkey.',
+  passkey_challenge_expired: 'A solicitação da passkey expirou. Tente novamente.',
+  passkey_not_found: 'Passkey não encontrada.',
+  passkey_unsupported: 'Este navegador não oferece suporte a passkeys.',
+  passkey_cancelled: 'A operação com a passkey foi cancelada.',
+  organization_not_found: 'Organização não encontrada.',
+  invalid_invitation: 'Convite inválido ou expirado.',
+  invitation_email_mismatch: 'Este convite foi enviado para outro email.',
+  already_member: 'Esta pessoa já faz parte da organização.',
+  last_owner: 'A organização precisa de pelo menos um proprietário.',
+  session_not_found: 'Sessão não encontrada.',
+  deletion_not_confirmed: 'Digite o email da sua conta para confirmar a exclusão.',
+  invalid_avatar: 'Não foi possível ler a imagem.',
+  avatar_unsupported_type: 'Use uma imagem JPEG, PNG, WebP ou GIF.',
+  avatar_too_large: 'A imagem excede o tamanho permitido.',
+  network_error: 'Não foi possível falar com o servidor. Verifique sua conexão.',
+  internal_error: 'Erro inesperado. Tente novamente.',
+};
+
+export const isAuthErrorCode = (value: unknown): value is AuthErrorCode =>
+  typeof value === 'string' && value in AUTH_ERROR_MESSAGES;
+
+export class AuthError extends Error {
+  constructor(public code: AuthErrorCode, message: string = AUTH_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
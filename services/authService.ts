@@ -0,0 +1,1282 @@
+import {
+  User,
+  UserRecord,
+  RegisterData,
+  Role,
+  UserStatus,
+  UserUpdate,
+  FailedLoginAttempt,
+  TwoFactorEnrollment,
+  PasswordPolicy,
+  AuditEvent,
+  AuditEventType,
+  SessionInfo,
+  SessionRecord,
+  ActiveSession,
+  ExternalIdentity,
+  LinkedProvider,
+  OAuthProviderId,
+  Passkey,
+  PasskeyCredential,
+  Organization,
+  OrganizationRole,
+  OrganizationSummary,
+  OrganizationMember,
+  Membership,
+  Invitation,
+  InvitationRecord,
+  InvitationPreview,
+  PersonalDataExport,
+  AvatarImages,
+  Locale,
+} from '../types';
+import { DEFAULT_LOCALE, MessageKey, MessageParams, isLocale, translate } from '../i18n';
+import { toBase64Url, randomBytes } from './encoding';
+import { hashPassword, verifyPassword, needsRehash, timingSafeEqual, DEFAULT_PBKDF2_ITERATIONS } from './passwordHasher';
+import { StorageBackend, normalizeEmail } from './storage';
+import {
+  OrganizationPermission,
+  Permission,
+  ROLES,
+  USER_STATUSES,
+  hasOrganizationPermission,
+  hasPermission,
+} from './permissions';
+import { SessionTokenPayload, signSessionToken, verifySessionToken } from './sessionToken';
+import { describeDevice } from './userAgent';
+import {
+  AttemptCounter,
+  ThrottleConfig,
+  DEFAULT_THROTTLE_CONFIG,
+  LoginThrottledError,
+  emailKey,
+  clientKey,
+  nextAllowedAttempt,
+  registerFailure,
+  withdrawFailure,
+} from './loginThrottle';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from './totp';
+import { MailTransport } from './mail';
+import { DEFAULT_PASSWORD_POLICY, assertPasswordAllowed } from './passwordPolicy';
+import {
+  ActionTokenPurpose,
+  MailedActionPurpose,
+  createActionToken,
+  hashActionToken,
+  buildActionLink,
+} from './actionTokens';
+import { AuthError } from './authErrors';
+import { readAvatarImages } from './avatar';
+import { ImportIssue, ImportReport, ImportRowResult, MAX_IMPORT_ROWS, UserImportRow } from './userImport';
+import {
+  AuthenticationResponseJSON,
+  PasskeyCreationOptions,
+  PasskeyRequestOptions,
+  RegistrationResponseJSON,
+  RelyingParty,
+  buildCreationOptions,
+  buildRequestOptions,
+  clientDataChallenge,
+  userHandleOf,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from './webauthn';
+
+// The account rules behind every AuthClient. The Node server runs them against its
+// files, the in-browser client against localStorage/IndexedDB. Callers pass the acting
+// user's id explicitly: nothing in here knows about cookies, tabs or React.
+
+export interface AuthServiceOptions {
+  mail: MailTransport;
+  appUrl: string; // Base for links sent by email
+  hashIterations?: number;
+  sessionTtlMs?: number;
+  // Emails that are always given the admin role. The very first account is an admin regardless.
+  bootstrapAdminEmails?: string[];
+  throttle?: Partial<ThrottleConfig>;
+  tokenTtlMs?: Partial<Record<ActionTokenPurpose, number>>;
+  passwordPolicy?: Partial<PasswordPolicy>;
+  invitationTtlMs?: number;
+  accountDeletionGraceMs?: number; // How long a requested deletion waits, so signing in can still cancel it
+}
+
+// A freshly signed session: the token goes to the cookie/store, the info to the UI.
+export interface IssuedSession {
+  token: string;
+  info: SessionInfo;
+}
+
+export type LoginOutcome =
+  | { twoFactorRequired: false; session: IssuedSession }
+  | { twoFactorRequired: true; challenge: string }; // Single-use token for verifyTwoFactorLogin
+
+export type AuthService = ReturnType<typeof createAuthService>;
+
+// Records written before status/emailVerified existed get conservative defaults.
+export const toPublicUser = ({ password, passwordHash, twoFactor, passkeys, ...user }: UserRecord): User => ({
+  ...user,
+  passkeys: (passkeys ?? []).map(({ id, name, createdAt, lastUsedAt }): Passkey => ({ id, name, createdAt, lastUsedAt })),
+  status: user.status ?? 'active',
+  emailVerified: user.emailVerified ?? false,
+  twoFactorEnabled: !!twoFactor,
+  hasPassword: !!passwordHash || password !== undefined,
+});
+
+// Mail goes out in the recipient's language: the one stored on their account, else the request's.
+const mailText = (locale: Locale | undefined) => (key: MessageKey, params?: MessageParams) =>
+  translate(locale ?? DEFAULT_LOCALE, key, params);
+
+const generateTemporaryPassword = () => toBase64Url(randomBytes(9));
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Shape rules for a new account's details, shared by register and bulk import.
+const newUserIssues = ({ name, email }: Pick<RegisterData, 'name' | 'email'>): ImportIssue[] => [
+  ...(name.trim() ? [] : [{ field: 'name' as const, code: 'invalid_name' as const }]),
+  ...(EMAIL_PATTERN.test(email) ? [] : [{ field: 'email' as const, code: 'invalid_email' as const }]),
+];
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const APP_NAME = 'AuthSys Pro'; // TOTP issuer and passkey relying-party name
+const MAX_PASSKEY_NAME_LENGTH = 64;
+const MAX_ORGANIZATION_NAME_LENGTH = 80;
+const DEFAULT_INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_TOKEN_TTL_MS: Record<ActionTokenPurpose, number> = {
+  verify_email: 24 * 60 * 60 * 1000,
+  reset_password: 60 * 60 * 1000,
+  two_factor_login: 5 * 60 * 1000,
+  passkey_registration: 5 * 60 * 1000,
+  passkey_login: 5 * 60 * 1000,
+};
+
+// Passkeys are scoped to the host the app is served from.
+const relyingPartyFor = (appUrl: string): RelyingParty => {
+  const { hostname, origin } = new URL(appUrl);
+  return { id: hostname, name: APP_NAME, origins: [origin] };
+};
+
+// Password, linked providers and passkeys all sign in on their own; the last one can't be removed.
+const signInMethodCount = (record: UserRecord) =>
+  (record.passwordHash || record.password !== undefined ? 1 : 0) + (record.providers?.length ?? 0) + (record.passkeys?.length ?? 0);
+
+export const createAuthService = (backend: StorageBackend, {
+  mail,
+  appUrl,
+  hashIterations = DEFAULT_PBKDF2_ITERATIONS,
+  sessionTtlMs = DEFAULT_SESSION_TTL_MS,
+  bootstrapAdminEmails = [],
+  throttle,
+  tokenTtlMs,
+  passwordPolicy,
+  invitationTtlMs = DEFAULT_INVITATION_TTL_MS,
+  accountDeletionGraceMs = DEFAULT_DELETION_GRACE_MS,
+}: AuthServiceOptions) => {
+  const throttleConfig: ThrottleConfig = { ...DEFAULT_THROTTLE_CONFIG, ...throttle };
+  const bootstrapAdmins = bootstrapAdminEmails.map(normalizeEmail);
+  const policy: PasswordPolicy = { ...DEFAULT_PASSWORD_POLICY, ...passwordPolicy };
+  const tokenTtl = { ...DEFAULT_TOKEN_TTL_MS, ...tokenTtlMs };
+  const relyingParty = relyingPartyFor(appUrl);
+
+  // --- Sessions ---
+  // Every sign-in stores a session record and the token names it, so a session can be listed
+  // and revoked even though the token itself is stateless.
+
+  // Starts a new session, or with `existing` extends that one (refresh keeps the same record).
+  // Every sign-in ends up here, so this is also where a pending account deletion is called off.
+  const issueSession = async (record: UserRecord, userAgent: string, existing?: SessionRecord): Promise<IssuedSession> => {
+    if (!existing && record.deletionScheduledAt) record = await cancelAccountDeletion(record);
+    const now = Date.now();
+    const seen = new Date(now).toISOString();
+    const session: SessionRecord = existing
+      ? { ...existing, lastSeenAt: seen, expiresAt: now + sessionTtlMs }
+      : {
+          id: toBase64Url(randomBytes(12)),
+          userId: record.id,
+          createdAt: seen,
+          lastSeenAt: seen,
+          expiresAt: now + sessionTtlMs,
+          userAgent,
+          device: describeDevice(userAgent),
+        };
+    await backend.sessions.save(session);
+    const payload: SessionTokenPayload = { sid: session.id, sub: record.id, iat: now, exp: session.expiresAt };
+    return {
+      token: await signSessionToken(payload, await backend.session.getSecret()),
+      info: { user: toPublicUser(record), sessionId: session.id, issuedAt: payload.iat, expiresAt: payload.exp },
+    };
+  };
+
+  // Null for a missing, tampered, expired or revoked token, and for accounts disabled since it was issued.
+  const findSession = async (token: string | null) => {
+    const payload = token ? await verifySessionToken(token, await backend.session.getSecret()) : null;
+    const session = payload ? await backend.sessions.find(payload.sid) : null;
+    if (!payload || !session || session.userId !== payload.sub || session.expiresAt <= Date.now()) return null;
+    const record = await backend.users.findById(payload.sub);
+    if (!record || record.status === 'disabled') return null;
+    return { payload, session, record };
+  };
+
+  const resolveSession = async (token: string | null): Promise<SessionInfo | null> => {
+    const found = await findSession(token);
+    if (!found) return null;
+    const { payload, session, record } = found;
+    return { user: toPublicUser(record), sessionId: session.id, issuedAt: payload.iat, expiresAt: payload.exp };
+  };
+
+  // Sliding expiry: a still-valid token is swapped for one with a fresh lifetime.
+  const refreshSession = async (token: string | null) => {
+    const found = await findSession(token);
+    return found ? issueSession(found.record, found.session.userAgent, found.session) : null;
+  };
+
+  // --- Shared helpers ---
+
+  const findOrThrow = async (id: string) => {
+    const record = await backend.users.findById(id);
+    if (!record) throw new AuthError('user_not_found');
+    return record;
+  };
+
+  // The acting user is always re-read, so a role change or deactivation applies immediately.
+  const requireActor = async (actorId: string | null) => {
+    const record = actorId ? await backend.users.findById(actorId) : null;
+    if (!record || record.status === 'disabled') throw new AuthError('session_expired');
+    return record;
+  };
+
+  const requirePermission = async (actorId: string | null, permission: Permission) => {
+    const actor = await requireActor(actorId);
+    if (!hasPermission(toPublicUser(actor), permission)) throw new AuthError('permission_denied');
+    return actor;
+  };
+
+  const checkPassword = async (record: UserRecord, pass: string): Promise<boolean> => {
+    if (record.passwordHash) return verifyPassword(pass, record.passwordHash);
+    return record.password !== undefined && timingSafeEqual(record.password, pass);
+  };
+
+  // Every path that sets a user-chosen password goes through here; returns the password for chaining.
+  const assertPolicy = (password: string, owner: { name: string; email: string }) => {
+    assertPasswordAllowed(password, policy, owner);
+    return password;
+  };
+
+  // Same rule for register, admin edits and self-service email changes.
+  const assertEmailAvailable = async (email: string, ownerId?: string) => {
+    const existing = await backend.users.findByEmail(email);
+    if (existing && existing.id !== ownerId) throw new AuthError('email_taken');
+  };
+
+  const recordAudit = (
+    type: AuditEventType,
+    actorId: string | null,
+    { targetId = null, metadata = {} }: Partial<Pick<AuditEvent, 'targetId' | 'metadata'>> = {}
+  ) => backend.audit.append({ id: generateId(), type, actorId, targetId, at: new Date().toISOString(), metadata });
+
+  // --- Login ---
+
+  // Logs a failed attempt and reports a lockout its (already counted) failure triggered.
+  const registerFailedAttempt = async (attempt: FailedLoginAttempt, counters: (AttemptCounter | null)[] = []) => {
+    await backend.attempts.recordFailure(attempt);
+    await recordAudit('login_failed', null, {
+      metadata: { email: attempt.email, reason: attempt.reason, clientId: attempt.clientId },
+    });
+    const lockout = counters.map(counter => nextAllowedAttempt(counter, throttleConfig)).find(block => block?.locked);
+    if (lockout) throw new LoginThrottledError(lockout.retryAt, true);
+  };
+
+  // Checks the throttle for an email/client pair and, in the same step, counts the attempt as a
+  // failure, so concurrent attempts see each other instead of all passing the same check. The
+  // returned recorders settle it: `fail` logs why, `succeed` takes the failure back.
+  const beginAttempt = async (email: string, clientId: string) => {
+    const keys = [emailKey(email), clientKey(clientId)];
+    const attempt = (reason: FailedLoginAttempt['reason']): FailedLoginAttempt =>
+      ({ email, clientId, at: new Date().toISOString(), reason });
+
+    const counters = await backend.attempts.updateCounters(keys, current => {
+      const block = current
+        .map(counter => nextAllowedAttempt(counter, throttleConfig))
+        .reduce((latest, next) => (next && (!latest || next.retryAt > latest.retryAt) ? next : latest), null);
+      if (block) throw new LoginThrottledError(block.retryAt, block.locked);
+      return keys.map((key, i) => registerFailure(key, current[i], throttleConfig));
+    }).catch(async err => {
+      if (err instanceof LoginThrottledError) await registerFailedAttempt(attempt('throttled'));
+      throw err;
+    });
+    return {
+      fail: (reason: FailedLoginAttempt['reason']) => registerFailedAttempt(attempt(reason), counters),
+      succeed: async () => {
+        await backend.attempts.updateCounters(keys, current => current.map(counter => withdrawFailure(counter, throttleConfig)));
+      },
+    };
+  };
+
+  // `clientId` identifies the caller for throttling: a browser id locally, the remote address on the server.
+  const login = async (email: string, pass: string, clientId: string, userAgent = ''): Promise<LoginOutcome> => {
+    email = normalizeEmail(email);
+    const attempt = await beginAttempt(email, clientId);
+
+    const found = await backend.users.findByEmail(email);
+    if (!found || !(await checkPassword(found, pass))) {
+      await attempt.fail('invalid_credentials');
+      throw new AuthError('invalid_credentials');
+    }
+    if (found.status === 'disabled') {
+      await attempt.fail('disabled');
+      throw new AuthError('account_disabled');
+    }
+    await attempt.succeed();
+
+    let record = found;
+    // Transparent migration: plaintext or weaker hashes are replaced now that we know the password.
+    if (!record.passwordHash || needsRehash(record.passwordHash, hashIterations)) {
+      const { password, ...rest } = record;
+      record = { ...rest, passwordHash: await hashPassword(pass, hashIterations) };
+    }
+    if (record.role !== 'admin' && bootstrapAdmins.includes(record.email)) {
+      record = { ...record, role: 'admin' };
+    }
+    if (record !== found) record = await backend.users.update(record);
+    return completeSignIn(record, userAgent);
+  };
+
+  // Last step of every first factor: a 2FA challenge when enrolled, otherwise the session.
+  const completeSignIn = async (record: UserRecord, userAgent: string, metadata: AuditEvent['metadata'] = {}): Promise<LoginOutcome> => {
+    if (record.twoFactor) {
+      const { token, record: challenge } = await createActionToken(record.id, record.email, 'two_factor_login', tokenTtl.two_factor_login);
+      await backend.tokens.save(challenge);
+      return { twoFactorRequired: true, challenge: token };
+    }
+
+    await backend.attempts.clearCounter(emailKey(record.email));
+    await recordAudit('login', record.id, { targetId: record.id, metadata: { twoFactor: false, ...metadata } });
+    return { twoFactorRequired: false, session: await issueSession(record, userAgent) };
+  };
+
+  // Accepts a fresh TOTP code or an unused recovery code; returns the record with the factor consumed.
+  const consumeSecondFactor = async (record: UserRecord, code: string): Promise<UserRecord | null> => {
+    const settings = record.twoFactor;
+    if (!settings) return record;
+    const step = await verifyTotp(settings.secret, code);
+    if (step !== null) {
+      if (settings.lastUsedStep !== undefined && step <= settings.lastUsedStep) return null;
+      return { ...record, twoFactor: { ...settings, lastUsedStep: step } };
+    }
+    const hash = await hashRecoveryCode(code);
+    if (!settings.recoveryCodeHashes.includes(hash)) return null;
+    return { ...record, twoFactor: { ...settings, recoveryCodeHashes: settings.recoveryCodeHashes.filter(h => h !== hash) } };
+  };
+
+  const verifyTwoFactorLogin = async (challenge: string, code: string, clientId: string, userAgent = ''): Promise<IssuedSession> => {
+    const pending = await backend.tokens.take(await hashActionToken(challenge));
+    if (!pending || pending.purpose !== 'two_factor_login' || pending.expiresAt < Date.now()) {
+      throw new AuthError('two_factor_challenge_expired');
+    }
+    const attempt = await beginAttempt(pending.email, clientId).catch(async err => {
+      await backend.tokens.save(pending);
+      throw err;
+    });
+    const updated = await consumeSecondFactor(await findOrThrow(pending.userId), code);
+    if (!updated) {
+      // A wrong code does not end the challenge; the throttle bounds how often it can be retried.
+      await backend.tokens.save(pending);
+      await attempt.fail('invalid_two_factor');
+      throw new AuthError('invalid_two_factor_code');
+    }
+
+    await attempt.succeed();
+    await backend.attempts.clearCounter(emailKey(pending.email));
+    await backend.users.update(updated);
+    await recordAudit('login', updated.id, { targetId: updated.id, metadata: { twoFactor: true } });
+    return issueSession(updated, userAgent);
+  };
+
+  const cancelTwoFactorLogin = async (challenge: string) => {
+    await backend.tokens.take(await hashActionToken(challenge));
+  };
+
+  // With an invitation the account joins its organization, and the address counts as verified:
+  // the link could only have been opened from that inbox.
+  const register = async ({ password, invitation: invitationToken, avatar, ...fields }: RegisterData, userAgent = ''): Promise<IssuedSession> => {
+    const data = { ...fields, email: normalizeEmail(fields.email), locale: isLocale(fields.locale) ? fields.locale : undefined };
+    const [issue] = newUserIssues(data);
+    if (issue) throw new AuthError(issue.code);
+    const invitation = invitationToken ? await findInvitation(invitationToken) : null;
+    if (invitation && normalizeEmail(invitation.email) !== data.email) throw new AuthError('invitation_email_mismatch');
+    await assertEmailAvailable(data.email);
+
+    const newUser = await backend.users.create({
+      id: generateId(),
+      createdAt: new Date().toISOString(),
+      role: bootstrapAdmins.includes(data.email) ? 'admin' : 'user',
+      status: 'active',
+      emailVerified: !!invitation,
+      ...data,
+      ...(avatar ? { avatar: readAvatarImages(avatar) } : {}),
+      passwordHash: await hashPassword(assertPolicy(password, data), hashIterations),
+    }, { role: 'admin' }); // The very first account, decided when it is written
+
+    await recordAudit('register', newUser.id, { targetId: newUser.id, metadata: { role: newUser.role } });
+    if (invitation) await joinOrganization(newUser, invitation);
+    else await sendActionEmail(newUser, 'verify_email', newUser.id);
+    return issueSession(newUser, userAgent);
+  };
+
+  // --- External providers (OAuth 2.0 / OpenID Connect) ---
+  // The server runs the redirect dance and verifies the ID token; by the time an identity gets
+  // here it is trusted to be whoever the provider says, including its emailVerified flag.
+
+  // Providers hand back the address as the user typed it there.
+  const withNormalizedEmail = (identity: ExternalIdentity): ExternalIdentity => ({ ...identity, email: normalizeEmail(identity.email) });
+
+  const toLinkedProvider = ({ provider, subject, email }: ExternalIdentity): LinkedProvider => ({
+    provider,
+    subject,
+    email,
+    linkedAt: new Date().toISOString(),
+  });
+
+  const withProvider = (record: UserRecord, identity: ExternalIdentity): UserRecord => ({
+    ...record,
+    providers: [...(record.providers ?? []).filter(p => p.provider !== identity.provider), toLinkedProvider(identity)],
+  });
+
+  // An already-linked identity signs straight in. Otherwise the provider's email picks the account:
+  // an existing one is only linked when the provider verified the address, and a new one is
+  // created when there is none.
+  const signInWithIdentity = async (external: ExternalIdentity, userAgent = ''): Promise<LoginOutcome> => {
+    const identity = withNormalizedEmail(external);
+    let record = await backend.users.findByProvider(identity.provider, identity.subject);
+    if (!record) {
+      if (!EMAIL_PATTERN.test(identity.email)) throw new AuthError('oauth_failed');
+      const existing = await backend.users.findByEmail(identity.email);
+      if (existing) {
+        if (!identity.emailVerified) throw new AuthError('identity_email_unverified');
+        // Nobody proved they own an unverified local account, so whatever credentials it holds
+        // could belong to someone who registered the address first: they don't survive the link.
+        const { password, passwordHash, twoFactor, passkeys, ...unclaimed } = existing;
+        const claimed = existing.emailVerified ? existing : { ...unclaimed, providers: [], emailVerified: true };
+        record = await backend.users.update(withProvider(claimed, identity));
+      } else {
+        record = await backend.users.create(withProvider({
+          id: generateId(),
+          createdAt: new Date().toISOString(),
+          name: identity.name.trim() || identity.email.split('@')[0],
+          email: identity.email,
+          bio: '',
+          role: bootstrapAdmins.includes(identity.email) ? 'admin' : 'user',
+          status: 'active',
+          emailVerified: identity.emailVerified,
+        }, identity), { role: 'admin' });
+        await recordAudit('register', record.id, {
+          targetId: record.id,
+          metadata: { role: record.role, provider: identity.provider },
+        });
+      }
+      await recordAudit('provider_linked', record.id, {
+        targetId: record.id,
+        metadata: { provider: identity.provider, email: identity.email },
+      });
+    }
+    if (record.status === 'disabled') throw new AuthError('account_disabled');
+    return completeSignIn(record, userAgent, { provider: identity.provider });
+  };
+
+  const linkIdentity = async (actorId: string | null, external: ExternalIdentity) => {
+    const identity = withNormalizedEmail(external);
+    const actor = await requireActor(actorId);
+    const owner = await backend.users.findByProvider(identity.provider, identity.subject);
+    if (owner && owner.id !== actor.id) throw new AuthError('identity_in_use');
+    const updated = await backend.users.update(withProvider(actor, identity));
+    await recordAudit('provider_linked', actor.id, {
+      targetId: actor.id,
+      metadata: { provider: identity.provider, email: identity.email },
+    });
+    return toPublicUser(updated);
+  };
+
+  const unlinkProvider = async (actorId: string | null, provider: OAuthProviderId) => {
+    const actor = await requireActor(actorId);
+    const providers = actor.providers ?? [];
+    if (!providers.some(p => p.provider === provider)) throw new AuthError('provider_not_linked');
+    if (signInMethodCount(actor) === 1) throw new AuthError('last_sign_in_method');
+    const updated = await backend.users.update({ ...actor, providers: providers.filter(p => p.provider !== provider) });
+    await recordAudit('provider_unlinked', actor.id, { targetId: actor.id, metadata: { provider } });
+    return toPublicUser(updated);
+  };
+
+  // --- Passkeys (WebAuthn) ---
+  // Each ceremony starts by handing out a challenge, stored like any other single-use token;
+  // the browser's signed answer names the challenge, which is taken (and so spent) before checking.
+
+  const takeChallenge = async (response: unknown, purpose: 'passkey_registration' | 'passkey_login') => {
+    const challenge = clientDataChallenge(response as RegistrationResponseJSON);
+    const pending = await backend.tokens.take(await hashActionToken(challenge));
+    if (!pending || pending.purpose !== purpose || pending.expiresAt < Date.now()) throw new AuthError('passkey_challenge_expired');
+    return { challenge, userId: pending.userId };
+  };
+
+  const passkeyName = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > MAX_PASSKEY_NAME_LENGTH) throw new AuthError('invalid_name');
+    return trimmed;
+  };
+
+  const findPasskey = (record: UserRecord, id: string) => {
+    const passkey = record.passkeys?.find(p => p.id === id);
+    if (!passkey) throw new AuthError('passkey_not_found');
+    return passkey;
+  };
+
+  const beginPasskeyRegistration = async (actorId: string | null): Promise<PasskeyCreationOptions> => {
+    const actor = await requireActor(actorId);
+    await backend.tokens.revoke(actor.id, 'passkey_registration');
+    const { token, record } = await createActionToken(actor.id, actor.email, 'passkey_registration', tokenTtl.passkey_registration);
+    await backend.tokens.save(record);
+    const existing = (actor.passkeys ?? []).map(({ id, transports }) => ({ type: 'public-key' as const, id, transports }));
+    return buildCreationOptions(relyingParty, actor, token, existing);
+  };
+
+  const finishPasskeyRegistration = async (actorId: string | null, response: RegistrationResponseJSON, name?: string) => {
+    const actor = await requireActor(actorId);
+    const { challenge, userId } = await takeChallenge(response, 'passkey_registration');
+    if (userId !== actor.id) throw new AuthError('passkey_challenge_expired');
+    const verified = await verifyRegistrationResponse(response, { challenge, rp: relyingParty });
+    const passkeys = actor.passkeys ?? [];
+    if (passkeys.some(p => p.id === verified.credentialId)) throw new AuthError('invalid_passkey');
+
+    const passkey: PasskeyCredential = {
+      id: verified.credentialId,
+      name: name?.trim() ? passkeyName(name) : `Passkey ${passkeys.length + 1}`,
+      createdAt: new Date().toISOString(),
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      ...(verified.transports ? { transports: verified.transports } : {}),
+    };
+    const updated = await backend.users.update({ ...actor, passkeys: [...passkeys, passkey] });
+    await recordAudit('passkey_registered', actor.id, { targetId: actor.id, metadata: { passkey: passkey.name } });
+    return toPublicUser(updated);
+  };
+
+  // Usernameless: the authenticator picks the account, and its user handle says which one it was.
+  const beginPasskeyLogin = async (): Promise<PasskeyRequestOptions> => {
+    const { token, record } = await createActionToken('', '', 'passkey_login', tokenTtl.passkey_login);
+    await backend.tokens.save(record);
+    return buildRequestOptions(relyingParty, token);
+  };
+
+  // A user-verified passkey is possession plus PIN/biometric, so it signs in without the TOTP step.
+  const loginWithPasskey = async (response: AuthenticationResponseJSON, clientId: string, userAgent = ''): Promise<IssuedSession> => {
+    const { challenge } = await takeChallenge(response, 'passkey_login');
+    const userId = userHandleOf(response);
+    const found = userId ? await backend.users.findById(userId) : null;
+    const stored = found?.passkeys?.find(p => p.id === response.id);
+    if (!found || !stored) throw new AuthError('invalid_passkey');
+
+    const attempt = await beginAttempt(found.email, clientId);
+    let signCount: number;
+    try {
+      ({ signCount } = await verifyAuthenticationResponse(response, { challenge, rp: relyingParty }, stored));
+    } catch (err) {
+      await attempt.fail('invalid_credentials');
+      throw err;
+    }
+    if (found.status === 'disabled') {
+      await attempt.fail('disabled');
+      throw new AuthError('account_disabled');
+    }
+    await attempt.succeed();
+
+    const now = new Date().toISOString();
+    const record = await backend.users.update({
+      ...found,
+      passkeys: found.passkeys!.map(p => (p.id === stored.id ? { ...p, signCount, lastUsedAt: now } : p)),
+    });
+    await backend.attempts.clearCounter(emailKey(record.email));
+    await recordAudit('login', record.id, { targetId: record.id, metadata: { twoFactor: false, passkey: stored.name } });
+    return issueSession(record, userAgent);
+  };
+
+  const renamePasskey = async (actorId: string | null, id: string, name: string) => {
+    const actor = await requireActor(actorId);
+    findPasskey(actor, id);
+    const newName = passkeyName(name);
+    const updated = await backend.users.update({
+      ...actor,
+      passkeys: actor.passkeys!.map(p => (p.id === id ? { ...p, name: newName } : p)),
+    });
+    return toPublicUser(updated);
+  };
+
+  const removePasskey = async (actorId: string | null, id: string) => {
+    const actor = await requireActor(actorId);
+    const passkey = findPasskey(actor, id);
+    if (signInMethodCount(actor) === 1) throw new AuthError('last_sign_in_method');
+    const updated = await backend.users.update({ ...actor, passkeys: actor.passkeys!.filter(p => p.id !== id) });
+    await recordAudit('passkey_removed', actor.id, { targetId: actor.id, metadata: { passkey: passkey.name } });
+    return toPublicUser(updated);
+  };
+
+  // Deleting the record is what ends the session: a copy of the token left anywhere stops working.
+  const logout = async (token: string | null) => {
+    const found = await findSession(token);
+    if (!found) return;
+    await backend.sessions.delete([found.session.id]);
+    await recordAudit('logout', found.record.id, { targetId: found.record.id });
+  };
+
+  // --- Active sessions ---
+
+  const toActiveSession = ({ userId, ...session }: SessionRecord, currentSessionId: string | null): ActiveSession => ({
+    ...session,
+    current: session.id === currentSessionId,
+  });
+
+  const listSessions = async (actorId: string | null, currentSessionId: string | null) => {
+    const actor = await requireActor(actorId);
+    return (await backend.sessions.list(actor.id))
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+      .map(session => toActiveSession(session, currentSessionId));
+  };
+
+  // Revoking the session in use is allowed too; it amounts to signing out.
+  const revokeSession = async (actorId: string | null, sessionId: string) => {
+    const actor = await requireActor(actorId);
+    const session = (await backend.sessions.list(actor.id)).find(s => s.id === sessionId);
+    if (!session) throw new AuthError('session_not_found');
+    await backend.sessions.delete([session.id]);
+    await recordAudit('session_revoked', actor.id, { targetId: actor.id, metadata: { device: session.device || session.userAgent } });
+  };
+
+  // Ends every session of `userId` except `keep`; returns how many there were.
+  const revokeSessionsOf = async (actorId: string, userId: string, keep: string | null) => {
+    const revoked = (await backend.sessions.list(userId)).filter(s => s.id !== keep);
+    await backend.sessions.delete(revoked.map(s => s.id));
+    await recordAudit('sessions_revoked', actorId, { targetId: userId, metadata: { count: revoked.length } });
+    return revoked.length;
+  };
+
+  // "Sign out everywhere else".
+  const revokeOtherSessions = async (actorId: string | null, currentSessionId: string | null) => {
+    const actor = await requireActor(actorId);
+    return revokeSessionsOf(actor.id, actor.id, currentSessionId);
+  };
+
+  const revokeUserSessions = async (actorId: string | null, userId: string) => {
+    const actor = await requirePermission(actorId, 'sessions:revoke');
+    const target = await findOrThrow(userId);
+    return revokeSessionsOf(actor.id, target.id, null);
+  };
+
+  // --- Email verification & password recovery ---
+
+  // Replaces any earlier token of the same purpose, so only the latest email works.
+  const sendActionEmail = async (record: UserRecord, purpose: MailedActionPurpose, actorId: string | null, requestLocale?: Locale) => {
+    await backend.tokens.revoke(record.id, purpose);
+    const { token, record: tokenRecord } = await createActionToken(record.id, record.email, purpose, tokenTtl[purpose]);
+    await backend.tokens.save(tokenRecord);
+    const link = buildActionLink(appUrl, purpose, token);
+    const t = mailText(record.locale ?? requestLocale);
+    await mail.send(purpose === 'verify_email'
+      ? {
+          to: record.email,
+          subject: t('mail.verifyEmail.subject'),
+          body: t('mail.verifyEmail.body', { name: record.name, hours: Math.round(tokenTtl[purpose] / 3600000) }),
+          link,
+        }
+      : {
+          to: record.email,
+          subject: t('mail.resetPassword.subject'),
+          body: t('mail.resetPassword.body', { name: record.name, minutes: Math.round(tokenTtl[purpose] / 60000) }),
+          link,
+        });
+    await recordAudit(purpose === 'verify_email' ? 'email_verification_sent' : 'password_reset_requested', actorId, {
+      targetId: record.id,
+      metadata: { email: record.email },
+    });
+  };
+
+  // `validate` runs before the token is spent; if it throws, the token stays usable.
+  const consumeActionToken = async (token: string, purpose: MailedActionPurpose, validate?: (record: UserRecord) => void) => {
+    const found = await backend.tokens.take(await hashActionToken(token));
+    const record = found && found.purpose === purpose && found.expiresAt > Date.now()
+      ? await backend.users.findById(found.userId)
+      : null;
+    // A token is also void once the account's email moved on from the address it was sent to.
+    if (!found || !record || record.email !== found.email) throw new AuthError('invalid_link');
+    try {
+      validate?.(record);
+    } catch (err) {
+      await backend.tokens.save(found);
+      throw err;
+    }
+    return record;
+  };
+
+  const requestEmailVerification = async (actorId: string | null) => {
+    const record = await requireActor(actorId);
+    if (record.emailVerified) throw new AuthError('email_already_verified');
+    await sendActionEmail(record, 'verify_email', record.id);
+  };
+
+  // Works without a session: the link may be opened in another browser.
+  const verifyEmail = async (token: string) => {
+    const record = await consumeActionToken(token, 'verify_email');
+    await backend.users.update({ ...record, emailVerified: true });
+    await recordAudit('email_verified', record.id, { targetId: record.id, metadata: { email: record.email } });
+  };
+
+  // `locale` is the requester's language, used when the account has none stored.
+  const requestPasswordReset = async (email: string, locale?: Locale) => {
+    const record = await backend.users.findByEmail(email);
+    // Same outcome whether or not the account exists, so this cannot be used to probe emails.
+    if (record && record.status !== 'disabled') await sendActionEmail(record, 'reset_password', null, locale);
+  };
+
+  const resetPassword = async (token: string, newPassword: string) => {
+    const { password, ...record } = await consumeActionToken(token, 'reset_password', r => assertPolicy(newPassword, r));
+    await backend.users.update({
+      ...record,
+      passwordHash: await hashPassword(newPassword, hashIterations),
+      mustChangePassword: false,
+      emailVerified: true, // Following the link proves access to the inbox
+    });
+    await backend.attempts.clearCounter(emailKey(record.email));
+    await recordAudit('password_reset', record.id, { targetId: record.id });
+  };
+
+  // --- Account management ---
+
+  const otherActiveAdmins = async (id: string) =>
+    (await backend.users.list()).items.filter(u => u.id !== id && u.role === 'admin' && u.status !== 'disabled').length;
+
+  // Shared by self-service and admin edits: a name or email sent is held to the register rules,
+  // and a new email must be unique and re-verified.
+  const applyUserChanges = async (
+    actorId: string,
+    record: UserRecord,
+    changes: UserUpdate,
+    auditType: 'profile_updated' | 'user_updated'
+  ) => {
+    if (changes.email !== undefined) changes = { ...changes, email: normalizeEmail(changes.email) };
+    const [issue] = newUserIssues({ name: record.name, email: record.email, ...changes }).filter(i => changes[i.field] !== undefined);
+    if (issue) throw new AuthError(issue.code);
+    if (changes.locale !== undefined && !isLocale(changes.locale)) throw new AuthError('invalid_request');
+    const emailChanged = changes.email !== undefined && changes.email !== record.email;
+    if (emailChanged) await assertEmailAvailable(changes.email!, record.id);
+    const saved = await backend.users.update({ ...record, ...changes, emailVerified: emailChanged ? false : record.emailVerified });
+    const fields = (Object.keys(changes) as (keyof UserUpdate)[]).filter(key => changes[key] !== record[key]);
+    await recordAudit(auditType, actorId, { targetId: record.id, metadata: { fields: fields.join(',') } });
+    if (emailChanged) await sendActionEmail(saved, 'verify_email', actorId);
+    return toPublicUser(saved);
+  };
+
+  // Without users:list only the caller's own record leaves the service.
+  const listUsers = async (actorId: string | null) => {
+    const actor = await requireActor(actorId);
+    if (!hasPermission(toPublicUser(actor), 'users:list')) return [toPublicUser(actor)];
+    return (await backend.users.list()).items.map(toPublicUser);
+  };
+
+  const completePasswordReset = async (actorId: string | null, newPassword: string) => {
+    const { password, ...record } = await requireActor(actorId);
+    assertPolicy(newPassword, record);
+    await backend.users.update({ ...record, passwordHash: await hashPassword(newPassword, hashIterations), mustChangePassword: false });
+    await recordAudit('password_changed', record.id, { targetId: record.id, metadata: { forced: true } });
+  };
+
+  const updateProfile = async (actorId: string | null, changes: UserUpdate) => {
+    const record = await requireActor(actorId);
+    return applyUserChanges(record.id, record, changes, 'profile_updated');
+  };
+
+  // Null removes the avatar.
+  const updateAvatar = async (actorId: string | null, images: AvatarImages | null) => {
+    const { avatar, ...record } = await requireActor(actorId);
+    const saved = await backend.users.update(images ? { ...record, avatar: readAvatarImages(images) } : record);
+    await recordAudit('profile_updated', record.id, { targetId: record.id, metadata: { fields: 'avatar' } });
+    return toPublicUser(saved);
+  };
+
+  const changePassword = async (actorId: string | null, currentPassword: string, newPassword: string) => {
+    const record = await requireActor(actorId);
+    if (!(await checkPassword(record, currentPassword))) throw new AuthError('wrong_current_password');
+    assertPolicy(newPassword, record);
+    const { password, ...rest } = record;
+    await backend.users.update({ ...rest, passwordHash: await hashPassword(newPassword, hashIterations) });
+    await recordAudit('password_changed', record.id, { targetId: record.id, metadata: { forced: false } });
+  };
+
+  // The secret is only persisted once confirmTwoFactorEnrollment proves the authenticator has it.
+  const beginTwoFactorEnrollment = async (actorId: string | null): Promise<TwoFactorEnrollment> => {
+    const record = await requireActor(actorId);
+    if (record.twoFactor) throw new AuthError('two_factor_already_enabled');
+    const secret = generateTotpSecret();
+    return { secret, otpauthUri: buildOtpAuthUri(secret, record.email, APP_NAME) };
+  };
+
+  const confirmTwoFactorEnrollment = async (actorId: string | null, secret: string, code: string) => {
+    const record = await requireActor(actorId);
+    if (record.twoFactor) throw new AuthError('two_factor_already_enabled');
+    // The secret comes back from the client; anything shorter than ours (32 chars) was not handed out here.
+    const step = secret.length >= 32 ? await verifyTotp(secret, code).catch(() => undefined) : undefined;
+    if (step === undefined) throw new AuthError('two_factor_enrollment_expired');
+    if (step === null) throw new AuthError('invalid_two_factor_code');
+
+    const recoveryCodes = generateRecoveryCodes();
+    await backend.users.update({
+      ...record,
+      twoFactor: {
+        secret,
+        enabledAt: new Date().toISOString(),
+        recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+        lastUsedStep: step,
+      },
+    });
+    await recordAudit('two_factor_enabled', record.id, { targetId: record.id });
+    return recoveryCodes;
+  };
+
+  // Accounts without a password (provider or passkey only) confirm with a current authenticator
+  // or recovery code instead; a used TOTP step can't be replayed here either.
+  const disableTwoFactor = async (actorId: string | null, confirmation: string) => {
+    const actor = await requireActor(actorId);
+    if (toPublicUser(actor).hasPassword) {
+      if (!(await checkPassword(actor, confirmation))) throw new AuthError('wrong_current_password');
+    } else if (!(await consumeSecondFactor(actor, confirmation))) {
+      throw new AuthError('invalid_two_factor_code');
+    }
+    const { twoFactor, ...record } = actor;
+    await backend.users.update(record);
+    await recordAudit('two_factor_disabled', record.id, { targetId: record.id });
+  };
+
+  const updateUser = async (actorId: string | null, id: string, changes: UserUpdate) => {
+    const actor = await requirePermission(actorId, 'users:edit');
+    return applyUserChanges(actor.id, await findOrThrow(id), changes, 'user_updated');
+  };
+
+  const setUserRole = async (actorId: string | null, id: string, role: Role) => {
+    const actor = await requirePermission(actorId, 'users:edit');
+    const record = await findOrThrow(id);
+    if (record.role === 'admin' && role !== 'admin' && (await otherActiveAdmins(id)) === 0) {
+      throw new AuthError('last_admin');
+    }
+    const saved = await backend.users.update({ ...record, role });
+    await recordAudit('role_changed', actor.id, { targetId: id, metadata: { from: record.role, to: role } });
+    return toPublicUser(saved);
+  };
+
+  const setUserStatus = async (actorId: string | null, id: string, status: UserStatus) => {
+    const actor = await requirePermission(actorId, 'users:edit');
+    if (id === actor.id) throw new AuthError('cannot_disable_self');
+    const record = await findOrThrow(id);
+    const saved = await backend.users.update({ ...record, status });
+    await recordAudit('status_changed', actor.id, { targetId: id, metadata: { from: record.status, to: status } });
+    return toPublicUser(saved);
+  };
+
+  // The record plus everything keyed by it: memberships and sessions.
+  const removeAccount = async (id: string) => {
+    await backend.users.delete(id);
+    for (const { organizationId } of await backend.organizations.memberships({ userId: id })) {
+      await backend.organizations.removeMembership(organizationId, id);
+    }
+    await backend.sessions.delete((await backend.sessions.list(id)).map(s => s.id));
+  };
+
+  const deleteUser = async (actorId: string | null, id: string) => {
+    const actor = await requirePermission(actorId, 'users:delete');
+    if (id === actor.id) throw new AuthError('cannot_delete_self');
+    const record = await findOrThrow(id);
+    await removeAccount(id);
+    // The record is gone, so keep enough to tell who it was.
+    await recordAudit('user_deleted', actor.id, { targetId: id, metadata: { name: record.name, email: record.email } });
+  };
+
+  const forcePasswordReset = async (actorId: string | null, id: string) => {
+    const actor = await requirePermission(actorId, 'users:edit');
+    const { password, ...record } = await findOrThrow(id);
+    const temporary = generateTemporaryPassword();
+    await backend.users.update({ ...record, passwordHash: await hashPassword(temporary, hashIterations), mustChangePassword: true });
+    await recordAudit('password_reset_forced', actor.id, { targetId: id });
+    return temporary;
+  };
+
+  // Checks every row first and writes nothing unless all pass; a failed write midway removes the
+  // accounts already created. Imported accounts have no password: they start in the forced-reset
+  // state and get in through the password-reset email flow.
+  const importUsers = async (actorId: string | null, input: UserImportRow[], { dryRun = false } = {}): Promise<ImportReport> => {
+    const actor = await requirePermission(actorId, 'users:import');
+    if (input.length > MAX_IMPORT_ROWS) throw new AuthError('payload_too_large');
+
+    // Normalized before any check, so A@x.com and a@x.com in one file are reported as duplicates
+    // instead of failing the second create midway.
+    const rows = input.map(row => ({ ...row, email: normalizeEmail(row.email) }));
+    const existing = new Set((await backend.users.list()).items.map(u => normalizeEmail(u.email)));
+    const seen = new Set<string>();
+    const results: ImportRowResult[] = rows.map((row, index) => {
+      const issues = newUserIssues(row);
+      const emailChecked = !issues.some(issue => issue.field === 'email');
+      if (emailChecked && existing.has(row.email)) issues.push({ field: 'email', code: 'email_taken' });
+      else if (emailChecked && seen.has(row.email)) issues.push({ field: 'email', code: 'duplicate_email' });
+      if (row.role !== undefined && !ROLES.includes(row.role as Role)) issues.push({ field: 'role', code: 'invalid_value' });
+      if (row.status !== undefined && !USER_STATUSES.includes(row.status as UserStatus)) issues.push({ field: 'status', code: 'invalid_value' });
+      seen.add(row.email);
+      return { index, email: row.email, issues };
+    });
+
+    const report: ImportReport = { dryRun, total: rows.length, created: 0, rows: results };
+    if (dryRun || results.some(r => r.issues.length)) return report;
+
+    const created: UserRecord[] = [];
+    try {
+      for (const row of rows) {
+        created.push(await backend.users.create({
+          id: generateId(),
+          createdAt: new Date().toISOString(),
+          name: row.name.trim(),
+          email: row.email,
+          bio: row.bio ?? '',
+          role: (row.role as Role) ?? 'user',
+          status: (row.status as UserStatus) ?? 'active',
+          emailVerified: false,
+          mustChangePassword: true,
+        }));
+      }
+    } catch (err) {
+      for (const record of created) await backend.users.delete(record.id);
+      throw err;
+    }
+    for (const record of created) {
+      await recordAudit('user_imported', actor.id, { targetId: record.id, metadata: { email: record.email, role: record.role } });
+    }
+    return { ...report, created: created.length };
+  };
+
+  // --- Organizations ---
+  // Access to an organization comes only from membership; the account-wide role plays no part.
+
+  const organizationName = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > MAX_ORGANIZATION_NAME_LENGTH) throw new AuthError('invalid_name');
+    return trimmed;
+  };
+
+  const toSummary = async (organization: Organization, { role }: Membership): Promise<OrganizationSummary> => ({
+    ...organization,
+    role,
+    memberCount: (await backend.organizations.memberships({ organizationId: organization.id })).length,
+  });
+
+  const toInvitation = ({ hash, ...invitation }: InvitationRecord): Invitation => invitation;
+
+  // Outsiders get the same answer for an organization they are not in as for one that doesn't exist.
+  const requireMembership = async (actorId: string | null, organizationId: string, permission: OrganizationPermission) => {
+    const actor = await requireActor(actorId);
+    const organization = await backend.organizations.find(organizationId);
+    const members = organization ? await backend.organizations.memberships({ organizationId }) : [];
+    const membership = members.find(m => m.userId === actor.id);
+    if (!organization || !membership) throw new AuthError('organization_not_found');
+    if (!hasOrganizationPermission(membership, permission)) throw new AuthError('permission_denied');
+    return { actor, organization, membership, members };
+  };
+
+  const ownerCount = (members: Membership[]) => members.filter(m => m.role === 'owner').length;
+
+  const findInvitation = async (token: string) => {
+    const invitation = await backend.organizations.findInvitation(await hashActionToken(token));
+    if (!invitation || invitation.expiresAt <= new Date().toISOString()) throw new AuthError('invalid_invitation');
+    return invitation;
+  };
+
+  // An existing member keeps the role they have; the invitation is used up either way.
+  const joinOrganization = async (record: UserRecord, invitation: InvitationRecord) => {
+    const organization = await backend.organizations.find(invitation.organizationId);
+    if (!organization) throw new AuthError('invalid_invitation');
+    const [existing] = await backend.organizations.memberships({ organizationId: organization.id, userId: record.id });
+    const membership = existing ?? { organizationId: organization.id, userId: record.id, role: invitation.role, joinedAt: new Date().toISOString() };
+    if (!existing) await backend.organizations.saveMembership(membership);
+    await backend.organizations.deleteInvitation(invitation.id);
+    if (!existing) {
+      await recordAudit('member_joined', record.id, {
+        targetId: record.id,
+        metadata: { organizationId: organization.id, role: membership.role, invitedBy: invitation.invitedBy },
+      });
+    }
+    return toSummary(organization, membership);
+  };
+
+  const listOrganizations = async (actorId: string | null) => {
+    const actor = await requireActor(actorId);
+    const summaries: OrganizationSummary[] = [];
+    for (const membership of await backend.organizations.memberships({ userId: actor.id })) {
+      const organization = await backend.organizations.find(membership.organizationId);
+      if (organization) summaries.push(await toSummary(organization, membership));
+    }
+    return summaries.sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  const createOrganization = async (actorId: string | null, name: string) => {
+    const actor = await requireActor(actorId);
+    const organization = await backend.organizations.create({ id: generateId(), name: organizationName(name), createdAt: new Date().toISOString() });
+    const membership: Membership = { organizationId: organization.id, userId: actor.id, role: 'owner', joinedAt: organization.createdAt };
+    await backend.organizations.saveMembership(membership);
+    await recordAudit('organization_created', actor.id, { targetId: actor.id, metadata: { organizationId: organization.id, name: organization.name } });
+    return toSummary(organization, membership);
+  };
+
+  const listMembers = async (actorId: string | null, organizationId: string) => {
+    const { members } = await requireMembership(actorId, organizationId, 'members:read');
+    const result: OrganizationMember[] = [];
+    for (const { userId, role, joinedAt } of members) {
+      const record = await backend.users.findById(userId);
+      if (record) result.push({ user: toPublicUser(record), role, joinedAt });
+    }
+    return result.sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  };
+
+  const setMemberRole = async (actorId: string | null, organizationId: string, userId: string, role: OrganizationRole) => {
+    const { actor, membership, members } = await requireMembership(actorId, organizationId, 'members:manage');
+    const target = members.find(m => m.userId === userId);
+    if (!target) throw new AuthError('user_not_found');
+    if ((target.role === 'owner' || role === 'owner') && !hasOrganizationPermission(membership, 'owners:manage')) {
+      throw new AuthError('permission_denied');
+    }
+    if (target.role === 'owner' && role !== 'owner' && ownerCount(members) === 1) throw new AuthError('last_owner');
+    const updated = { ...target, role };
+    await backend.organizations.saveMembership(updated);
+    await recordAudit('member_role_changed', actor.id, { targetId: userId, metadata: { organizationId, from: target.role, to: role } });
+    const record = await findOrThrow(userId);
+    return { user: toPublicUser(record), role, joinedAt: updated.joinedAt };
+  };
+
+  // Anyone may leave; removing someone else takes members:manage (owners:manage for an owner).
+  const removeMember = async (actorId: string | null, organizationId: string, userId: string) => {
+    const { actor, membership, members } = await requireMembership(actorId, organizationId, 'members:read');
+    const target = members.find(m => m.userId === userId);
+    if (!target) throw new AuthError('user_not_found');
+    if (userId !== actor.id) {
+      const needed: OrganizationPermission = target.role === 'owner' ? 'owners:manage' : 'members:manage';
+      if (!hasOrganizationPermission(membership, needed)) throw new AuthError('permission_denied');
+    }
+    if (target.role === 'owner' && ownerCount(members) === 1) throw new AuthError('last_owner');
+    await backend.organizations.removeMembership(organizationId, userId);
+    await recordAudit('member_removed', actor.id, { targetId: userId, metadata: { organizationId, role: target.role } });
+  };
+
+  const listInvitations = async (actorId: string | null, organizationId: string) => {
+    await requireMembership(actorId, organizationId, 'members:manage');
+    return (await backend.organizations.invitations(organizationId)).map(toInvitation);
+  };
+
+  // People who already have an account are sent to accept it signed in; everyone else to
+  // registration, with the email filled in.
+  const inviteMember = async (actorId: string | null, organizationId: string, email: string, role: OrganizationRole) => {
+    const { actor, organization, membership, members } = await requireMembership(actorId, organizationId, 'members:manage');
+    email = normalizeEmail(email);
+    if (!EMAIL_PATTERN.test(email)) throw new AuthError('invalid_email');
+    if (role === 'owner' && !hasOrganizationPermission(membership, 'owners:manage')) throw new AuthError('permission_denied');
+    const existing = await backend.users.findByEmail(email);
+    if (existing && members.some(m => m.userId === existing.id)) throw new AuthError('already_member');
+
+    const token = toBase64Url(randomBytes(32));
+    const now = Date.now();
+    const invitation: InvitationRecord = {
+      id: generateId(),
+      organizationId,
+      email,
+      role,
+      invitedBy: actor.id,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + invitationTtlMs).toISOString(),
+      hash: await hashActionToken(token),
+    };
+    await backend.organizations.saveInvitation(invitation);
+    const link = new URL(existing ? `invitation?${new URLSearchParams({ token })}` : `register?${new URLSearchParams({ invitation: token })}`, appUrl).href;
+    const t = mailText(existing?.locale ?? actor.locale);
+    await mail.send({
+      to: email,
+      subject: t('mail.invitation.subject', { organization: organization.name }),
+      body: t('mail.invitation.body', { inviter: actor.name, organization: organization.name, days: Math.round(invitationTtlMs / 86400000) }),
+      link,
+    });
+    await recordAudit('member_invited', actor.id, { targetId: existing?.id ?? null, metadata: { organizationId, email, role } });
+    return toInvitation(invitation);
+  };
+
+  const revokeInvitation = async (actorId: string | null, organizationId: string, invitationId: string) => {
+    const { actor } = await requireMembership(actorId, organizationId, 'members:manage');
+    const invitation = (await backend.organizations.invitations(organizationId)).find(i => i.id === invitationId);
+    if (!invitation) throw new AuthError('invalid_invitation');
+    await backend.organizations.deleteInvitation(invitation.id);
+    await recordAudit('invitation_revoked', actor.id, { metadata: { organizationId, email: invitation.email } });
+  };
+
+  // Works signed out, so the registration page can show who is inviting whom.
+  const previewInvitation = async (token: string): Promise<InvitationPreview> => {
+    const invitation = await findInvitation(token);
+    const organization = await backend.organizations.find(invitation.organizationId);
+    if (!organization) throw new AuthError('invalid_invitation');
+    return { organizationName: organization.name, email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt };
+  };
+
+  const acceptInvitation = async (actorId: string | null, token: string) => {
+    const actor = await requireActor(actorId);
+    const invitation = await findInvitation(token);
+    if (normalizeEmail(invitation.email) !== normalizeEmail(actor.email)) throw new AuthError('invitation_email_mismatch');
+    const summary = await joinOrganization(actor, invitation);
+    if (!actor.emailVerified) await backend.users.update({ ...actor, emailVerified: true });
+    return summary;
+  };
+
+  // --- Personal data & account deletion ---
+
+  // Credentials (password hash, TOTP secret, passkey keys) are left out: they are of no use to
+  // the owner and would only make a leaked download worse.
+  const exportPersonalData = async (actorId: string | null): Promise<PersonalDataExport> => {
+    const actor = await requireActor(actorId);
+    const organizations: PersonalDataExport['organizations'] = [];
+    for (const membership of await backend.organizations.memberships({ userId: actor.id })) {
+      const organization = await backend.organizations.find(membership.organizationId);
+      if (organization) organizations.push({ ...(await toSummary(organization, membership)), joinedAt: membership.joinedAt });
+    }
+    const data: PersonalDataExport = {
+      exportedAt: new Date().toISOString(),
+      user: toPublicUser(actor),
+      organizations,
+      sessions: (await backend.sessions.list(actor.id)).map(({ userId, ...session }) => session),
+      activity: (await backend.audit.list()).filter(e => e.actorId === actor.id || e.targetId === actor.id),
+      failedLogins: (await backend.attempts.recentFailures(Number.MAX_SAFE_INTEGER)).filter(f => normalizeEmail(f.email) === normalizeEmail(actor.email)),
+    };
+    await recordAudit('data_exported', actor.id, { targetId: actor.id });
+    return data;
+  };
+
+  // Confirmed with the password, or by typing the email for accounts that have none. The account
+  // is signed out everywhere and purged once the grace period ends, unless its owner signs in first.
+  const requestAccountDeletion = async (actorId: string | null, confirmation: string) => {
+    const actor = await requireActor(actorId);
+    if (toPublicUser(actor).hasPassword) {
+      if (!(await checkPassword(actor, confirmation))) throw new AuthError('wrong_current_password');
+    } else if (confirmation.trim().toLowerCase() !== actor.email.toLowerCase()) {
+      throw new AuthError('deletion_not_confirmed');
+    }
+    if (actor.role === 'admin' && (await otherActiveAdmins(actor.id)) === 0) throw new AuthError('last_admin');
+    // Leaving other members behind in an organization nobody owns is not allowed either.
+    for (const { organizationId, role } of await backend.organizations.memberships({ userId: actor.id })) {
+      const members = await backend.organizations.memberships({ organizationId });
+      if (role === 'owner' && ownerCount(members) === 1 && members.length > 1) throw new AuthError('last_owner');
+    }
+
+    const scheduledAt = new Date(Date.now() + accountDeletionGraceMs).toISOString();
+    await backend.users.update({ ...actor, deletionScheduledAt: scheduledAt });
+    await backend.sessions.delete((await backend.sessions.list(actor.id)).map(s => s.id));
+    await recordAudit('deletion_requested', actor.id, { targetId: actor.id, metadata: { scheduledAt } });
+    const t = mailText(actor.locale);
+    await mail.send({
+      to: actor.email,
+      subject: t('mail.deletion.subject'),
+      body: t('mail.deletion.body', { name: actor.name, days: Math.round(accountDeletionGraceMs / 86400000) }),
+      link: new URL('login', appUrl).href,
+    });
+  };
+
+  const cancelAccountDeletion = async ({ deletionScheduledAt, ...record }: UserRecord) => {
+    const saved = await backend.users.update(record);
+    await recordAudit('deletion_cancelled', record.id, { targetId: record.id, metadata: { scheduledAt: deletionScheduledAt! } });
+    return saved;
+  };
+
+  // Called periodically by each client; returns how many accounts were purged. The audit log keeps
+  // their events, stripped of the account's id, name and emails.
+  const purgeDeletedAccounts = async () => {
+    const now = new Date().toISOString();
+    const due = (await backend.users.list()).items.filter(u => u.deletionScheduledAt && u.deletionScheduledAt <= now);
+    for (const record of due) {
+      await removeAccount(record.id);
+      for (const purpose of Object.keys(DEFAULT_TOKEN_TTL_MS) as ActionTokenPurpose[]) {
+        await backend.tokens.revoke(record.id, purpose);
+      }
+      await backend.attempts.forget(record.email);
+      await backend.audit.anonymize(record.id, [record.name, record.email, ...(record.providers ?? []).map(p => p.email)]);
+      await recordAudit('account_purged', null);
+    }
+    return due.length;
+  };
+
+  const getFailedLoginAttempts = async (actorId: string | null, limit = 20) => {
+    await requirePermission(actorId, 'audit:read');
+    return backend.attempts.recentFailures(limit);
+  };
+
+  const getAuditLog = async (actorId: string | null) => {
+    await requirePermission(actorId, 'audit:read');
+    return backend.audit.list();
+  };
+
+  return {
+    passwordPolicy: policy,
+    resolveSession,
+    refreshSession,
+    login,
+    verifyTwoFactorLogin,
+    cancelTwoFactorLogin,
+    register,
+    logout,
+    listSessions,
+    revokeSession,
+    revokeOtherSessions,
+    revokeUserSessions,
+    signInWithIdentity,
+    linkIdentity,
+    unlinkProvider,
+    beginPasskeyRegistration,
+    finishPasskeyRegistration,
+    beginPasskeyLogin,
+    loginWithPasskey,
+    renamePasskey,
+    removePasskey,
+    requestEmailVerification,
+    verifyEmail,
+    requestPasswordReset,
+    resetPassword,
+    listUsers,
+    completePasswordReset,
+    updateProfile,
+    updateAvatar,
+    changePassword,
+    beginTwoFactorEnrollment,
+    confirmTwoFactorEnrollment,
+    disableTwoFactor,
+    updateUser,
+    setUserRole,
+    setUserStatus,
+    deleteUser,
+    forcePasswordReset,
+    importUsers,
+    listOrganizations,
+    createOrganization,
+    listMembers,
+    setMemberRole,
+    removeMember,
+    listInvitations,
+    inviteMember,
+    revokeInvitation,
+    previewInvitation,
+    acceptInvitation,
+    exportPersonalData,
+    requestAccountDeletion,
+    purgeDeletedAccounts,
+    getFailedLoginAttempts,
+    getAuditLog,
+  };
+};
@@ -0,0 +1,59 @@
+import { AvatarImages, AvatarSize } from '../types';
+import { AuthError } from './authErrors';
+import { fromBase64 } from './encoding';
+
+// Avatars are cropped and resized in the browser (see ./avatarImage) and stored on the user as
+// one data: URL per size. The auth service only accepts what this module checks: WebP or PNG,
+// square, exactly the expected size, and small enough to keep the user record light.
+
+export const AVATAR_SIZES: AvatarSize[] = [32, 128, 256];
+export const AVATAR_INPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const MAX_AVATAR_INPUT_BYTES = 5 * 1024 * 1024; // The picked file, before resizing
+export const MAX_AVATAR_IMAGE_BYTES = 256 * 1024; // Each stored size, decoded
+
+const DATA_URL_PATTERN = /^data:image\/(webp|png);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Width and height from the file header, or null when it isn't a well-formed PNG/WebP.
+const imageDimensions = (bytes: Uint8Array, type: string): [number, number] | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (type === 'png') {
+    const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+    if (bytes.length < 24 || signature.some((b, i) => bytes[i] !== b) || ascii(bytes, 12, 4) !== 'IHDR') return null;
+    return [view.getUint32(16), view.getUint32(20)];
+  }
+  if (bytes.length < 30 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WEBP') return null;
+  switch (ascii(bytes, 12, 4)) {
+    case 'VP8 ': // Lossy: dimensions follow the keyframe start code
+      if (bytes[23] !== 0x9d || bytes[24] !== 0x01 || bytes[25] !== 0x2a) return null;
+      return [view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff];
+    case 'VP8L': { // Lossless: two 14-bit fields, stored minus one
+      if (bytes[20] !== 0x2f) return null;
+      const bits = view.getUint32(21, true);
+      return [(bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1];
+    }
+    case 'VP8X': // Extended: 24-bit canvas size, stored minus one
+      return [(view.getUint32(24, true) & 0xffffff) + 1, (view.getUint32(27, true) & 0xffffff) + 1];
+    default:
+      return null;
+  }
+};
+
+// Validates untrusted input (a request body, an imported record) as a full set of avatar images.
+export const readAvatarImages = (value: unknown): AvatarImages => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new AuthError('invalid_avatar');
+  const images = value as Record<string, unknown>;
+  const result = {} as AvatarImages;
+  for (const size of AVATAR_SIZES) {
+    const url = images[size];
+    const match = typeof url === 'string' ? DATA_URL_PATTERN.exec(url) : null;
+    if (!match) throw new AuthError('invalid_avatar');
+    const bytes = fromBase64(match[2]);
+    if (bytes.length > MAX_AVATAR_IMAGE_BYTES) throw new AuthError('avatar_too_large');
+    const dimensions = imageDimensions(bytes, match[1]);
+    if (!dimensions || dimensions[0] !== size || dimensions[1] !== size) throw new AuthError('invalid_avatar');
+    result[size] = url as string;
+  }
+  return result;
+};
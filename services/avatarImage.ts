@@ -0,0 +1,69 @@
+import { AvatarImages } from '../types';
+import { AuthError } from './authErrors';
+import { AVATAR_INPUT_TYPES, AVATAR_SIZES, MAX_AVATAR_IMAGE_BYTES, MAX_AVATAR_INPUT_BYTES } from './avatar';
+
+// The browser half of avatars: checks and decodes the picked file, then renders the chosen
+// square at every stored size. Nothing is uploaded until the result is.
+
+// The square to keep, in source pixels.
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+const WEBP_QUALITY = 0.85;
+
+// Type and size are checked before decoding, so a huge or odd file fails fast.
+export const loadAvatarFile = async (file: File): Promise<HTMLImageElement> => {
+  if (!AVATAR_INPUT_TYPES.includes(file.type)) throw new AuthError('avatar_unsupported_type');
+  if (file.size > MAX_AVATAR_INPUT_BYTES) throw new AuthError('avatar_too_large');
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode(); // Once decoded it can still be drawn after the URL is revoked
+    if (!image.naturalWidth || !image.naturalHeight) throw new Error('Empty image');
+    return image;
+  } catch {
+    throw new AuthError('invalid_avatar');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// The largest centered square, as the editor starts out.
+export const centeredCrop = ({ naturalWidth, naturalHeight }: HTMLImageElement): AvatarCrop => {
+  const size = Math.min(naturalWidth, naturalHeight);
+  return { x: (naturalWidth - size) / 2, y: (naturalHeight - size) / 2, size };
+};
+
+// Browsers that cannot encode WebP quietly return PNG instead; asking for PNG outright then
+// gets the lossless encoder rather than whatever the fallback happens to be.
+const encode = (canvas: HTMLCanvasElement) => {
+  const webp = canvas.toDataURL('image/webp', WEBP_QUALITY);
+  return webp.startsWith('data:image/webp') ? webp : canvas.toDataURL('image/png');
+};
+
+const decodedBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Largest size first, each one drawn from the previous rather than from the original, so small
+// sizes stay sharp where a single big downscale would alias.
+export const renderAvatar = (image: CanvasImageSource, crop: AvatarCrop): AvatarImages => {
+  const images = {} as AvatarImages;
+  let source: CanvasImageSource = image;
+  let area = crop;
+  for (const size of [...AVATAR_SIZES].sort((a, b) => b - a)) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) throw new AuthError('invalid_avatar');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, area.x, area.y, area.size, area.size, 0, 0, size, size);
+    images[size] = encode(canvas);
+    if (decodedBytes(images[size]) > MAX_AVATAR_IMAGE_BYTES) throw new AuthError('avatar_too_large');
+    source = canvas;
+    area = { x: 0, y: 0, size };
+  }
+  return images;
+};
@@ -0,0 +1,23 @@
+import { BioOptions, BioTone, BioLength, BioLanguage, BioPerson } from '../types';
+
+// Shared by the bio form and the API server, so both agree on what can be asked for.
+
+export const BIO_TONES: readonly BioTone[] = ['professional', 'friendly', 'creative', 'formal'];
+export const BIO_LENGTHS: readonly BioLength[] = ['short', 'medium', 'long'];
+export const BIO_LANGUAGES: readonly BioLanguage[] = ['pt-BR', 'en', 'es'];
+export const BIO_PERSONS: readonly BioPerson[] = ['first', 'third'];
+
+export const BIO_MAX_LENGTH: Record<BioLength, number> = {
+  short: 160,
+  medium: 250,
+  long: 400,
+};
+
+export const MAX_BIO_DRAFTS = 3;
+
+export const DEFAULT_BIO_OPTIONS: BioOptions = {
+  tone: 'professional',
+  length: 'medium',
+  language: 'pt-BR',
+  person: 'first',
+};
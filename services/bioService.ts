@@ -0,0 +1,105 @@
+import { BioOptions } from '../types';
+import { DEFAULT_API_BASE_URL, isRecord, toError } from './httpClient';
+import { AuthError, isAuthErrorCode } from './authErrors';
+
+// Bios are generated by the API server (POST /ai/bio), which holds the model key and
+// enforces rate and size limits; nothing here ever talks to the model directly.
+
+export interface BioDraftRequest {
+  name: string;
+  interests: string;
+  options: BioOptions;
+  drafts?: number; // 1 to MAX_BIO_DRAFTS
+}
+
+// One line of the stream as server/bio.ts writes it.
+type BioStreamEvent =
+  | { type: 'delta' | 'done'; draft: number; text: string }
+  | { type: 'error'; draft: number; error: Record<string, unknown> };
+
+const isBioStreamEvent = (value: unknown): value is BioStreamEvent =>
+  isRecord(value) && typeof value.draft === 'number' && (
+    ((value.type === 'delta' || value.type === 'done') && typeof value.text === 'string') ||
+    (value.type === 'error' && isRecord(value.error))
+  );
+
+// A line that isn't a well-formed event means the server sent something broken, not that the
+// connection failed.
+const parseEvent = (line: string): BioStreamEvent => {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    throw new AuthError('internal_error');
+  }
+  if (!isBioStreamEvent(value)) throw new AuthError('internal_error');
+  return value;
+};
+
+// Streams the drafts, calling onProgress with every draft's text so far, and resolves to the
+// finished ones. Drafts that failed are left out; if none finished, the first error is thrown.
+export const streamBioDrafts = async (
+  request: BioDraftRequest,
+  onProgress: (drafts: string[]) => void,
+  signal?: AbortSignal,
+  baseUrl = DEFAULT_API_BASE_URL
+): Promise<string[]> => {
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/ai/bio`, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { Accept: 'application/x-ndjson', 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new AuthError('network_error');
+  }
+  if (!response.ok || !response.body) throw toError(response.status, await response.json().catch(() => undefined));
+
+  const texts: string[] = Array.from({ length: request.drafts ?? 1 }, () => '');
+  const finished = new Set<number>();
+  let firstError: AuthError | null = null;
+
+  const apply = (event: BioStreamEvent) => {
+    if (event.draft < 0 || event.draft >= texts.length) return;
+    if (event.type === 'delta') texts[event.draft] += event.text;
+    if (event.type === 'done') {
+      texts[event.draft] = event.text;
+      finished.add(event.draft);
+    }
+    if (event.type === 'error') {
+      const { code, message } = event.error;
+      texts[event.draft] = '';
+      firstError ??= new AuthError(isAuthErrorCode(code) ? code : 'ai_unavailable', typeof message === 'string' ? message : undefined);
+    }
+    onProgress([...texts]);
+  };
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.filter(line => line.trim()).forEach(line => apply(parseEvent(line)));
+    }
+    if (buffer.trim()) apply(parseEvent(buffer)); // A last line without its newline, or cut short
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    if (err instanceof AuthError) {
+      reader.cancel().catch(() => {}); // Nothing more can be read from a broken stream
+      throw err;
+    }
+    throw new AuthError('network_error');
+  }
+
+  const drafts = texts.filter((_, i) => finished.has(i));
+  if (!drafts.length) throw firstError ?? new AuthError('ai_unavailable');
+  return drafts;
+};
@@ -0,0 +1,89 @@
+// Just enough CBOR (RFC 8949) to read WebAuthn attestation objects and COSE keys: integers,
+// byte/text strings, arrays, maps, tags and simple values. Maps keep their keys as decoded, so
+// COSE's integer labels come back as numbers.
+
+export type CborValue = number | bigint | string | Uint8Array | boolean | null | undefined | CborValue[] | Map<CborValue, CborValue>;
+
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+// Decodes one item starting at `offset` and returns it with the offset just past it; authenticator
+// data appends a COSE key with more bytes after it, so callers need to know where it ended.
+export const decodeCborItem = (bytes: Uint8Array, offset = 0): [CborValue, number] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = offset;
+
+  const need = (length: number) => {
+    if (position + length > bytes.length) throw new Error('CBOR: unexpected end of input');
+  };
+
+  const readLength = (info: number): number | bigint => {
+    if (info < 24) return info;
+    const size = [1, 2, 4, 8][info - 24];
+    if (size === undefined) throw new Error(`CBOR: unsupported length encoding ${info}`);
+    need(size);
+    const start = position;
+    position += size;
+    if (size === 1) return view.getUint8(start);
+    if (size === 2) return view.getUint16(start);
+    if (size === 4) return view.getUint32(start);
+    const big = view.getBigUint64(start);
+    return big <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(big) : big;
+  };
+
+  const readCount = (info: number) => {
+    const count = readLength(info);
+    if (typeof count === 'bigint') throw new Error('CBOR: length too large');
+    return count;
+  };
+
+  const readItem = (): CborValue => {
+    need(1);
+    const initial = bytes[position++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1: {
+        const value = readLength(info);
+        return typeof value === 'bigint' ? -1n - value : -1 - value;
+      }
+      case 2:
+      case 3: {
+        const length = readCount(info);
+        need(length);
+        const chunk = bytes.slice(position, position + length);
+        position += length;
+        return major === 2 ? chunk : decoder.decode(chunk);
+      }
+      case 4:
+        return Array.from({ length: readCount(info) }, readItem);
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        for (let i = readCount(info); i > 0; i--) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 6:
+        readLength(info); // Tags only annotate the item that follows
+        return readItem();
+      default:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        throw new Error(`CBOR: unsupported simple value ${info}`);
+    }
+  };
+
+  const value = readItem();
+  return [value, position];
+};
+
+export const decodeCbor = (bytes: Uint8Array): CborValue => {
+  const [value, end] = decodeCborItem(bytes);
+  if (end !== bytes.length) throw new Error('CBOR: trailing bytes');
+  return value;
+};
@@ -0,0 +1,20 @@
+// Bundled blocklist of the most common / most frequently breached passwords
+// (international top lists plus Portuguese favourites). Compared case-insensitively.
+export const COMMON_PASSWORDS: readonly string[] = [
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '123123', '111111', '000000', '654321',
+  '666666', '121212', '112233', '123321', '987654321', '1q2w3e4r', '1q2w3e', '1qaz2wsx', 'qwerty', 'qwerty123',
+  'qwertyuiop', 'qwe123', 'asdfgh', 'asdfghjkl', 'zxcvbnm', 'azerty', 'abc123', 'abcd1234', 'a1b2c3', 'aa123456',
+  'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd', 'p@ssword', 'pass123', 'admin', 'admin123', 'administrator',
+  'root', 'toor', 'letmein', 'welcome', 'welcome1', 'login', 'master', 'secret', 'changeme', 'default',
+  'iloveyou', 'princess', 'sunshine', 'monkey', 'dragon', 'football', 'baseball', 'soccer', 'superman', 'batman',
+  'starwars', 'pokemon', 'shadow', 'michael', 'jennifer', 'charlie', 'jordan', 'hunter', 'hunter2', 'trustno1',
+  'freedom', 'whatever', 'qazwsx', 'mustang', 'access', 'flower', 'hello', 'hello123', 'killer', 'cheese',
+  'computer', 'internet', 'google', 'samsung', 'iphone', 'summer', 'winter', 'lovely', 'loveme', 'ninja',
+  'senha', 'senha1', 'senha123', 'senha1234', 'minhasenha', 'mudar123', 'trocar123', 'acesso', 'acesso123', 'entrar',
+  'brasil', 'brasil123', 'flamengo', 'corinthians', 'palmeiras', 'saopaulo', 'vasco', 'gremio', 'cruzeiro', 'santos',
+  'futebol', 'amor', 'amor123', 'teamo', 'teamo123', 'meuamor', 'familia', 'deus', 'jesus', 'jesus123',
+  'gabriel', 'felipe', 'lucas', 'mariana', 'juliana', 'beatriz', 'camila', 'rafael', 'bruno', 'carlos',
+  'abcdef', 'abcdefg', 'abcdefgh', 'aaaaaa', 'aaaaaaaa', 'qweasd', 'qweasdzxc', 'zaq12wsx', 'q1w2e3r4', 'q1w2e3r4t5',
+  '11111111', '88888888', '12341234', '147258369', '159753', '741852963', '102030', '10203040', '123mudar', 'mudar@123',
+  'admin@123', 'senha@123', 'Senha123', 'Senha@123', 'Mudar@123', 'Password1', 'Password123', 'Qwerty123', 'Welcome1', 'Admin123',
+];
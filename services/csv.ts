@@ -0,0 +1,58 @@
+// RFC 4180 CSV: fields with commas, quotes or line breaks are quoted, quotes doubled.
+// User-supplied text starting like a formula is prefixed with ' so spreadsheets don't evaluate it.
+const escapeCsvField = (value: string | number | boolean | null | undefined) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: (string | number | boolean | null | undefined)[][]) =>
+  [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+
+// Triggers a browser download; the BOM makes Excel pick up UTF-8 accents.
+export const downloadTextFile = (filename: string, content: string, mimeType = 'text/csv;charset=utf-8') => {
+  const blob = new Blob(['\uFEFF', content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+// Reads RFC 4180 CSV (the inverse of toCsv, minus the formula guard): quoted fields may hold
+// commas, doubled quotes and line breaks. Accepts \r\n or \n and ignores a leading BOM.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) rows.push([...row, field]);
+  return rows;
+};
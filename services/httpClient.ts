@@ -0,0 +1,166 @@
+import {
+  User,
+  SessionInfo,
+  ActiveSession,
+  PasswordPolicy,
+  TwoFactorEnrollment,
+  FailedLoginAttempt,
+  AuditEvent,
+  OAuthProviderInfo,
+  OrganizationSummary,
+  OrganizationMember,
+  Invitation,
+  InvitationPreview,
+  PersonalDataExport,
+} from '../types';
+import { AuthClient, LoginResponse } from './authClient';
+import { MailMessage, Outbox } from './mail';
+import { AuthError, isAuthErrorCode } from './authErrors';
+import { LoginThrottledError } from './loginThrottle';
+import { ImportReport } from './userImport';
+import { PasskeyCreationOptions, PasskeyRequestOptions } from './webauthn';
+
+// AuthClient over the REST API in server/. The session cookie is httpOnly, so this client
+// never sees a token; it only relays the server's answers and rebuilds its typed errors.
+
+export const DEFAULT_API_BASE_URL = '/api';
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Rebuilds the typed error from an API error payload ({ error: { code, message } }).
+export const toError = (status: number, payload: unknown): AuthError => {
+  const error = isRecord(payload) && isRecord(payload.error) ? payload.error : {};
+  const { code, message, retryAt } = error;
+  if (code === 'login_throttled' || code === 'account_locked') {
+    return new LoginThrottledError(Number(retryAt), code === 'account_locked');
+  }
+  if (isAuthErrorCode(code)) return new AuthError(code, typeof message === 'string' ? message : undefined);
+  return new AuthError(status === 401 ? 'session_expired' : 'internal_error');
+};
+
+// Shared by every client of the API: JSON in and out, failures rebuilt as typed AuthErrors.
+export const createApiRequester = (baseUrl: string = DEFAULT_API_BASE_URL) => async <T,>(method: Method, path: string, body?: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      method,
+      credentials: 'same-origin',
+      // Writes always carry JSON: the server rejects anything else as a CSRF guard.
+      headers: method === 'GET' ? { Accept: 'application/json' } : { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: method === 'GET' ? undefined : JSON.stringify(body ?? {}),
+    });
+  } catch {
+    throw new AuthError('network_error');
+  }
+  const payload = response.status === 204 || response.status === 202 ? undefined : await response.json().catch(() => undefined);
+  if (!response.ok) throw toError(response.status, payload);
+  return payload as T;
+};
+
+export const createHttpAuthClient = (baseUrl = DEFAULT_API_BASE_URL): AuthClient => {
+  const request = createApiRequester(baseUrl);
+  const organizationPath = (id: string) => `/organizations/${encodeURIComponent(id)}`;
+
+  // No session is an ordinary answer for these two, not an error.
+  const sessionOrNull = async (method: Method, path: string) => {
+    try {
+      return await request<SessionInfo>(method, path);
+    } catch (err) {
+      if (err instanceof AuthError && err.code === 'session_expired') return null;
+      throw err;
+    }
+  };
+
+  return {
+    getSession: () => sessionOrNull('GET', '/auth/me'),
+    refreshSession: () => sessionOrNull('POST', '/auth/refresh'),
+    getPasswordPolicy: () => request<PasswordPolicy>('GET', '/auth/password-policy'),
+    login: (email, password) => request<LoginResponse>('POST', '/auth/login', { email, password }),
+    verifyTwoFactorLogin: (code) => request<SessionInfo>('POST', '/auth/login/two-factor', { code }),
+    cancelTwoFactorLogin: () => request<void>('DELETE', '/auth/login/two-factor'),
+    register: (data) => request<SessionInfo>('POST', '/auth/register', data),
+    logout: () => request<void>('POST', '/auth/logout'),
+    listSessions: () => request<ActiveSession[]>('GET', '/auth/sessions'),
+    revokeSession: (id) => request<void>('DELETE', `/auth/sessions/${encodeURIComponent(id)}`),
+    revokeOtherSessions: async () => (await request<{ revoked: number }>('DELETE', '/auth/sessions')).revoked,
+    listUsers: () => request<User[]>('GET', '/users'),
+    updateProfile: (changes) => request<User>('PATCH', '/auth/me', changes),
+    updateAvatar: (avatar) => (avatar ? request<User>('PUT', '/auth/me/avatar', { avatar }) : request<User>('DELETE', '/auth/me/avatar')),
+    changePassword: (currentPassword, newPassword) => request<void>('POST', '/auth/password', { currentPassword, newPassword }),
+    completePasswordReset: (newPassword) => request<void>('POST', '/auth/password/complete-reset', { newPassword }),
+    beginTwoFactorEnrollment: () => request<TwoFactorEnrollment>('POST', '/auth/two-factor/enrollment'),
+    confirmTwoFactorEnrollment: async (secret, code) =>
+      (await request<{ recoveryCodes: string[] }>('POST', '/auth/two-factor', { secret, code })).recoveryCodes,
+    disableTwoFactor: (confirmation) => request<void>('POST', '/auth/two-factor/disable', { confirmation }),
+    exportPersonalData: () => request<PersonalDataExport>('GET', '/auth/me/export'),
+    requestAccountDeletion: (confirmation) => request<void>('POST', '/auth/me/deletion', { confirmation }),
+    getOAuthProviders: () => request<OAuthProviderInfo[]>('GET', '/auth/oauth/providers'),
+    beginOAuth: async (provider, { next, link = false } = {}) => {
+      const params = new URLSearchParams({ ...(next ? { next } : {}), ...(link ? { link: '1' } : {}) });
+      window.location.assign(`${baseUrl}/auth/oauth/${encodeURIComponent(provider)}/start?${params}`);
+    },
+    unlinkProvider: (provider) => request<User>('DELETE', `/auth/me/providers/${encodeURIComponent(provider)}`),
+    beginPasskeyRegistration: () => request<PasskeyCreationOptions>('POST', '/auth/passkeys/registration'),
+    finishPasskeyRegistration: (credential, name) => request<User>('POST', '/auth/passkeys', { credential, name }),
+    beginPasskeyLogin: () => request<PasskeyRequestOptions>('POST', '/auth/login/passkey/options'),
+    loginWithPasskey: (credential) => request<SessionInfo>('POST', '/auth/login/passkey', { credential }),
+    renamePasskey: (id, name) => request<User>('PATCH', `/auth/passkeys/${encodeURIComponent(id)}`, { name }),
+    removePasskey: (id) => request<User>('DELETE', `/auth/passkeys/${encodeURIComponent(id)}`),
+    requestEmailVerification: () => request<void>('POST', '/auth/email-verification'),
+    verifyEmail: (token) => request<void>('POST', '/auth/email-verification/confirm', { token }),
+    requestPasswordReset: (email, locale) => request<void>('POST', '/auth/password-reset', { email, locale }),
+    resetPassword: (token, newPassword) => request<void>('POST', '/auth/password-reset/confirm', { token, newPassword }),
+    updateUser: (id, changes) => request<User>('PATCH', `/users/${encodeURIComponent(id)}`, changes),
+    setUserRole: (id, role) => request<User>('PUT', `/users/${encodeURIComponent(id)}/role`, { role }),
+    setUserStatus: (id, status) => request<User>('PUT', `/users/${encodeURIComponent(id)}/status`, { status }),
+    deleteUser: (id) => request<void>('DELETE', `/users/${encodeURIComponent(id)}`),
+    forcePasswordReset: async (id) =>
+      (await request<{ temporaryPassword: string }>('POST', `/users/${encodeURIComponent(id)}/password-reset`)).temporaryPassword,
+    revokeUserSessions: async (id) => (await request<{ revoked: number }>('DELETE', `/users/${encodeURIComponent(id)}/sessions`)).revoked,
+    importUsers: (rows, { dryRun = false } = {}) => request<ImportReport>('POST', '/users/import', { rows, dryRun }),
+    listOrganizations: () => request<OrganizationSummary[]>('GET', '/organizations'),
+    createOrganization: (name) => request<OrganizationSummary>('POST', '/organizations', { name }),
+    listMembers: (organizationId) => request<OrganizationMember[]>('GET', `${organizationPath(organizationId)}/members`),
+    setMemberRole: (organizationId, userId, role) =>
+      request<OrganizationMember>('PUT', `${organizationPath(organizationId)}/members/${encodeURIComponent(userId)}/role`, { role }),
+    removeMember: (organizationId, userId) => request<void>('DELETE', `${organizationPath(organizationId)}/members/${encodeURIComponent(userId)}`),
+    listInvitations: (organizationId) => request<Invitation[]>('GET', `${organizationPath(organizationId)}/invitations`),
+    inviteMember: (organizationId, email, role) => request<Invitation>('POST', `${organizationPath(organizationId)}/invitations`, { email, role }),
+    revokeInvitation: (organizationId, invitationId) =>
+      request<void>('DELETE', `${organizationPath(organizationId)}/invitations/${encodeURIComponent(invitationId)}`),
+    previewInvitation: (token) => request<InvitationPreview>('POST', '/invitations/preview', { token }),
+    acceptInvitation: (token) => request<OrganizationSummary>('POST', '/invitations/accept', { token }),
+    getFailedLoginAttempts: (limit = 20) => request<FailedLoginAttempt[]>('GET', `/audit/failed-logins?limit=${limit}`),
+    getAuditLog: () => request<AuditEvent[]>('GET', '/audit/events'),
+  };
+};
+
+// The server's dev outbox (only mounted with DEV_OUTBOX=1). Mail arrives server-side,
+// so subscribers are told by polling instead of by the sender.
+export const createHttpOutbox = (baseUrl = DEFAULT_API_BASE_URL, pollMs = 3000): Outbox => {
+  const request = createApiRequester(baseUrl);
+  const listeners = new Set<() => void>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const notify = () => listeners.forEach(listener => listener());
+  return {
+    list: () => request<MailMessage[]>('GET', '/dev/outbox').catch(() => []),
+    clear: async () => {
+      await request<void>('DELETE', '/dev/outbox');
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      timer ??= setInterval(notify, pollMs);
+      return () => {
+        listeners.delete(listener);
+        if (!listeners.size && timer) {
+          clearInterval(timer);
+          timer = null;
+        }
+      };
+    },
+  };
+};
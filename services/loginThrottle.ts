@@ -0,0 +1,79 @@
+import { AuthError } from './authErrors';
+
+// Brute-force protection for the auth service's login. Counters are kept per email and per
+// client (browser or IP) so that neither rotating emails nor rotating clients gets around it.
+// Everything here is pure; persistence lives in the LoginAttemptStore of the storage backend.
+
+export interface ThrottleConfig {
+  freeAttempts: number;      // Failures allowed before any delay kicks in
+  baseDelayMs: number;       // First backoff delay, doubled on every further failure
+  maxDelayMs: number;
+  lockoutThreshold: number;  // Failures that trigger a temporary lockout
+  lockoutMs: number;
+  windowMs: number;          // Failures older than this are forgotten
+}
+
+export const DEFAULT_THROTTLE_CONFIG: ThrottleConfig = {
+  freeAttempts: 3,
+  baseDelayMs: 2 * 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutThreshold: 10,
+  lockoutMs: 15 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+};
+
+export interface AttemptCounter {
+  key: string;
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil?: number;
+}
+
+export const emailKey = (email: string) => `email:${email.trim().toLowerCase()}`;
+export const clientKey = (clientId: string) => `client:${clientId}`;
+
+export class LoginThrottledError extends AuthError {
+  constructor(public retryAt: number, public locked: boolean) {
+    super(locked ? 'account_locked' : 'login_throttled');
+    this.name = 'LoginThrottledError';
+  }
+}
+
+const isStale = (counter: AttemptCounter, config: ThrottleConfig, now: number) =>
+  now - counter.lastFailureAt > config.windowMs && !(counter.lockedUntil && counter.lockedUntil > now);
+
+// Returns when the next attempt is allowed, or null if it is allowed now.
+export const nextAllowedAttempt = (
+  counter: AttemptCounter | null,
+  config: ThrottleConfig,
+  now: number = Date.now()
+): { retryAt: number; locked: boolean } | null => {
+  if (!counter || isStale(counter, config, now)) return null;
+  if (counter.lockedUntil && counter.lockedUntil > now) return { retryAt: counter.lockedUntil, locked: true };
+  if (counter.failures < config.freeAttempts) return null;
+  const delay = Math.min(config.baseDelayMs * 2 ** (counter.failures - config.freeAttempts), config.maxDelayMs);
+  const retryAt = counter.lastFailureAt + delay;
+  return retryAt > now ? { retryAt, locked: false } : null;
+};
+
+export const registerFailure = (
+  key: string,
+  counter: AttemptCounter | null,
+  config: ThrottleConfig,
+  now: number = Date.now()
+): AttemptCounter => {
+  const failures = !counter || isStale(counter, config, now) ? 1 : counter.failures + 1;
+  return {
+    key,
+    failures,
+    lastFailureAt: now,
+    lockedUntil: failures >= config.lockoutThreshold ? now + config.lockoutMs : undefined,
+  };
+};
+
+// Takes back the failure counted in advance for an attempt that then succeeded (or got nowhere).
+export const withdrawFailure = (counter: AttemptCounter | null, config: ThrottleConfig): AttemptCounter | null => {
+  if (!counter || counter.failures <= 1) return null;
+  const failures = counter.failures - 1;
+  return { ...counter, failures, lockedUntil: failures >= config.lockoutThreshold ? counter.lockedUntil : undefined };
+};
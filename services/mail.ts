@@ -0,0 +1,59 @@
+// Outgoing mail. The auth service only knows about MailTransport; in development the
+// transport is a local "outbox" that the app can display instead of sending anything.
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  body: string;
+  link?: string; // Primary call-to-action, rendered as a button by the outbox viewer
+}
+
+export interface MailMessage extends OutgoingMail {
+  id: string;
+  sentAt: string;
+}
+
+export interface MailTransport {
+  send: (mail: OutgoingMail) => Promise<void>;
+}
+
+// The side the dev viewer reads; with the HTTP backend the server owns the sending side.
+export interface Outbox {
+  list: () => Promise<MailMessage[]>; // Newest first
+  clear: () => Promise<void>;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const MAX_OUTBOX_SIZE = 50;
+
+export const createOutbox = (read: () => MailMessage[], write: (messages: MailMessage[]) => void): Outbox & MailTransport => {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+  return {
+    send: async (mail) => {
+      const message: MailMessage = { ...mail, id: Math.random().toString(36).substr(2, 9), sentAt: new Date().toISOString() };
+      write([message, ...read()].slice(0, MAX_OUTBOX_SIZE));
+      notify();
+    },
+    list: async () => read(),
+    clear: async () => {
+      write([]);
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const createLocalOutbox = (key = 'auth_dev_outbox'): Outbox & MailTransport =>
+  createOutbox(
+    () => JSON.parse(localStorage.getItem(key) || '[]'),
+    (messages) => localStorage.setItem(key, JSON.stringify(messages))
+  );
+
+export const createMemoryOutbox = (): Outbox & MailTransport => {
+  let messages: MailMessage[] = [];
+  return createOutbox(() => messages, (next) => { messages = next; });
+};
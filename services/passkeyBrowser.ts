@@ -0,0 +1,81 @@
+import { AuthError } from './authErrors';
+import { toBase64Url, fromBase64Url } from './encoding';
+import {
+  AuthenticationResponseJSON,
+  PasskeyCreationOptions,
+  PasskeyCredentialDescriptor,
+  PasskeyRequestOptions,
+  RegistrationResponseJSON,
+} from './webauthn';
+
+// The browser half of the passkey ceremonies: turns the server's JSON options into the binary
+// shapes navigator.credentials wants, and the authenticator's answer back into JSON.
+
+export const isPasskeySupported = () =>
+  typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function' && !!navigator.credentials;
+
+const encode = (buffer: ArrayBuffer) => toBase64Url(new Uint8Array(buffer));
+
+const toDescriptor = ({ id, transports, ...rest }: PasskeyCredentialDescriptor): PublicKeyCredentialDescriptor => ({
+  ...rest,
+  id: fromBase64Url(id),
+  ...(transports ? { transports: transports as AuthenticatorTransport[] } : {}),
+});
+
+// Closing the prompt, a timeout and "no passkey here" all surface as NotAllowedError.
+const runCeremony = async (ceremony: () => Promise<Credential | null>) => {
+  if (!isPasskeySupported()) throw new AuthError('passkey_unsupported');
+  let credential: Credential | null;
+  try {
+    credential = await ceremony();
+  } catch (err) {
+    if (err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'AbortError')) throw new AuthError('passkey_cancelled');
+    throw new AuthError('invalid_passkey');
+  }
+  if (!credential) throw new AuthError('passkey_cancelled');
+  return credential as PublicKeyCredential;
+};
+
+export const createPasskey = async (options: PasskeyCreationOptions): Promise<RegistrationResponseJSON> => {
+  const credential = await runCeremony(() => navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map(toDescriptor),
+    },
+  }));
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: encode(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: encode(response.clientDataJSON),
+      attestationObject: encode(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+};
+
+export const getPasskey = async (options: PasskeyRequestOptions): Promise<AuthenticationResponseJSON> => {
+  const credential = await runCeremony(() => navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: options.allowCredentials.map(toDescriptor),
+    },
+  }));
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: encode(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: encode(response.clientDataJSON),
+      authenticatorData: encode(response.authenticatorData),
+      signature: encode(response.signature),
+      userHandle: response.userHandle ? encode(response.userHandle) : null,
+    },
+  };
+};
@@ -0,0 +1,50 @@
+import { PasswordHash } from '../types';
+import { toBase64, fromBase64, randomBytes } from './encoding';
+
+// PBKDF2 over WebCrypto. Each user gets a random salt and the parameters are
+// stored next to the hash, so the iteration count can be raised later without
+// invalidating existing records (see needsRehash).
+
+export const DEFAULT_PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+const encoder = new TextEncoder();
+
+// Compares without short-circuiting so timing does not leak the matching prefix.
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const max = Math.max(a.length, b.length);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < max; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    KEY_BITS
+  );
+  return toBase64(new Uint8Array(bits));
+};
+
+export const hashPassword = async (password: string, iterations: number = DEFAULT_PBKDF2_ITERATIONS): Promise<PasswordHash> => {
+  const salt = randomBytes(SALT_BYTES);
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations,
+    salt: toBase64(salt),
+    hash: await derive(password, salt, iterations),
+  };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const candidate = await derive(password, fromBase64(stored.salt), stored.iterations);
+  return timingSafeEqual(candidate, stored.hash);
+};
+
+export const needsRehash = (stored: PasswordHash, iterations: number = DEFAULT_PBKDF2_ITERATIONS): boolean =>
+  stored.algorithm !== 'PBKDF2-SHA256' || stored.iterations < iterations;
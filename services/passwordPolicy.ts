@@ -0,0 +1,86 @@
+import { PasswordPolicy } from '../types';
+import { COMMON_PASSWORDS } from './commonPasswords';
+import { AuthError } from './authErrors';
+
+// Password rules shared by the auth service (enforcement) and the forms (live feedback).
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  forbidPersonalInfo: true,
+  forbidCommon: true,
+};
+
+export type PasswordRuleId = 'length' | 'lowercase' | 'uppercase' | 'digit' | 'symbol' | 'personal' | 'common';
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  label: string;
+  passed: boolean;
+}
+
+// Name and email of the account, so the password cannot simply repeat them.
+export interface PasswordContext {
+  name?: string;
+  email?: string;
+}
+
+const commonSet = new Set(COMMON_PASSWORDS.map(p => p.toLowerCase()));
+
+export const isCommonPassword = (password: string) => commonSet.has(password.toLowerCase());
+
+const personalTokens = ({ name = '', email = '' }: PasswordContext) =>
+  [...name.split(/\s+/), email.split('@')[0]]
+    .map(token => token.trim().toLowerCase())
+    .filter(token => token.length >= 3);
+
+export const evaluatePassword = (
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): PasswordRuleResult[] => {
+  const lower = password.toLowerCase();
+  const rules: (PasswordRuleResult | false)[] = [
+    { id: 'length', label: `Pelo menos ${policy.minLength} caracteres`, passed: password.length >= policy.minLength },
+    policy.requireLowercase && { id: 'lowercase', label: 'Uma letra minúscula', passed: /[a-z]/.test(password) },
+    policy.requireUppercase && { id: 'uppercase', label: 'Uma letra maiúscula', passed: /[A-Z]/.test(password) },
+    policy.requireDigit && { id: 'digit', label: 'Um número', passed: /\d/.test(password) },
+    policy.requireSymbol && { id: 'symbol', label: 'Um símbolo (ex: !@#$)', passed: /[^A-Za-z0-9]/.test(password) },
+    policy.forbidPersonalInfo && {
+      id: 'personal',
+      label: 'Não conter seu nome ou email',
+      passed: !personalTokens(context).some(token => lower.includes(token)),
+    },
+    policy.forbidCommon && { id: 'common', label: 'Não ser uma senha comum ou vazada', passed: !isCommonPassword(password) },
+  ];
+  return rules.filter((rule): rule is PasswordRuleResult => !!rule);
+};
+
+export const assertPasswordAllowed = (password: string, policy: PasswordPolicy, context: PasswordContext = {}) => {
+  const failed = evaluatePassword(password, policy, context).filter(rule => !rule.passed);
+  if (failed.length) {
+    throw new AuthError('weak_password', `A senha não atende à política: ${failed.map(rule => rule.label.toLowerCase()).join('; ')}.`);
+  }
+};
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+// Rough entropy estimate: character pool size times length, discounted for repeats.
+export const estimatePasswordStrength = (password: string): PasswordStrength => {
+  if (!password || isCommonPassword(password)) return 0;
+  const pool =
+    (/[a-z]/.test(password) ? 26 : 0) +
+    (/[A-Z]/.test(password) ? 26 : 0) +
+    (/\d/.test(password) ? 10 : 0) +
+    (/[^A-Za-z0-9]/.test(password) ? 33 : 0);
+  const effectiveLength = Math.min(password.length, new Set(password).size * 2);
+  const bits = effectiveLength * Math.log2(pool);
+  if (bits < 28) return 0;
+  if (bits < 36) return 1;
+  if (bits < 60) return 2;
+  if (bits < 80) return 3;
+  return 4;
+};
@@ -0,0 +1,34 @@
+import { Membership, OrganizationRole, Role, User, UserStatus } from '../types';
+
+export const ROLES: readonly Role[] = ['admin', 'user'];
+export const USER_STATUSES: readonly UserStatus[] = ['active', 'disabled'];
+
+// Roles map to named permissions; UI and the auth service only ever ask about permissions,
+// so adding a role (or moving a capability between roles) is a change to this table alone.
+
+export type Permission = 'users:list' | 'users:edit' | 'users:delete' | 'users:import' | 'sessions:revoke' | 'audit:read';
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ['users:list', 'users:edit', 'users:delete', 'users:import', 'sessions:revoke', 'audit:read'],
+  user: [],
+};
+
+export const hasPermission = (user: Pick<User, 'role'> | null, permission: Permission): boolean =>
+  !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// --- Organization roles ---
+// Same idea one level down: what a member may do inside one organization, whatever their
+// account-wide role. Granting, changing or removing an owner takes owners:manage.
+
+export const ORGANIZATION_ROLES: readonly OrganizationRole[] = ['owner', 'admin', 'member'];
+
+export type OrganizationPermission = 'members:read' | 'members:manage' | 'owners:manage';
+
+export const ORGANIZATION_ROLE_PERMISSIONS: Record<OrganizationRole, readonly OrganizationPermission[]> = {
+  owner: ['members:read', 'members:manage', 'owners:manage'],
+  admin: ['members:read', 'members:manage'],
+  member: ['members:read'],
+};
+
+export const hasOrganizationPermission = (membership: Pick<Membership, 'role'> | null, permission: OrganizationPermission): boolean =>
+  !!membership && ORGANIZATION_ROLE_PERMISSIONS[membership.role].includes(permission);
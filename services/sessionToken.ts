@@ -0,0 +1,44 @@
+import { toBase64Url, fromBase64Url, randomBytes } from './encoding';
+
+// Compact signed session token: base64url(JSON payload) + '.' + base64url(HMAC-SHA256).
+// Only the session and user ids travel in the token; both are always re-read from storage.
+
+export interface SessionTokenPayload {
+  sid: string; // Session record id
+  sub: string; // User id
+  iat: number; // Issued at (ms since epoch)
+  exp: number; // Expires at (ms since epoch)
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const generateSecret = (): string => toBase64Url(randomBytes(32));
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', fromBase64Url(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const signSessionToken = async (payload: SessionTokenPayload, secret: string): Promise<string> => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Returns null for anything malformed, tampered with or expired.
+export const verifySessionToken = async (
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<SessionTokenPayload | null> => {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await importKey(secret), fromBase64Url(signature), encoder.encode(body));
+    if (!valid) return null;
+    const payload: SessionTokenPayload = JSON.parse(decoder.decode(fromBase64Url(body)));
+    if (typeof payload.sid !== 'string' || typeof payload.sub !== 'string' || typeof payload.exp !== 'number' || payload.exp <= now) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
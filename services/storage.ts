@@ -0,0 +1,512 @@
+import { UserRecord, FailedLoginAttempt, AuditEvent, OAuthProviderId, Organization, Membership, InvitationRecord, SessionRecord } from '../types';
+import { generateSecret } from './sessionToken';
+import { AttemptCounter, emailKey } from './loginThrottle';
+import { ActionTokenRecord, ActionTokenPurpose } from './actionTokens';
+import { toBase64Url, randomBytes } from './encoding';
+
+// Persistence behind the auth service. Every backend exposes the same async API so the
+// same rules run against localStorage, IndexedDB, plain memory or the server's files unchanged.
+
+export interface ListOptions {
+  offset?: number;
+  limit?: number; // Omit to list everything from offset
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+// Emails are stored and compared trimmed and lowercased: A@x.com and a@x.com are one account.
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export interface UserRepository {
+  findById: (id: string) => Promise<UserRecord | null>;
+  findByEmail: (email: string) => Promise<UserRecord | null>; // Matches regardless of case
+  findByProvider: (provider: OAuthProviderId, subject: string) => Promise<UserRecord | null>;
+  // `asFirst` is merged into the record when no other user exists at the moment it is written,
+  // so two concurrent sign-ups can't both see an empty repository.
+  create: (record: UserRecord, asFirst?: Partial<UserRecord>) => Promise<UserRecord>;
+  update: (record: UserRecord) => Promise<UserRecord>;
+  delete: (id: string) => Promise<void>;
+  list: (options?: ListOptions) => Promise<Page<UserRecord>>;
+}
+
+// Holds the current signed session token and the secret used to sign it (the in-browser
+// client's side of a session; the records of every session live in SessionRecordStore).
+export interface SessionStore {
+  get: () => Promise<string | null>;
+  set: (token: string) => Promise<void>;
+  clear: () => Promise<void>;
+  getSecret: () => Promise<string>; // Created on first use
+}
+
+// Failed-login bookkeeping for brute-force protection.
+export interface LoginAttemptStore {
+  getCounter: (key: string) => Promise<AttemptCounter | null>;
+  // Reads and rewrites the counters for `keys` in one step (null removes one); concurrent calls
+  // run one after another, so no attempt is lost. Whatever `update` throws is passed on unsaved.
+  updateCounters: (
+    keys: string[],
+    update: (counters: (AttemptCounter | null)[]) => (AttemptCounter | null)[]
+  ) => Promise<(AttemptCounter | null)[]>;
+  clearCounter: (key: string) => Promise<void>;
+  recordFailure: (attempt: FailedLoginAttempt) => Promise<void>;
+  recentFailures: (limit: number) => Promise<FailedLoginAttempt[]>; // Newest first
+  forget: (email: string) => Promise<void>; // Drops that email's failures and counter (account erasure)
+  getClientId: () => Promise<string>; // Stable id for this browser/client
+}
+
+// Email verification / password reset tokens, keyed by hash.
+export interface ActionTokenStore {
+  save: (record: ActionTokenRecord) => Promise<void>;
+  take: (hash: string) => Promise<ActionTokenRecord | null>; // Removes it: tokens are single-use
+  revoke: (userId: string, purpose: ActionTokenPurpose) => Promise<void>;
+}
+
+// Append-only: there is deliberately no update or delete. The one exception is erasing a purged
+// account, which keeps its events but strips what identified it.
+export interface AuditLogStore {
+  append: (event: AuditEvent) => Promise<void>;
+  list: () => Promise<AuditEvent[]>; // Oldest first
+  // Clears actorId/targetId equal to `userId` and blanks metadata values found in `values`
+  anonymize: (userId: string, values: string[]) => Promise<void>;
+}
+
+// Organizations, who belongs to them, and invitations not yet accepted.
+export interface OrganizationStore {
+  find: (id: string) => Promise<Organization | null>;
+  create: (organization: Organization) => Promise<Organization>;
+  memberships: (filter?: { organizationId?: string; userId?: string }) => Promise<Membership[]>;
+  saveMembership: (membership: Membership) => Promise<void>; // Replaces the user's existing one in that organization
+  removeMembership: (organizationId: string, userId: string) => Promise<void>;
+  invitations: (organizationId: string) => Promise<InvitationRecord[]>; // Unexpired only
+  saveInvitation: (record: InvitationRecord) => Promise<void>; // Replaces one for the same email in that organization
+  findInvitation: (hash: string) => Promise<InvitationRecord | null>;
+  deleteInvitation: (id: string) => Promise<void>;
+}
+
+// Every signed-in session, so they can be listed and revoked.
+export interface SessionRecordStore {
+  find: (id: string) => Promise<SessionRecord | null>;
+  save: (record: SessionRecord) => Promise<void>; // Replaces the one with the same id
+  list: (userId: string) => Promise<SessionRecord[]>; // Unexpired only
+  delete: (ids: string[]) => Promise<void>;
+}
+
+export interface StorageBackend {
+  users: UserRepository;
+  session: SessionStore;
+  attempts: LoginAttemptStore;
+  tokens: ActionTokenStore;
+  audit: AuditLogStore;
+  organizations: OrganizationStore;
+  sessions: SessionRecordStore;
+}
+
+// Smaller stores are plain documents under a key; each backend only has to provide this.
+export interface KeyValueDriver {
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: (key: string, value: unknown) => Promise<void>;
+}
+
+// Read-modify-write steps on shared documents run one at a time through this, so two concurrent
+// callers can't both read the old value and overwrite each other's change.
+const createSerializer = () => {
+  let last: Promise<unknown> = Promise.resolve();
+  return <T,>(step: () => Promise<T>): Promise<T> => {
+    const result = last.then(step);
+    last = result.catch(() => undefined);
+    return result;
+  };
+};
+
+const MAX_FAILURE_LOG = 200;
+
+const createAttemptStore = (kv: KeyValueDriver): LoginAttemptStore => {
+  const serial = createSerializer();
+  const counters = async () => (await kv.get<Record<string, AttemptCounter>>('login_attempts')) ?? {};
+  const failures = async () => (await kv.get<FailedLoginAttempt[]>('failed_logins')) ?? [];
+  return {
+    getCounter: async (key) => (await counters())[key] ?? null,
+    updateCounters: (keys, update) => serial(async () => {
+      const all = await counters();
+      const updated = update(keys.map(key => all[key] ?? null));
+      const next = { ...all };
+      keys.forEach((key, i) => {
+        if (updated[i]) next[key] = updated[i]!;
+        else delete next[key];
+      });
+      await kv.set('login_attempts', next);
+      return updated;
+    }),
+    clearCounter: (key) => serial(async () => {
+      const { [key]: _removed, ...rest } = await counters();
+      await kv.set('login_attempts', rest);
+    }),
+    recordFailure: (attempt) => serial(async () => kv.set('failed_logins', [...(await failures()), attempt].slice(-MAX_FAILURE_LOG))),
+    recentFailures: async (limit) => (await failures()).slice(-limit).reverse(),
+    forget: (email) => serial(async () => {
+      const { [emailKey(email)]: _removed, ...rest } = await counters();
+      await kv.set('login_attempts', rest);
+      await kv.set('failed_logins', (await failures()).filter(f => normalizeEmail(f.email) !== normalizeEmail(email)));
+    }),
+    getClientId: async () => {
+      let id = await kv.get<string>('client_id');
+      if (!id) {
+        id = toBase64Url(randomBytes(12));
+        await kv.set('client_id', id);
+      }
+      return id;
+    },
+  };
+};
+
+const byCreatedAt = (a: UserRecord, b: UserRecord) => a.createdAt.localeCompare(b.createdAt);
+
+const paginate = (records: UserRecord[], { offset = 0, limit }: ListOptions = {}): Page<UserRecord> => {
+  const sorted = [...records].sort(byCreatedAt);
+  const size = limit ?? Math.max(sorted.length - offset, 0);
+  return { items: sorted.slice(offset, offset + size), total: sorted.length, offset, limit: size };
+};
+
+const hasIdentity = (record: UserRecord, provider: OAuthProviderId, subject: string) =>
+  !!record.providers?.some(p => p.provider === provider && p.subject === subject);
+
+// Builds a repository on top of any "load everything / save everything" primitive.
+const createArrayRepository = (
+  read: () => Promise<UserRecord[]>,
+  write: (records: UserRecord[]) => Promise<void>
+): UserRepository => {
+  const serial = createSerializer();
+  return {
+    findById: async (id) => (await read()).find(u => u.id === id) ?? null,
+    // Records saved before emails were normalized may still carry capitals, so both sides are normalized.
+    findByEmail: async (email) => (await read()).find(u => normalizeEmail(u.email) === normalizeEmail(email)) ?? null,
+    findByProvider: async (provider, subject) => (await read()).find(u => hasIdentity(u, provider, subject)) ?? null,
+    create: (record, asFirst) => serial(async () => {
+      const records = await read();
+      if (records.some(u => u.id === record.id || normalizeEmail(u.email) === normalizeEmail(record.email))) {
+        throw new Error(`Registro duplicado: ${record.email}`);
+      }
+      const created = records.length ? record : { ...record, ...asFirst };
+      await write([...records, created]);
+      return created;
+    }),
+    update: (record) => serial(async () => {
+      const records = await read();
+      if (!records.some(u => u.id === record.id)) throw new Error(`Usuário não encontrado: ${record.id}`);
+      await write(records.map(u => (u.id === record.id ? record : u)));
+      return record;
+    }),
+    delete: (id) => serial(async () => {
+      await write((await read()).filter(u => u.id !== id));
+    }),
+    list: async (options) => paginate(await read(), options),
+  };
+};
+
+const createTokenStore = (kv: KeyValueDriver): ActionTokenStore => {
+  const all = async () => (await kv.get<ActionTokenRecord[]>('action_tokens')) ?? [];
+  return {
+    save: async (record) => {
+      const now = Date.now();
+      await kv.set('action_tokens', [...(await all()).filter(t => t.expiresAt > now), record]);
+    },
+    take: async (hash) => {
+      const records = await all();
+      const found = records.find(t => t.hash === hash) ?? null;
+      if (found) await kv.set('action_tokens', records.filter(t => t !== found));
+      return found;
+    },
+    revoke: async (userId, purpose) => {
+      await kv.set('action_tokens', (await all()).filter(t => t.userId !== userId || t.purpose !== purpose));
+    },
+  };
+};
+
+// localStorage quotas are small, so only the most recent events are retained.
+const MAX_AUDIT_EVENTS = 5000;
+const ANONYMIZED = '[removido]';
+
+const createAuditLogStore = (kv: KeyValueDriver): AuditLogStore => {
+  const all = async () => (await kv.get<AuditEvent[]>('audit_log')) ?? [];
+  return {
+    append: async (event) => kv.set('audit_log', [...(await all()), event].slice(-MAX_AUDIT_EVENTS)),
+    list: all,
+    anonymize: async (userId, values) => {
+      const anonymous = (id: string | null) => (id === userId ? null : id);
+      await kv.set('audit_log', (await all()).map(event => ({
+        ...event,
+        actorId: anonymous(event.actorId),
+        targetId: anonymous(event.targetId),
+        metadata: Object.fromEntries(
+          Object.entries(event.metadata).map(([key, value]) => [key, typeof value === 'string' && values.includes(value) ? ANONYMIZED : value])
+        ),
+      })));
+    },
+  };
+};
+
+const createOrganizationStore = (kv: KeyValueDriver): OrganizationStore => {
+  const organizations = async () => (await kv.get<Organization[]>('organizations')) ?? [];
+  const memberships = async () => (await kv.get<Membership[]>('memberships')) ?? [];
+  const invitations = async () => (await kv.get<InvitationRecord[]>('invitations')) ?? [];
+  const pending = async () => {
+    const now = new Date().toISOString();
+    return (await invitations()).filter(i => i.expiresAt > now);
+  };
+  return {
+    find: async (id) => (await organizations()).find(o => o.id === id) ?? null,
+    create: async (organization) => {
+      await kv.set('organizations', [...(await organizations()), organization]);
+      return organization;
+    },
+    memberships: async ({ organizationId, userId } = {}) =>
+      (await memberships()).filter(m => (!organizationId || m.organizationId === organizationId) && (!userId || m.userId === userId)),
+    saveMembership: async (membership) => {
+      const others = (await memberships()).filter(m => m.organizationId !== membership.organizationId || m.userId !== membership.userId);
+      await kv.set('memberships', [...others, membership]);
+    },
+    removeMembership: async (organizationId, userId) => {
+      await kv.set('memberships', (await memberships()).filter(m => m.organizationId !== organizationId || m.userId !== userId));
+    },
+    invitations: async (organizationId) => (await pending()).filter(i => i.organizationId === organizationId),
+    // Expired invitations are dropped whenever a new one is written.
+    saveInvitation: async (record) => {
+      const others = (await pending()).filter(i => i.organizationId !== record.organizationId || i.email !== record.email);
+      await kv.set('invitations', [...others, record]);
+    },
+    findInvitation: async (hash) => (await invitations()).find(i => i.hash === hash) ?? null,
+    deleteInvitation: async (id) => {
+      await kv.set('invitations', (await invitations()).filter(i => i.id !== id));
+    },
+  };
+};
+
+const createSessionRecordStore = (kv: KeyValueDriver): SessionRecordStore => {
+  const all = async () => (await kv.get<SessionRecord[]>('sessions')) ?? [];
+  return {
+    find: async (id) => (await all()).find(s => s.id === id) ?? null,
+    // Expired sessions are dropped whenever one is written.
+    save: async (record) => {
+      const now = Date.now();
+      await kv.set('sessions', [...(await all()).filter(s => s.id !== record.id && s.expiresAt > now), record]);
+    },
+    list: async (userId) => {
+      const now = Date.now();
+      return (await all()).filter(s => s.userId === userId && s.expiresAt > now);
+    },
+    delete: async (ids) => {
+      if (ids.length) await kv.set('sessions', (await all()).filter(s => !ids.includes(s.id)));
+    },
+  };
+};
+
+// --- localStorage (default, same keys the app always used) ---
+export const createLocalStorageBackend = (
+  usersKey = 'auth_db_users',
+  sessionKey = 'auth_session',
+  secretKey = 'auth_session_secret',
+  keyPrefix = 'auth_'
+): StorageBackend => {
+  const kv: KeyValueDriver = {
+    get: async (key) => {
+      const stored = localStorage.getItem(keyPrefix + key);
+      return stored ? JSON.parse(stored) : undefined;
+    },
+    set: async (key, value) => localStorage.setItem(keyPrefix + key, JSON.stringify(value)),
+  };
+
+  return {
+    users: createArrayRepository(
+      async () => JSON.parse(localStorage.getItem(usersKey) || '[]'),
+      async (records) => localStorage.setItem(usersKey, JSON.stringify(records))
+    ),
+    session: {
+      get: async () => localStorage.getItem(sessionKey),
+      set: async (token) => localStorage.setItem(sessionKey, token),
+      clear: async () => localStorage.removeItem(sessionKey),
+      getSecret: async () => {
+        let secret = localStorage.getItem(secretKey);
+        if (!secret) {
+          secret = generateSecret();
+          localStorage.setItem(secretKey, secret);
+        }
+        return secret;
+      },
+    },
+    attempts: createAttemptStore(kv),
+    tokens: createTokenStore(kv),
+    audit: createAuditLogStore(kv),
+    organizations: createOrganizationStore(kv),
+    sessions: createSessionRecordStore(kv),
+  };
+};
+
+// --- In-memory (tests, demos) ---
+export const createMemoryBackend = (seed: UserRecord[] = []): StorageBackend => {
+  let records = [...seed];
+  let session: string | null = null;
+  const secret = generateSecret();
+  const documents = new Map<string, unknown>();
+  const kv: KeyValueDriver = {
+    get: async <T,>(key: string) => documents.get(key) as T | undefined,
+    set: async (key, value) => { documents.set(key, value); },
+  };
+  return {
+    users: createArrayRepository(
+      async () => records,
+      async (next) => { records = next; }
+    ),
+    session: {
+      get: async () => session,
+      set: async (token) => { session = token; },
+      clear: async () => { session = null; },
+      getSecret: async () => secret,
+    },
+    attempts: createAttemptStore(kv),
+    tokens: createTokenStore(kv),
+    audit: createAuditLogStore(kv),
+    organizations: createOrganizationStore(kv),
+    sessions: createSessionRecordStore(kv),
+  };
+};
+
+// --- Any key/value document store (the server keeps these in a JSON file) ---
+export const createDocumentBackend = (kv: KeyValueDriver): StorageBackend => ({
+  users: createArrayRepository(
+    async () => (await kv.get<UserRecord[]>('users')) ?? [],
+    async (records) => kv.set('users', records)
+  ),
+  session: {
+    get: async () => (await kv.get<string>('session')) ?? null,
+    set: async (token) => kv.set('session', token),
+    clear: async () => kv.set('session', undefined),
+    getSecret: async () => {
+      let secret = await kv.get<string>('session_secret');
+      if (!secret) {
+        secret = generateSecret();
+        await kv.set('session_secret', secret);
+      }
+      return secret;
+    },
+  },
+  attempts: createAttemptStore(kv),
+  tokens: createTokenStore(kv),
+  audit: createAuditLogStore(kv),
+  organizations: createOrganizationStore(kv),
+  sessions: createSessionRecordStore(kv),
+});
+
+// --- IndexedDB ---
+const USERS_STORE = 'users';
+const SESSION_STORE = 'session';
+const KV_STORE = 'kv';
+const SESSION_KEY = 'current';
+const SECRET_KEY = 'secret';
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(name, 3);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    if (event.oldVersion < 1) {
+      const users = db.createObjectStore(USERS_STORE, { keyPath: 'id' });
+      users.createIndex('email', 'email', { unique: true });
+      db.createObjectStore(SESSION_STORE);
+    }
+    if (event.oldVersion < 2) {
+      db.createObjectStore(KV_STORE);
+    }
+    if (event.oldVersion >= 1 && event.oldVersion < 3) {
+      // The email index only finds exact keys, so earlier records get their email normalized. One
+      // that would collide with another account keeps its spelling rather than failing the upgrade.
+      const cursorRequest = request.transaction!.objectStore(USERS_STORE).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const record = cursor.value as UserRecord;
+        if (record.email !== normalizeEmail(record.email)) {
+          cursor.update({ ...record, email: normalizeEmail(record.email) }).onerror = (e) => e.preventDefault();
+        }
+        cursor.continue();
+      };
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbBackend = (databaseName = 'authsys'): StorageBackend => {
+  let db: Promise<IDBDatabase> | null = null;
+  const store = async (name: string, mode: IDBTransactionMode) => {
+    db ??= openDatabase(databaseName);
+    return (await db).transaction(name, mode).objectStore(name);
+  };
+
+  const users: UserRepository = {
+    findById: async (id) => (await requestToPromise((await store(USERS_STORE, 'readonly')).get(id))) ?? null,
+    findByEmail: async (email) =>
+      (await requestToPromise((await store(USERS_STORE, 'readonly')).index('email').get(normalizeEmail(email)))) ?? null,
+    // No index: provider sign-ins are rare enough that a scan beats a schema upgrade.
+    findByProvider: async (provider, subject) =>
+      (await requestToPromise((await store(USERS_STORE, 'readonly')).getAll())).find(u => hasIdentity(u, provider, subject)) ?? null,
+    // Counting and adding in one readwrite transaction: IndexedDB runs those one at a time.
+    create: async (record, asFirst) => {
+      const os = await store(USERS_STORE, 'readwrite');
+      const created = (await requestToPromise(os.count())) ? record : { ...record, ...asFirst };
+      await requestToPromise(os.add(created));
+      return created;
+    },
+    update: async (record) => {
+      const os = await store(USERS_STORE, 'readwrite');
+      if (!(await requestToPromise(os.getKey(record.id)))) throw new Error(`Usuário não encontrado: ${record.id}`);
+      await requestToPromise(os.put(record));
+      return record;
+    },
+    delete: async (id) => {
+      await requestToPromise((await store(USERS_STORE, 'readwrite')).delete(id));
+    },
+    list: async (options) => paginate(await requestToPromise((await store(USERS_STORE, 'readonly')).getAll()), options),
+  };
+
+  const session: SessionStore = {
+    get: async () => (await requestToPromise((await store(SESSION_STORE, 'readonly')).get(SESSION_KEY))) ?? null,
+    set: async (token) => { await requestToPromise((await store(SESSION_STORE, 'readwrite')).put(token, SESSION_KEY)); },
+    clear: async () => { await requestToPromise((await store(SESSION_STORE, 'readwrite')).delete(SESSION_KEY)); },
+    getSecret: async () => {
+      const existing = await requestToPromise((await store(SESSION_STORE, 'readonly')).get(SECRET_KEY));
+      if (existing) return existing;
+      const secret = generateSecret();
+      // add() fails if another tab won the race; fall back to whatever it stored.
+      try {
+        await requestToPromise((await store(SESSION_STORE, 'readwrite')).add(secret, SECRET_KEY));
+        return secret;
+      } catch {
+        return requestToPromise((await store(SESSION_STORE, 'readonly')).get(SECRET_KEY));
+      }
+    },
+  };
+
+  const kv: KeyValueDriver = {
+    get: async (key) => requestToPromise((await store(KV_STORE, 'readonly')).get(key)),
+    set: async (key, value) => { await requestToPromise((await store(KV_STORE, 'readwrite')).put(value, key)); },
+  };
+
+  return {
+    users,
+    session,
+    attempts: createAttemptStore(kv),
+    tokens: createTokenStore(kv),
+    audit: createAuditLogStore(kv),
+    organizations: createOrganizationStore(kv),
+    sessions: createSessionRecordStore(kv),
+  };
+};
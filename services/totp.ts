@@ -0,0 +1,108 @@
+import { randomBytes, sha256Hex } from './encoding';
+
+// RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30 s steps) plus one-time recovery codes.
+// Everything runs on WebCrypto so enrollment and verification work offline.
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+export const base32Decode = (input: string): Uint8Array => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Caractere base32 inválido: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// 160-bit secret, as recommended by RFC 4226.
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+export const timeStep = (now: number = Date.now()) => Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+// HOTP (RFC 4226) for an arbitrary counter; TOTP is HOTP over the time step.
+export const generateHotp = async (secret: string, counter: number): Promise<string> => {
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+export const generateTotp = (secret: string, now: number = Date.now()) => generateHotp(secret, timeStep(now));
+
+// Accepts codes from `window` steps either side to absorb clock drift.
+// Resolves to the matched time step (so callers can reject replays) or null.
+export const verifyTotp = async (
+  secret: string,
+  code: string,
+  now: number = Date.now(),
+  window = 1
+): Promise<number | null> => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = timeStep(now);
+  for (let step = current - window; step <= current + window; step++) {
+    if ((await generateHotp(secret, step)) === normalized) return step;
+  }
+  return null;
+};
+
+export const buildOtpAuthUri = (secret: string, account: string, issuer: string) => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// --- Recovery codes ---
+// High-entropy random codes, so a plain SHA-256 is enough to store them.
+
+export const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z2-7]/g, '');
+
+export const hashRecoveryCode = (code: string): Promise<string> => sha256Hex(normalizeRecoveryCode(code));
+
+export const generateRecoveryCodes = (count = RECOVERY_CODE_COUNT): string[] =>
+  Array.from({ length: count }, () => {
+    const code = base32Encode(randomBytes(5)); // 8 characters
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
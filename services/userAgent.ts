@@ -0,0 +1,27 @@
+// A rough "Browser · OS" label for the sessions list, good enough to tell a laptop from a
+// phone. Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari.
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/.*Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Empty when nothing is recognized (scripts, unusual browsers); the UI shows a generic label.
+export const describeDevice = (userAgent: string) =>
+  [BROWSERS, SYSTEMS]
+    .map(patterns => patterns.find(([pattern]) => pattern.test(userAgent))?.[1])
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,144 @@
+import { User } from '../types';
+import { AuthError, AuthErrorCode } from './authErrors';
+import { parseCsv, toCsv } from './csv';
+
+// Bulk user import/export. Files are parsed and mapped in the browser so the admin can preview
+// them; the auth service validates the mapped rows again (importUsers) before writing anything.
+
+export type ImportFormat = 'csv' | 'json';
+export type ImportField = 'name' | 'email' | 'bio' | 'role' | 'status';
+
+export const IMPORT_FIELDS: readonly ImportField[] = ['name', 'email', 'bio', 'role', 'status'];
+export const REQUIRED_IMPORT_FIELDS: readonly ImportField[] = ['name', 'email'];
+export const MAX_IMPORT_ROWS = 1000;
+
+// One account to create, as mapped from the file. Role and status are still unchecked text.
+export interface UserImportRow {
+  name: string;
+  email: string;
+  bio?: string;
+  role?: string;
+  status?: string;
+}
+
+export interface ImportIssue {
+  field: ImportField;
+  code: AuthErrorCode;
+}
+
+export interface ImportRowResult {
+  index: number; // Position in the submitted rows, from 0
+  email: string;
+  issues: ImportIssue[]; // Empty when the row can be imported
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number; // 0 on a dry run or when any row has issues: imports are all-or-nothing
+  rows: ImportRowResult[];
+}
+
+// Column name in the file for each field; unmapped optional fields take their defaults.
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ParsedImport {
+  columns: string[];
+  records: Record<string, string>[];
+}
+
+// --- Parsing ---
+
+const toText = (value: unknown) => (value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+// Undoes the formula guard toCsv adds, so an exported file imports back unchanged.
+const unescapeCsvValue = (value: string) => value.replace(/^'(?=[=+\-@\t\r])/, '');
+
+const parseCsvImport = (text: string): ParsedImport => {
+  const [header, ...lines] = parseCsv(text).filter(row => row.some(cell => cell.trim() !== ''));
+  if (!header) throw new AuthError('invalid_import_file');
+  const columns = header.map(column => column.trim());
+  return {
+    columns,
+    records: lines.map(cells => Object.fromEntries(columns.map((column, i) => [column, unescapeCsvValue(cells[i] ?? '')]))),
+  };
+};
+
+// Expects an array of flat objects, e.g. what usersToJson writes.
+const parseJsonImport = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new AuthError('invalid_import_file');
+  }
+  if (!Array.isArray(data) || data.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+    throw new AuthError('invalid_import_file');
+  }
+  const columns = [...new Set(data.flatMap(item => Object.keys(item)))];
+  return {
+    columns,
+    records: data.map(item => Object.fromEntries(columns.map(column => [column, toText(item[column])]))),
+  };
+};
+
+export const parseImportFile = (text: string, format: ImportFormat): ParsedImport => {
+  const parsed = format === 'json' ? parseJsonImport(text) : parseCsvImport(text);
+  if (parsed.records.length > MAX_IMPORT_ROWS) throw new AuthError('payload_too_large');
+  return parsed;
+};
+
+export const importFormatOf = (filename: string): ImportFormat => (/\.json$/i.test(filename) ? 'json' : 'csv');
+
+// --- Column mapping ---
+
+// Header spellings other systems commonly export, compared without case, accents or punctuation.
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'fullname', 'nome', 'nomecompleto', 'nombre', 'displayname'],
+  email: ['email', 'mail', 'emailaddress', 'correo', 'correoelectronico'],
+  bio: ['bio', 'biografia', 'about', 'sobre', 'description', 'descricao'],
+  role: ['role', 'papel', 'rol', 'perfil'],
+  status: ['status', 'estado', 'situacao'],
+};
+
+const normalizeColumn = (column: string) =>
+  column.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const suggestMapping = (columns: string[]): ImportMapping =>
+  Object.fromEntries(IMPORT_FIELDS.flatMap(field => {
+    const column = columns.find(c => COLUMN_ALIASES[field].includes(normalizeColumn(c)));
+    return column ? [[field, column]] : [];
+  }));
+
+export const applyMapping = (records: Record<string, string>[], mapping: ImportMapping): UserImportRow[] =>
+  records.map(record => {
+    const value = (field: ImportField) => (mapping[field] ? (record[mapping[field]!] ?? '').trim() : undefined);
+    const row: UserImportRow = { name: value('name') ?? '', email: value('email') ?? '' };
+    for (const field of ['bio', 'role', 'status'] as const) {
+      const text = value(field);
+      if (text) row[field] = text;
+    }
+    return row;
+  });
+
+// --- Export ---
+
+// An explicit allow-list: whatever User grows later, credentials never end up in a file.
+const EXPORT_FIELDS = [
+  'id',
+  'name',
+  'email',
+  'bio',
+  'role',
+  'status',
+  'emailVerified',
+  'twoFactorEnabled',
+  'mustChangePassword',
+  'createdAt',
+] as const satisfies readonly (keyof User)[];
+
+const toExportRecord = (user: User) => Object.fromEntries(EXPORT_FIELDS.map(field => [field, user[field] ?? null]));
+
+export const usersToCsv = (users: User[]) => toCsv([...EXPORT_FIELDS], users.map(user => EXPORT_FIELDS.map(field => user[field])));
+
+export const usersToJson = (users: User[]) => JSON.stringify(users.map(toExportRecord), null, 2);
@@ -0,0 +1,335 @@
+import { toBase64Url, fromBase64Url } from './encoding';
+import { AuthError } from './authErrors';
+import { CborValue, decodeCbor, decodeCborItem } from './cbor';
+
+// Relying-party side of WebAuthn (passkeys): the options handed to navigator.credentials and the
+// checks on what the authenticator sends back. Everything here is a pure function of its inputs
+// (no storage, no clock), so recorded responses can be replayed against it without a device.
+// Binary fields travel as base64url, in the JSON shapes of WebAuthn Level 3 (toJSON()).
+
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_RS256];
+export const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface RelyingParty {
+  id: string; // Host name the credentials are scoped to, e.g. "localhost"
+  name: string;
+  origins: string[]; // Page origins allowed to run the ceremonies
+}
+
+export interface PasskeyCredentialDescriptor {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export interface PasskeyCreationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  authenticatorSelection: { residentKey: 'required'; requireResidentKey: true; userVerification: 'required' };
+  excludeCredentials: PasskeyCredentialDescriptor[];
+}
+
+export interface PasskeyRequestOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'required';
+  allowCredentials: PasskeyCredentialDescriptor[]; // Empty: the authenticator offers its own passkeys
+}
+
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface ExpectedCeremony {
+  challenge: string;
+  rp: RelyingParty;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string; // COSE_Key, base64url
+  algorithm: number;
+  signCount: number;
+  transports?: string[];
+}
+
+// What verification needs from a stored credential.
+export interface StoredPasskey {
+  id: string;
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  credential?: { id: Uint8Array; publicKey: Uint8Array };
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+const encoder = new TextEncoder();
+
+const invalid = (): never => {
+  throw new AuthError('invalid_passkey');
+};
+
+const sha256 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const decodeField = (value: unknown) => {
+  if (typeof value !== 'string') return invalid();
+  try {
+    return fromBase64Url(value);
+  } catch {
+    return invalid();
+  }
+};
+
+// --- Options ---
+
+export const buildCreationOptions = (
+  rp: RelyingParty,
+  user: { id: string; email: string; name: string },
+  challenge: string,
+  existing: PasskeyCredentialDescriptor[]
+): PasskeyCreationOptions => ({
+  challenge,
+  rp: { id: rp.id, name: rp.name },
+  user: { id: toBase64Url(encoder.encode(user.id)), name: user.email, displayName: user.name },
+  pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+  timeout: CEREMONY_TIMEOUT_MS,
+  attestation: 'none',
+  authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+  excludeCredentials: existing,
+});
+
+export const buildRequestOptions = (rp: RelyingParty, challenge: string): PasskeyRequestOptions => ({
+  challenge,
+  rpId: rp.id,
+  timeout: CEREMONY_TIMEOUT_MS,
+  userVerification: 'required',
+  allowCredentials: [],
+});
+
+// --- Parsing ---
+
+const parseClientData = (encoded: unknown): { data: ClientData; bytes: Uint8Array } => {
+  const bytes = decodeField(encoded);
+  try {
+    const data = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof data?.type !== 'string' || typeof data.challenge !== 'string' || typeof data.origin !== 'string') return invalid();
+    return { data, bytes };
+  } catch (err) {
+    if (err instanceof AuthError) throw err;
+    return invalid();
+  }
+};
+
+// The challenge the response claims to answer; callers look it up before verifying.
+export const clientDataChallenge = (response: { response?: { clientDataJSON?: unknown } } | null | undefined) =>
+  parseClientData(response?.response?.clientDataJSON).data.challenge;
+
+// The user id the authenticator stored with a discoverable credential (see buildCreationOptions).
+export const userHandleOf = (response: AuthenticationResponseJSON) => {
+  const handle = response?.response?.userHandle;
+  return handle ? new TextDecoder().decode(decodeField(handle)) : null;
+};
+
+export const parseAuthenticatorData = (data: Uint8Array): AuthenticatorData => {
+  if (data.length < 37) return invalid();
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.slice(0, 32),
+    userPresent: !!(flags & FLAG_USER_PRESENT),
+    userVerified: !!(flags & FLAG_USER_VERIFIED),
+    signCount: new DataView(data.buffer, data.byteOffset + 33, 4).getUint32(0),
+  };
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // 16-byte AAGUID, 2-byte id length, the id, then the COSE key (more CBOR may follow).
+    if (data.length < 55) return invalid();
+    const idLength = new DataView(data.buffer, data.byteOffset + 53, 2).getUint16(0);
+    const keyStart = 55 + idLength;
+    if (data.length <= keyStart) return invalid();
+    let keyEnd: number;
+    try {
+      [, keyEnd] = decodeCborItem(data, keyStart);
+    } catch {
+      return invalid();
+    }
+    parsed.credential = { id: data.slice(55, keyStart), publicKey: data.slice(keyStart, keyEnd) };
+  }
+  return parsed;
+};
+
+const decodeCborOrFail = (bytes: Uint8Array) => {
+  try {
+    return decodeCbor(bytes);
+  } catch {
+    return invalid();
+  }
+};
+
+// --- Keys & signatures ---
+
+const bytesField = (key: Map<CborValue, CborValue>, label: number) => {
+  const value = key.get(label);
+  return value instanceof Uint8Array ? value : invalid();
+};
+
+const importCoseKey = async (coseKey: Uint8Array): Promise<{ key: CryptoKey; algorithm: number }> => {
+  const key = decodeCborOrFail(coseKey);
+  if (!(key instanceof Map)) return invalid();
+  const algorithm = key.get(3);
+  try {
+    if (algorithm === COSE_ALG_ES256 && key.get(1) === 2 && key.get(-1) === 1) {
+      const jwk: JsonWebKey = { kty: 'EC', crv: 'P-256', x: toBase64Url(bytesField(key, -2)), y: toBase64Url(bytesField(key, -3)) };
+      return { key: await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']), algorithm };
+    }
+    if (algorithm === COSE_ALG_RS256 && key.get(1) === 3) {
+      const jwk: JsonWebKey = { kty: 'RSA', n: toBase64Url(bytesField(key, -1)), e: toBase64Url(bytesField(key, -2)) };
+      return { key: await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']), algorithm };
+    }
+  } catch (err) {
+    if (err instanceof AuthError) throw err;
+  }
+  return invalid();
+};
+
+// Authenticators sign ES256 as ASN.1 DER; WebCrypto wants the raw 64-byte r || s.
+const derToRawEcdsa = (der: Uint8Array): Uint8Array => {
+  const readInteger = (offset: number): [Uint8Array, number] => {
+    if (der[offset] !== 0x02) return invalid();
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    while (value.length > 32 && value[0] === 0) value = value.slice(1);
+    if (value.length > 32) return invalid();
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return [padded, offset + 2 + length];
+  };
+  if (der[0] !== 0x30) return invalid();
+  const [r, next] = readInteger(2);
+  const [s] = readInteger(next);
+  const raw = new Uint8Array(64);
+  raw.set(r);
+  raw.set(s, 32);
+  return raw;
+};
+
+const verifySignature = async (coseKey: Uint8Array, signature: Uint8Array, data: Uint8Array) => {
+  const { key, algorithm } = await importCoseKey(coseKey);
+  if (algorithm === COSE_ALG_ES256) {
+    return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawEcdsa(signature), data);
+  }
+  return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+};
+
+// --- Ceremony checks ---
+
+const checkClientData = (data: ClientData, type: 'webauthn.create' | 'webauthn.get', expected: ExpectedCeremony) => {
+  if (data.type !== type || data.challenge !== expected.challenge) invalid();
+  if (!expected.rp.origins.includes(data.origin) || data.crossOrigin === true) invalid();
+};
+
+const checkAuthenticatorData = async (authData: AuthenticatorData, rp: RelyingParty) => {
+  if (!sameBytes(authData.rpIdHash, await sha256(encoder.encode(rp.id)))) invalid();
+  // Passkeys stand in for the password, so the authenticator must have checked a PIN or biometric.
+  if (!authData.userPresent || !authData.userVerified) invalid();
+};
+
+const checkCredentialShape = (response: { id?: unknown; rawId?: unknown; type?: unknown; response?: unknown }) => {
+  if (!response || response.type !== 'public-key' || typeof response.id !== 'string' || !response.response) invalid();
+  if (response.rawId !== undefined && response.rawId !== response.id) invalid();
+};
+
+// Attestation is not requested (attestation: 'none'), so whatever statement an authenticator
+// still attaches is not checked: the key is trusted on first use, like a password is.
+export const verifyRegistrationResponse = async (
+  response: RegistrationResponseJSON,
+  expected: ExpectedCeremony
+): Promise<VerifiedRegistration> => {
+  checkCredentialShape(response);
+  const { data } = parseClientData(response.response.clientDataJSON);
+  checkClientData(data, 'webauthn.create', expected);
+
+  const attestation = decodeCborOrFail(decodeField(response.response.attestationObject));
+  const authDataBytes = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!(authDataBytes instanceof Uint8Array)) return invalid();
+  const authData = parseAuthenticatorData(authDataBytes);
+  await checkAuthenticatorData(authData, expected.rp);
+  if (!authData.credential || toBase64Url(authData.credential.id) !== response.id) return invalid();
+
+  const { algorithm } = await importCoseKey(authData.credential.publicKey);
+  const transports = response.response.transports;
+  return {
+    credentialId: response.id,
+    publicKey: toBase64Url(authData.credential.publicKey),
+    algorithm,
+    signCount: authData.signCount,
+    ...(Array.isArray(transports) ? { transports: transports.filter((t): t is string => typeof t === 'string') } : {}),
+  };
+};
+
+// Resolves to the authenticator's new signature counter, to be stored with the credential.
+export const verifyAuthenticationResponse = async (
+  response: AuthenticationResponseJSON,
+  expected: ExpectedCeremony,
+  credential: StoredPasskey
+): Promise<{ signCount: number }> => {
+  checkCredentialShape(response);
+  if (response.id !== credential.id) invalid();
+  const { data, bytes: clientDataBytes } = parseClientData(response.response.clientDataJSON);
+  checkClientData(data, 'webauthn.get', expected);
+
+  const authDataBytes = decodeField(response.response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  await checkAuthenticatorData(authData, expected.rp);
+
+  const signed = new Uint8Array([...authDataBytes, ...(await sha256(clientDataBytes))]);
+  if (!(await verifySignature(fromBase64Url(credential.publicKey), decodeField(response.response.signature), signed))) invalid();
+
+  // Counters only ever grow; one that doesn't means a second copy of the key is in use. Synced
+  // passkeys report 0 every time, which is allowed as long as the stored value is 0 as well.
+  if ((authData.signCount !== 0 || credential.signCount !== 0) && authData.signCount <= credential.signCount) invalid();
+  return { signCount: authData.signCount };
+};
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCbor, decodeCborItem } from '../services/cbor';
+
+const hex = (value: string) => Uint8Array.from(value.match(/../g) ?? [], byte => parseInt(byte, 16));
+
+// Examples from RFC 8949, Appendix A.
+describe('decodeCbor', () => {
+  it('decodes integers', () => {
+    assert.equal(decodeCbor(hex('00')), 0);
+    assert.equal(decodeCbor(hex('17')), 23);
+    assert.equal(decodeCbor(hex('1818')), 24);
+    assert.equal(decodeCbor(hex('1903e8')), 1000);
+    assert.equal(decodeCbor(hex('1a000f4240')), 1000000);
+    assert.equal(decodeCbor(hex('1b000000e8d4a51000')), 1000000000000);
+    assert.equal(decodeCbor(hex('1bffffffffffffffff')), 18446744073709551615n);
+    assert.equal(decodeCbor(hex('20')), -1);
+    assert.equal(decodeCbor(hex('3903e7')), -1000);
+    assert.equal(decodeCbor(hex('3bffffffffffffffff')), -18446744073709551616n);
+  });
+
+  it('decodes byte and text strings', () => {
+    assert.deepEqual(decodeCbor(hex('4401020304')), hex('01020304'));
+    assert.equal(decodeCbor(hex('6449455446')), 'IETF');
+    assert.equal(decodeCbor(hex('62c3bc')), 'ü');
+    assert.equal(decodeCbor(hex('60')), '');
+  });
+
+  it('decodes arrays and maps, keeping integer keys as numbers', () => {
+    assert.deepEqual(decodeCbor(hex('8301820203820405')), [1, [2, 3], [4, 5]]);
+    assert.deepEqual(decodeCbor(hex('a201020304')), new Map([[1, 2], [3, 4]]));
+    assert.deepEqual(decodeCbor(hex('a26161016162820203')), new Map<unknown, unknown>([['a', 1], ['b', [2, 3]]]));
+  });
+
+  it('decodes simple values and skips tags', () => {
+    assert.equal(decodeCbor(hex('f4')), false);
+    assert.equal(decodeCbor(hex('f5')), true);
+    assert.equal(decodeCbor(hex('f6')), null);
+    assert.equal(decodeCbor(hex('f7')), undefined);
+    assert.equal(decodeCbor(hex('c074323031332d30332d32315432303a30343a30305a')), '2013-03-21T20:04:00Z');
+  });
+
+  it('rejects truncated input, trailing bytes and unsupported encodings', () => {
+    assert.throws(() => decodeCbor(hex('1903')), /unexpected end/);
+    assert.throws(() => decodeCbor(hex('62c3')), /unexpected end/);
+    assert.throws(() => decodeCbor(hex('0000')), /trailing bytes/);
+    assert.throws(() => decodeCbor(hex('5f42010243030405ff')), /unsupported length/);
+    assert.throws(() => decodeCbor(hex('f93c00')), /unsupported simple value/);
+    assert.throws(() => decodeCbor(hex('62c328')), TypeError); // Invalid UTF-8
+  });
+});
+
+describe('decodeCborItem', () => {
+  it('returns the offset just past the item', () => {
+    assert.deepEqual(decodeCborItem(hex('ff1903e8ff'), 1), [1000, 4]);
+  });
+});
@@ -0,0 +1,125 @@
+import { AuthenticationResponseJSON, RegistrationResponseJSON, RelyingParty } from '../../services/webauthn';
+
+// Ceremonies recorded from a software authenticator (P-256 and RSA-2048 keys in Node's crypto)
+// against the relying party below: "none" attestation, UP and UV set unless noted, and sign
+// counters starting at 0 on registration. Each assertion answers its own challenge.
+
+interface Recorded<T> {
+  challenge: string;
+  response: T;
+}
+
+export const RP: RelyingParty = { id: 'localhost', name: 'AuthSys Pro', origins: ['http://localhost:3000'] };
+
+// Assertions carry sign counts 5 (authentication) to 8, in the order below.
+export const ES256: {
+  registration: Recorded<RegistrationResponseJSON>;
+  authentication: Recorded<AuthenticationResponseJSON>;
+  userNotVerified: Recorded<AuthenticationResponseJSON>;
+  otherRpId: Recorded<AuthenticationResponseJSON>;
+  otherOrigin: Recorded<AuthenticationResponseJSON>;
+} = {
+  registration: {
+    challenge: 'F6MSj5LDQPOfert7ZgbLYpc2pLNNCFGyis4CZ4PpJFs',
+    response: {
+      id: 'raak4KwH2TdweDupnXz0KQ',
+      rawId: 'raak4KwH2TdweDupnXz0KQ',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiRjZNU2o1TERRUE9mZXJ0N1pnYkxZcGMycExOTkNGR3lpczRDWjRQcEpGcyIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        attestationObject: 'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YViUSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NFAAAAAAAAAAAAAAAAAAAAAAAAAAAAEK2mpOCsB9k3cHg7qZ189CmlAQIDJiABIVggCXEt8uLl-y7cgd8Nybq8UuLa2mPuAOZtsSs4C_O4UoIiWCBbeywKhvStxptK_QVHnKf2UdZpmgVF2XGMo5khqYklJA',
+        transports: ['internal', 'hybrid'],
+      },
+    },
+  },
+  authentication: {
+    challenge: '7TDVSIgb6uCyoUFD9tSLNm7NfcxwCIcwWq2fSC9XQHg',
+    response: {
+      id: 'raak4KwH2TdweDupnXz0KQ',
+      rawId: 'raak4KwH2TdweDupnXz0KQ',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiN1REVlNJZ2I2dUN5b1VGRDl0U0xObTdOZmN4d0NJY3dXcTJmU0M5WFFIZyIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAABQ',
+        signature: 'MEQCIE3KWXT-_keNLdVZnE057k47Qi0WrsrltN1wRgWeq4BkAiAjCjGi1wnbHMmK3njGNBgBGLGjiGzhJzbrAQZq22GHnA',
+        userHandle: 'dXNlci03ZjNh',
+      },
+    },
+  },
+  userNotVerified: {
+    challenge: 'mElkmKyWK62y7AIfYMzcWUJfFyOsYLksxuWD_dlFPeM',
+    response: {
+      id: 'raak4KwH2TdweDupnXz0KQ',
+      rawId: 'raak4KwH2TdweDupnXz0KQ',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoibUVsa21LeVdLNjJ5N0FJZllNemNXVUpmRnlPc1lMa3N4dVdEX2RsRlBlTSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MBAAAABg',
+        signature: 'MEQCIGYtlJr5jbY732dBSeTsWfFsbbwyCqSUOc_1NxNtZ1R4AiAClcj4W3RXwPf-Brn3IWLFYmsyT63WrisGUtbLHvS9Hg',
+        userHandle: 'dXNlci03ZjNh',
+      },
+    },
+  },
+  otherRpId: {
+    challenge: 'jVSIlbvcViMsJWaMz_TNQCrfCBKvFsMmzHpo4LuO3R8',
+    response: {
+      id: 'raak4KwH2TdweDupnXz0KQ',
+      rawId: 'raak4KwH2TdweDupnXz0KQ',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoialZTSWxidmNWaU1zSldhTXpfVE5RQ3JmQ0JLdkZzTW16SHBvNEx1TzNSOCIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        authenticatorData: 'nBgN4M1pnueIl8R8_bPn7h11kG4xt3RqR0fepTaQmDcFAAAABw',
+        signature: 'MEUCIBzkdXNIbD53hlWgkr9m4uWYZhBDpmSYCDmtwfezKX8SAiEA3TUlzVknPYPef6WH8Wkpjhp-5F0Ta32XXz0jYB4Vo-Q',
+        userHandle: 'dXNlci03ZjNh',
+      },
+    },
+  },
+  otherOrigin: {
+    challenge: '4w5kPbvcGDwSqN80IWqAji7E-LK9gaagkR9a5I19x_w',
+    response: {
+      id: 'raak4KwH2TdweDupnXz0KQ',
+      rawId: 'raak4KwH2TdweDupnXz0KQ',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiNHc1a1BidmNHRHdTcU44MElXcUFqaTdFLUxLOWdhYWdrUjlhNUkxOXhfdyIsIm9yaWdpbiI6Imh0dHBzOi8vZXZpbC5leGFtcGxlIiwiY3Jvc3NPcmlnaW4iOmZhbHNlfQ',
+        authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAACA',
+        signature: 'MEUCICpMg6ADbivqK0eu31i1Ri2dJJtRyBjtEi1swOr1xf7AAiEAkIH36mN6uvfv_A4Wa8GHd4p68dnkKu2cDyvMxMgI6j4',
+        userHandle: 'dXNlci03ZjNh',
+      },
+    },
+  },
+};
+
+// The authentication carries sign count 5.
+export const RS256: {
+  registration: Recorded<RegistrationResponseJSON>;
+  authentication: Recorded<AuthenticationResponseJSON>;
+} = {
+  registration: {
+    challenge: 'EVVusqr75zjgdky-4DOnXA-TvSRHuppOtYPGS8g7dUI',
+    response: {
+      id: 'YeXFQxnk9GsacLqBVJOoDw',
+      rawId: 'YeXFQxnk9GsacLqBVJOoDw',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiRVZWdXNxcjc1empnZGt5LTRET25YQS1UdlNSSHVwcE90WVBHUzhnN2RVSSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        attestationObject: 'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YVkBV0mWDeWIDoxodDQXD2R2YFuP5K65ooYyx5lc87qDHZdjRQAAAAAAAAAAAAAAAAAAAAAAAAAAABBh5cVDGeT0axpwuoFUk6gPpAEDAzkBACBZAQDf1ldYMCsA4G6MtMZzKMD-l0pPm4V4BWNRmUSB0RiTejsTQOsa4Eq3Tr9F02CLZI0UJ1EoSJDnXJyrti7rymfCU601VNkR6QxQOCzjS78MNEjltImSAXNjoFjaz97Pld93lrtixbbWB83M-9XxFGKt8YKtdEtBIWn_1w9HiDXdGXLxKQcDfrxSX-JJSwQV8tMSfr-eoe8b-skeKhUFog13GB0WgKpFkA-yNLMFd0QNpiqyBSQAAd1wGA0CPyTdPL1xWIjgpFrpAi1pX13LxbtwOmQUfOzhEt29SPcINgD7gxWf_dusHOfLy3ZWgG4LX_ccip-OX3Q-uXntgD4aTjXHIUMBAAE',
+        transports: ['internal', 'hybrid'],
+      },
+    },
+  },
+  authentication: {
+    challenge: 'eVBELS_iLszNEx0xLVwt3_eIUnJfnKQGj4OPyGtosXQ',
+    response: {
+      id: 'YeXFQxnk9GsacLqBVJOoDw',
+      rawId: 'YeXFQxnk9GsacLqBVJOoDw',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiZVZCRUxTX2lMc3pORXgweExWd3QzX2VJVW5KZm5LUUdqNE9QeUd0b3NYUSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAABQ',
+        signature: 'iFDmC10pCBFaXiZjaKZSWJOOXZSDIrAxzje9dz4cu_TuA5pOtp-JsE-zR_GLOMQCgq_oUW1aWz_5vfCPogbSkPNQVk3rg-QeT1xR9Bt8PhBAVJZUP-eazb9tXvZR5pjotf-Z-se-l7nDLyk8oxjB7QBsB0iiRaAvCOa2bopfbZitmfi63eyBU578Wp5BJnZfD2dFOOTAVmpCpH8_OvGTlejbfnfL94zIHugey6L8gc1p1R1Z7m11pqsiI6j8XXf3YqQNMQFkhzmhNFB0OGjACGtn6FUN5DKSWbR2r92zPOSOpG2SJVVr0X6Aj6K4AnqJdle6hmHZa-FkIHwTuOS8eg',
+        userHandle: 'dXNlci03ZjNh',
+      },
+    },
+  },
+};
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryBackend } from '../services/storage';
+import { createAuthService } from '../services/authService';
+
+const PASSWORD = 'correct-Horse-battery-9';
+
+const setup = async () => {
+  const backend = createMemoryBackend();
+  const service = createAuthService(backend, {
+    mail: { send: async () => {} },
+    appUrl: 'http://localhost:3000/',
+    hashIterations: 1000,
+    throttle: { freeAttempts: 100, lockoutThreshold: 10 }, // No backoff: only the lockout is in play
+  });
+  await service.register({ name: 'Ana', email: 'ana@example.com', password: PASSWORD, bio: '' });
+  return { backend, service };
+};
+
+const errorCodes = (results: PromiseSettledResult<unknown>[]) =>
+  results.map(result => (result.status === 'rejected' ? result.reason.code : 'ok'));
+
+describe('login throttle', () => {
+  it('counts concurrent failures and locks the account out', async () => {
+    const { backend, service } = await setup();
+    const codes = errorCodes(await Promise.allSettled(
+      Array.from({ length: 40 }, () => service.login('ana@example.com', 'wrong-password', 'test-client'))
+    ));
+    assert.equal(codes.filter(code => code === 'invalid_credentials').length, 9);
+    assert.equal(codes.filter(code => code === 'account_locked').length, 31);
+    assert.equal((await backend.attempts.getCounter('email:ana@example.com'))?.failures, 10);
+    await assert.rejects(service.login('ana@example.com', PASSWORD, 'other-client'), { code: 'account_locked' });
+  });
+
+  it('does not count a successful login as a failure', async () => {
+    const { backend, service } = await setup();
+    await assert.rejects(service.login('ana@example.com', 'wrong-password', 'test-client'), { code: 'invalid_credentials' });
+    const outcome = await service.login('ANA@example.com', PASSWORD, 'test-client');
+    assert.equal(outcome.twoFactorRequired, false);
+    assert.equal(await backend.attempts.getCounter('email:ana@example.com'), null);
+    assert.equal((await backend.attempts.getCounter('client:test-client'))?.failures, 1);
+  });
+});
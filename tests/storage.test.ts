@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UserRecord } from '../types';
+import { ActionTokenRecord } from '../services/actionTokens';
+import { createMemoryBackend } from '../services/storage';
+
+const user = (id: string, email: string): UserRecord => ({
+  id,
+  name: id,
+  email,
+  bio: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  role: 'user',
+  status: 'active',
+  emailVerified: true,
+});
+
+const token = (hash: string, expiresAt: number, userId = 'u1'): ActionTokenRecord => ({
+  hash,
+  userId,
+  purpose: 'reset_password',
+  email: 'ana@example.com',
+  expiresAt,
+});
+
+describe('user repository', () => {
+  it('rejects a second record with the same id or email', async () => {
+    const { users } = createMemoryBackend([user('u1', 'ana@example.com')]);
+    await assert.rejects(users.create(user('u1', 'other@example.com')), /duplicado/);
+    await assert.rejects(users.create(user('u2', 'ana@example.com')), /duplicado/);
+    await assert.rejects(users.create(user('u3', ' Ana@Example.com')), /duplicado/);
+    assert.equal((await users.list()).total, 1);
+  });
+
+  it('applies the first-user changes to one record only, even when created concurrently', async () => {
+    const { users } = createMemoryBackend();
+    const created = await Promise.all(['u1', 'u2', 'u3'].map(id => users.create(user(id, `${id}@example.com`), { role: 'admin' })));
+    assert.deepEqual(created.map(u => u.role), ['admin', 'user', 'user']);
+    assert.deepEqual((await users.list()).items.map(u => u.role).sort(), ['admin', 'user', 'user']);
+  });
+
+  it('finds users by email whatever the case', async () => {
+    const { users } = createMemoryBackend([user('u1', 'ana@example.com')]);
+    assert.equal((await users.findByEmail('ANA@example.com '))?.id, 'u1');
+    assert.equal(await users.findByEmail('bia@example.com'), null);
+  });
+
+  it('refuses to update a record that does not exist', async () => {
+    const { users } = createMemoryBackend();
+    await assert.rejects(users.update(user('u1', 'ana@example.com')));
+  });
+});
+
+describe('action tokens', () => {
+  it('hands a token out only once', async () => {
+    const { tokens } = createMemoryBackend();
+    await tokens.save(token('h1', Date.now() + 60_000));
+    assert.equal((await tokens.take('h1'))?.hash, 'h1');
+    assert.equal(await tokens.take('h1'), null);
+  });
+
+  it('prunes expired tokens when another is saved', async () => {
+    const { tokens } = createMemoryBackend();
+    await tokens.save(token('expired', Date.now() - 1));
+    await tokens.save(token('fresh', Date.now() + 60_000));
+    assert.equal(await tokens.take('expired'), null);
+    assert.equal((await tokens.take('fresh'))?.hash, 'fresh');
+  });
+
+  it('revokes only the given user and purpose', async () => {
+    const { tokens } = createMemoryBackend();
+    await tokens.save(token('mine', Date.now() + 60_000, 'u1'));
+    await tokens.save(token('theirs', Date.now() + 60_000, 'u2'));
+    await tokens.revoke('u1', 'reset_password');
+    assert.equal(await tokens.take('mine'), null);
+    assert.equal((await tokens.take('theirs'))?.hash, 'theirs');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  base32Decode,
+  base32Encode,
+  generateHotp,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  timeStep,
+  verifyTotp,
+} from '../services/totp';
+import { createMemoryBackend } from '../services/storage';
+import { createAuthService } from '../services/authService';
+
+// The RFC test secret, ASCII "12345678901234567890".
+const SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+describe('HOTP and TOTP codes', () => {
+  it('matches the RFC 4226 Appendix D HOTP values', async () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+    for (const [counter, code] of expected.entries()) assert.equal(await generateHotp(SECRET, counter), code);
+  });
+
+  // Appendix B lists 8-digit SHA-1 codes; ours are their last 6 digits.
+  it('matches the RFC 6238 Appendix B SHA-1 values', async () => {
+    const vectors: [number, string][] = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+    for (const [seconds, code] of vectors) assert.equal(await generateTotp(SECRET, seconds * 1000), code.slice(-6));
+  });
+
+  it('round-trips base32 and ignores case, spaces and dashes', () => {
+    assert.equal(SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    assert.deepEqual(base32Decode('gezd gnbv-gy3t qojq'), base32Decode('GEZDGNBVGY3TQOJQ'));
+    assert.throws(() => base32Decode('GEZD1'));
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000;
+  const step = timeStep(now);
+
+  it('accepts the current code and resolves to its step', async () => {
+    assert.equal(await verifyTotp(SECRET, await generateHotp(SECRET, step), now), step);
+    assert.equal(await verifyTotp(SECRET, (await generateHotp(SECRET, step)).replace(/^(\d{3})/, '$1 '), now), step);
+  });
+
+  it('accepts codes one step either side of the clock', async () => {
+    assert.equal(await verifyTotp(SECRET, await generateHotp(SECRET, step - 1), now), step - 1);
+    assert.equal(await verifyTotp(SECRET, await generateHotp(SECRET, step + 1), now), step + 1);
+  });
+
+  it('rejects codes outside the window', async () => {
+    assert.equal(await verifyTotp(SECRET, await generateHotp(SECRET, step - 2), now), null);
+    assert.equal(await verifyTotp(SECRET, await generateHotp(SECRET, step + 2), now), null);
+    assert.equal(await verifyTotp(SECRET, await generateHotp(SECRET, step - 1), now, 0), null);
+  });
+
+  it('rejects anything that is not six digits', async () => {
+    for (const code of ['', '12345', '1234567', 'abcdef']) assert.equal(await verifyTotp(SECRET, code, now), null);
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct XXXX-XXXX codes', () => {
+    const codes = generateRecoveryCodes();
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, codes.length);
+    for (const code of codes) assert.match(code, /^[A-Z2-7]{4}-[A-Z2-7]{4}$/);
+  });
+
+  it('hashes the same code the same way however it is typed', async () => {
+    assert.equal(await hashRecoveryCode('abcd-efgh'), await hashRecoveryCode(' ABCDEFGH '));
+    assert.notEqual(await hashRecoveryCode('ABCD-EFGH'), await hashRecoveryCode('ABCD-EFGI'));
+  });
+
+  it('signs in once per recovery code and never twice with the same TOTP step', async () => {
+    const service = createAuthService(createMemoryBackend(), { mail: { send: async () => {} }, appUrl: 'http://localhost:3000/', hashIterations: 1000 });
+    const password = 'Correct-horse-42';
+    const { info } = await service.register({ name: 'Ana', email: 'ana@example.com', password, bio: '' });
+    const { secret } = await service.beginTwoFactorEnrollment(info.user.id);
+    const enrollmentCode = await generateTotp(secret);
+    const [recoveryCode] = await service.confirmTwoFactorEnrollment(info.user.id, secret, enrollmentCode);
+
+    const challenge = async () => {
+      const outcome = await service.login('ana@example.com', password, 'test-client');
+      assert.ok(outcome.twoFactorRequired);
+      return outcome.challenge;
+    };
+    await service.verifyTwoFactorLogin(await challenge(), recoveryCode.toLowerCase(), 'test-client');
+    await assert.rejects(service.verifyTwoFactorLogin(await challenge(), recoveryCode, 'test-client'), { code: 'invalid_two_factor_code' });
+    // Its time step was spent by the enrollment.
+    await assert.rejects(service.verifyTwoFactorLogin(await challenge(), enrollmentCode, 'test-client'), { code: 'invalid_two_factor_code' });
+  });
+
+  it('turns 2FA off with a code for accounts that have no password', async () => {
+    const service = createAuthService(createMemoryBackend(), { mail: { send: async () => {} }, appUrl: 'http://localhost:3000/', hashIterations: 1000 });
+    const outcome = await service.signInWithIdentity({ provider: 'google', subject: '42', email: 'ana@example.com', emailVerified: true, name: 'Ana' });
+    assert.ok(outcome.twoFactorRequired === false);
+    const userId = outcome.session.info.user.id;
+    const enroll = async () => {
+      const { secret } = await service.beginTwoFactorEnrollment(userId);
+      const code = await generateTotp(secret);
+      return { code, recoveryCodes: await service.confirmTwoFactorEnrollment(userId, secret, code) };
+    };
+    const twoFactorEnabled = async () => (await service.resolveSession(outcome.session.token))?.user.twoFactorEnabled;
+
+    const { code, recoveryCodes } = await enroll();
+    await assert.rejects(service.disableTwoFactor(userId, ''), { code: 'invalid_two_factor_code' });
+    // Spent by the enrollment, so it can't be replayed to turn 2FA off.
+    await assert.rejects(service.disableTwoFactor(userId, code), { code: 'invalid_two_factor_code' });
+    await service.disableTwoFactor(userId, recoveryCodes[0]);
+    assert.equal(await twoFactorEnabled(), false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  COSE_ALG_ES256,
+  COSE_ALG_RS256,
+  StoredPasskey,
+  clientDataChallenge,
+  userHandleOf,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '../services/webauthn';
+import { ES256, RP, RS256 } from './fixtures/passkeys';
+
+const invalidPasskey = { code: 'invalid_passkey' };
+
+// Registers the fixture's credential, as the auth service would store it.
+const register = async (fixtures: typeof ES256 | typeof RS256): Promise<StoredPasskey> => {
+  const { credentialId, publicKey, algorithm, signCount } = await verifyRegistrationResponse(fixtures.registration.response, {
+    challenge: fixtures.registration.challenge,
+    rp: RP,
+  });
+  return { id: credentialId, publicKey, algorithm, signCount };
+};
+
+for (const [name, fixtures, algorithm] of [['ES256', ES256, COSE_ALG_ES256], ['RS256', RS256, COSE_ALG_RS256]] as const) {
+  describe(`${name} passkeys`, () => {
+    it('verifies the registration and returns the credential', async () => {
+      const verified = await verifyRegistrationResponse(fixtures.registration.response, { challenge: fixtures.registration.challenge, rp: RP });
+      assert.equal(verified.credentialId, fixtures.registration.response.id);
+      assert.equal(verified.algorithm, algorithm);
+      assert.equal(verified.signCount, 0);
+      assert.deepEqual(verified.transports, ['internal', 'hybrid']);
+    });
+
+    it('verifies an assertion and returns the new sign count', async () => {
+      const stored = await register(fixtures);
+      const { challenge, response } = fixtures.authentication;
+      assert.deepEqual(await verifyAuthenticationResponse(response, { challenge, rp: RP }, stored), { signCount: 5 });
+    });
+
+    it('rejects a registration that answers another challenge', async () => {
+      await assert.rejects(
+        verifyRegistrationResponse(fixtures.registration.response, { challenge: fixtures.authentication.challenge, rp: RP }),
+        invalidPasskey
+      );
+    });
+  });
+}
+
+describe('passkey assertions', () => {
+  it('reads the challenge and user handle before verification', () => {
+    assert.equal(clientDataChallenge(ES256.authentication.response), ES256.authentication.challenge);
+    assert.equal(userHandleOf(ES256.authentication.response), 'user-7f3a');
+  });
+
+  it('rejects an assertion without user verification', async () => {
+    const stored = await register(ES256);
+    const { challenge, response } = ES256.userNotVerified;
+    await assert.rejects(verifyAuthenticationResponse(response, { challenge, rp: RP }, stored), invalidPasskey);
+  });
+
+  it('rejects a sign count that does not grow', async () => {
+    const stored = await register(ES256);
+    const { challenge, response } = ES256.authentication;
+    for (const signCount of [5, 9]) {
+      await assert.rejects(verifyAuthenticationResponse(response, { challenge, rp: RP }, { ...stored, signCount }), invalidPasskey);
+    }
+  });
+
+  it('rejects an assertion made for another relying party id', async () => {
+    const stored = await register(ES256);
+    const { challenge, response } = ES256.otherRpId;
+    await assert.rejects(verifyAuthenticationResponse(response, { challenge, rp: RP }, stored), invalidPasskey);
+  });
+
+  it('rejects an assertion made on another origin', async () => {
+    const stored = await register(ES256);
+    const { challenge, response } = ES256.otherOrigin;
+    await assert.rejects(verifyAuthenticationResponse(response, { challenge, rp: RP }, stored), invalidPasskey);
+    await assert.rejects(
+      verifyAuthenticationResponse(ES256.authentication.response, { challenge: ES256.authentication.challenge, rp: { ...RP, origins: ['https://app.example'] } }, stored),
+      invalidPasskey
+    );
+  });
+
+  it('rejects a signature that does not match the stored key', async () => {
+    const stored = await register(RS256);
+    const { challenge, response } = ES256.authentication;
+    await assert.rejects(verifyAuthenticationResponse(response, { challenge, rp: RP }, { ...stored, id: response.id }), invalidPasskey);
+  });
+});
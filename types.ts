@@ -1,22 +1,349 @@
+import type { ImportReport, UserImportRow } from './services/userImport';
+
+export type Role = 'admin' | 'user';
+
+export type UserStatus = 'active' | 'disabled';
+
 export interface User {
   id: string;
   name: string;
   email: string;
-  password: string; // In a real app, this would be hashed
   bio: string;
   createdAt: string;
-  role: 'admin' | 'user';
+  role: Role;
+  status: UserStatus;
+  emailVerified: boolean;
+  mustChangePassword?: boolean; // Set by an admin-forced reset; cleared once the user picks a new password
+  twoFactorEnabled?: boolean;
+  hasPassword?: boolean; // False for accounts that only sign in through a provider (or were imported)
+  providers?: LinkedProvider[];
+  passkeys?: Passkey[];
+  deletionScheduledAt?: string; // Set while a requested deletion waits out its grace period; signing in clears it
+  avatar?: AvatarImages; // Without one, the UI shows the initial instead
+  locale?: Locale; // Language of the emails we send; follows the one last used in the app
+}
+
+// A square profile picture pre-rendered at each size, as data: URLs (WebP, or PNG where the
+// browser could not encode WebP). See services/avatar.ts for the limits.
+export type AvatarSize = 32 | 128 | 256;
+export type AvatarImages = Record<AvatarSize, string>;
+
+export type OAuthProviderId = 'google' | 'github' | 'mock';
+
+// What the sign-in page needs to show a provider's button.
+export interface OAuthProviderInfo {
+  id: OAuthProviderId;
+  label: string;
+}
+
+// An account at an OAuth/OpenID Connect provider that can sign in as this user.
+export interface LinkedProvider {
+  provider: OAuthProviderId;
+  subject: string; // The provider's stable user id ("sub"), never the email
+  email: string;
+  linkedAt: string;
+}
+
+// Who a provider says signed in, once the code exchange and ID token checked out.
+export interface ExternalIdentity {
+  provider: OAuthProviderId;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+}
+
+// A WebAuthn credential as the owner sees it in their profile.
+export interface Passkey {
+  id: string; // Credential id, base64url
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// The stored credential; the public key and counter never leave the auth service.
+export interface PasskeyCredential extends Passkey {
+  publicKey: string; // COSE_Key, base64url
+  algorithm: number; // COSE algorithm id (-7 ES256, -257 RS256)
+  signCount: number;
+  transports?: string[];
+}
+
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  hash: string; // base64
+}
+
+export interface TwoFactorSettings {
+  secret: string; // base32 TOTP secret
+  enabledAt: string;
+  recoveryCodeHashes: string[]; // SHA-256 of the unused recovery codes
+  lastUsedStep?: number; // Last accepted TOTP time step, to reject replays
+}
+
+// What is actually persisted in the "Database". Never leaves AuthProvider.
+export interface UserRecord extends User {
+  passwordHash?: PasswordHash;
+  password?: string; // Legacy plaintext, upgraded to passwordHash on next login
+  twoFactor?: TwoFactorSettings;
+  passkeys?: PasskeyCredential[];
+}
+
+// --- Organizations ---
+// Per-organization roles, layered on top of the account-wide `role`.
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export interface Organization {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface Membership {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+// An organization as one of its members sees it (e.g. in the switcher).
+export interface OrganizationSummary extends Organization {
+  role: OrganizationRole; // The caller's role in it
+  memberCount: number;
+}
+
+export interface OrganizationMember {
+  user: User;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface Invitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: OrganizationRole; // Given on joining
+  invitedBy: string; // User id
+  createdAt: string;
+  expiresAt: string;
+}
+
+// The link carries a random token; only its SHA-256 is stored, as with action tokens.
+export interface InvitationRecord extends Invitation {
+  hash: string;
+}
+
+// What an invitation link shows before it is accepted.
+export interface InvitationPreview {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: string;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  forbidPersonalInfo: boolean; // No parts of the name or the email's local part
+  forbidCommon: boolean; // Checked against the bundled common/breached list
+}
+
+export interface RegisterData {
+  name: string;
+  email: string;
+  password: string;
+  bio: string;
+  invitation?: string; // Token from an invitation link: the new account joins that organization
+  avatar?: AvatarImages;
+  locale?: Locale;
+}
+
+export interface UserUpdate {
+  name?: string;
+  email?: string;
+  bio?: string;
+  locale?: Locale;
+}
+
+export interface FailedLoginAttempt {
+  email: string;
+  clientId: string;
+  at: string; // ISO timestamp
+  reason: 'invalid_credentials' | 'invalid_two_factor' | 'throttled' | 'disabled';
+}
+
+export type AuditEventType =
+  | 'register'
+  | 'login'
+  | 'login_failed'
+  | 'logout'
+  | 'password_changed'
+  | 'password_reset_requested'
+  | 'password_reset'
+  | 'password_reset_forced'
+  | 'email_verification_sent'
+  | 'email_verified'
+  | 'profile_updated'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'user_updated'
+  | 'role_changed'
+  | 'status_changed'
+  | 'user_deleted'
+  | 'user_imported'
+  | 'provider_linked'
+  | 'provider_unlinked'
+  | 'passkey_registered'
+  | 'passkey_removed'
+  | 'organization_created'
+  | 'member_invited'
+  | 'invitation_revoked'
+  | 'member_joined'
+  | 'member_role_changed'
+  | 'member_removed'
+  | 'session_revoked'
+  | 'sessions_revoked'
+  | 'data_exported'
+  | 'deletion_requested'
+  | 'deletion_cancelled'
+  | 'account_purged';
+
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  actorId: string | null; // Who did it (null for anonymous, e.g. a failed login)
+  targetId: string | null; // Which account it affected
+  at: string; // ISO timestamp
+  metadata: Record<string, string | number | boolean>;
+}
+
+// "Download my data": everything kept about one account, as its owner downloads it.
+export interface PersonalDataExport {
+  exportedAt: string;
+  user: User; // Includes the bio
+  organizations: (OrganizationSummary & { joinedAt: string })[];
+  sessions: Omit<SessionRecord, 'userId'>[];
+  activity: AuditEvent[]; // Audit events where the account is the actor or the target, oldest first
+  failedLogins: FailedLoginAttempt[]; // Against the account's email, newest first
+}
+
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+export type BioTone = 'professional' | 'friendly' | 'creative' | 'formal';
+export type BioLength = 'short' | 'medium' | 'long';
+export type BioLanguage = Locale;
+export type BioPerson = 'first' | 'third';
+
+export interface BioOptions {
+  tone: BioTone;
+  length: BioLength;
+  language: BioLanguage;
+  person: BioPerson;
+}
+
+export interface SessionInfo {
+  user: User;
+  sessionId: string; // The stored session this token belongs to
+  issuedAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+}
+
+// One per sign-in. A token is only honoured while its record exists, so deleting it revokes the session.
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  createdAt: string; // ISO timestamp
+  lastSeenAt: string; // ISO timestamp; moves on every refresh, i.e. while the user is active
+  expiresAt: number; // ms since epoch, same as the latest token's
+  userAgent: string;
+  device: string; // "Browser · OS" guessed from the user agent; '' when unrecognized
+}
+
+// A session as its owner sees it in the list.
+export interface ActiveSession extends Omit<SessionRecord, 'userId'> {
+  current: boolean; // The session making the request
+}
+
+export interface LoginResult {
+  twoFactorRequired: boolean; // When true, finish with verifyTwoFactorLogin
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
 }
 
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  sessionExpiresAt: number | null; // ms since epoch, slides forward on activity
+  passwordPolicy: PasswordPolicy;
+  oauthProviders: OAuthProviderInfo[]; // Empty when the backend offers none (e.g. the local client)
+  organizations: OrganizationSummary[]; // The signed-in user's
+  currentOrganization: OrganizationSummary | null; // Picked in the switcher; remembered per browser
 }
 
 export interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
-  register: (data: Omit<User, 'id' | 'createdAt' | 'role'>) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactorLogin: (code: string) => Promise<void>; // TOTP code or recovery code
+  cancelTwoFactorLogin: () => void;
+  register: (data: RegisterData) => Promise<void>;
   logout: () => void;
+  refreshSession: () => Promise<void>;
+  completePasswordReset: (newPassword: string) => Promise<void>;
+  updateProfile: (changes: UserUpdate) => Promise<void>;
+  updateAvatar: (avatar: AvatarImages | null) => Promise<void>; // Null removes it
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  beginTwoFactorEnrollment: () => Promise<TwoFactorEnrollment>;
+  confirmTwoFactorEnrollment: (code: string) => Promise<string[]>; // Resolves to the recovery codes, shown once
+  disableTwoFactor: (confirmation: string) => Promise<void>;
+  // External providers: both leave the page and come back through the provider's redirect
+  signInWithProvider: (provider: OAuthProviderId, next?: string) => Promise<void>;
+  linkProvider: (provider: OAuthProviderId) => Promise<void>;
+  unlinkProvider: (provider: OAuthProviderId) => Promise<void>;
+  // Passkeys (WebAuthn); both ceremonies open the browser's own prompt
+  loginWithPasskey: () => Promise<void>;
+  registerPasskey: (name?: string) => Promise<void>;
+  renamePasskey: (id: string, name: string) => Promise<void>;
+  removePasskey: (id: string) => Promise<void>;
+  // Email verification & password recovery (tokens are delivered through the MailTransport)
+  requestEmailVerification: () => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>; // Resolves even for unknown emails
+  resetPassword: (token: string, newPassword: string) => Promise<void>;
+  // Admin operations, guarded by permissions inside the provider
+  updateUser: (id: string, changes: UserUpdate) => Promise<void>;
+  setUserRole: (id: string, role: Role) => Promise<void>;
+  setUserStatus: (id: string, status: UserStatus) => Promise<void>;
+  deleteUser: (id: string) => Promise<void>;
+  forcePasswordReset: (id: string) => Promise<string>; // Resolves to a one-off temporary password
+  importUsers: (rows: UserImportRow[], options?: { dryRun?: boolean }) => Promise<ImportReport>; // All-or-nothing
+  getFailedLoginAttempts: (limit?: number) => Promise<FailedLoginAttempt[]>;
+  getAuditLog: () => Promise<AuditEvent[]>; // Oldest first
+  // Sessions; revoking the current one signs out here too
+  getSessions: () => Promise<ActiveSession[]>; // Most recently active first
+  revokeSession: (id: string) => Promise<void>;
+  revokeOtherSessions: () => Promise<number>; // Resolves to how many were ended
+  revokeUserSessions: (userId: string) => Promise<number>; // Admin: signs the user out everywhere
+  // Personal data; a deletion request signs out everywhere, and signing in again within the grace period cancels it
+  exportPersonalData: () => Promise<PersonalDataExport>;
+  requestAccountDeletion: (confirmation: string) => Promise<void>; // The password, or the email for accounts without one
   users: User[]; // Exposed to visualize the "Database"
+  // Organizations; member operations act on the current one
+  members: OrganizationMember[]; // Of the current organization
+  switchOrganization: (id: string) => void;
+  createOrganization: (name: string) => Promise<void>; // Switches to the new organization
+  setMemberRole: (userId: string, role: OrganizationRole) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>; // Your own id leaves the organization
+  getInvitations: () => Promise<Invitation[]>; // Pending ones
+  inviteMember: (email: string, role: OrganizationRole) => Promise<void>;
+  revokeInvitation: (id: string) => Promise<void>;
+  previewInvitation: (token: string) => Promise<InvitationPreview>; // Works signed out
+  acceptInvitation: (token: string) => Promise<void>; // Switches to the organization joined
 }
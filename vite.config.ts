@@ -5,14 +5,25 @@ import react from '@vitejs/plugin-react';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // Unknown paths get index.html, so deep links like /admin/users load the app and let the
+      // client router pick the page. The entry script in index.html is absolute for the same reason.
+      appType: 'spa',
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API (npm run server) shares this origin so its httpOnly session cookie just works.
+        proxy: {
+          '/api': {
+            target: env.API_URL || 'http://localhost:3001',
+            rewrite: (url) => url.replace(/^\/api/, ''),
+          },
+        },
       },
       plugins: [react()],
+      // The Outbox viewer only makes sense when the API serves its dev outbox, so the same switch
+      // is read here; it is fixed at build time.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.DEV_OUTBOX': JSON.stringify(env.DEV_OUTBOX ?? ''),
       },
       resolve: {
         alias: {